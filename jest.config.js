@@ -1,3 +1,6 @@
+// Rules must not depend on the time zone of the server, a zone other than UTC shows local time parsing
+process.env.TZ = 'America/New_York';
+
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
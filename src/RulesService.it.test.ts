@@ -1,8 +1,12 @@
 import {RulesService} from './RulesService';
 import {createTestDb} from './test/test-database';
 import {MatchRuleFactory} from './entities/MatchRuleFactory';
-import {Kysely} from 'kysely';
+import {DatabaseRuleStorage} from './rulestore/DatabaseRuleStorage';
+import {Kysely, sql} from 'kysely';
 import {Database, User, NewUser} from './test/database.types';
+import {RuleSchemaProblem, RuleValidationError} from './engine/RuleSchemaValidation';
+import {RulePipeline} from './entities/RulePipeline';
+import {RulesExecutionService} from './engine/RulesExecutionService';
 
 const TEST_USERS: NewUser[] = [
     {
@@ -94,9 +98,9 @@ describeIfPg('RulesService - Real Database Integration Tests', () => {
                 }
             ]);
 
-            const affectedRows = await rulesService.processRules(rules, 'users');
+            const report = await rulesService.processRules(rules, 'users');
 
-            expect(affectedRows).toBe(3); // John, Bob, and Alice are verified
+            expect(report.totalAffectedRows).toBe(3); // John, Bob, and Alice are verified
 
             // Verify the results table was created and populated
             const results = await db
@@ -135,9 +139,9 @@ describeIfPg('RulesService - Real Database Integration Tests', () => {
                 }
             ]);
 
-            const affectedRows = await rulesService.processRules(rules, 'users');
+            const report = await rulesService.processRules(rules, 'users');
 
-            expect(affectedRows).toBe(4); // John (priority 1), Alice (priority 1), Jane (admin), Jane (age 25)
+            expect(report.totalAffectedRows).toBe(4); // John (priority 1), Alice (priority 1), Jane (admin), Jane (age 25)
 
             // Check results table
             const results = await db
@@ -165,9 +169,9 @@ describeIfPg('RulesService - Real Database Integration Tests', () => {
                 }
             ]);
 
-            const affectedRows = await rulesService.processRules(rules, 'users');
+            const report = await rulesService.processRules(rules, 'users');
 
-            expect(affectedRows).toBe(TEST_USERS.length); // All test users have @example.com emails
+            expect(report.totalAffectedRows).toBe(TEST_USERS.length); // All test users have @example.com emails
 
             const results = await db
                 .selectFrom('users_results')
@@ -190,9 +194,9 @@ describeIfPg('RulesService - Real Database Integration Tests', () => {
                 }
             ]);
 
-            const affectedRows = await rulesService.processRules(rules, 'users');
+            const report = await rulesService.processRules(rules, 'users');
 
-            expect(affectedRows).toBe(1); // Only Jane matches both conditions
+            expect(report.totalAffectedRows).toBe(1); // Only Jane matches both conditions
 
             const results = await db
                 .selectFrom('users_results')
@@ -205,9 +209,9 @@ describeIfPg('RulesService - Real Database Integration Tests', () => {
         });
 
         it('should handle empty rules array', async () => {
-            const affectedRows = await rulesService.processRules([], 'users');
+            const report = await rulesService.processRules([], 'users');
 
-            expect(affectedRows).toBe(0);
+            expect(report.totalAffectedRows).toBe(0);
 
             // Results table should still be created but empty
             const results = await db
@@ -227,9 +231,9 @@ describeIfPg('RulesService - Real Database Integration Tests', () => {
                 }
             ]);
 
-            const affectedRows = await rulesService.processRules(rules, 'users');
+            const report = await rulesService.processRules(rules, 'users');
 
-            expect(affectedRows).toBe(0);
+            expect(report.totalAffectedRows).toBe(0);
 
             const results = await db
                 .selectFrom('users_results')
@@ -261,9 +265,9 @@ describeIfPg('RulesService - Real Database Integration Tests', () => {
                 }
             ]);
 
-            const affectedRows = await rulesService.processRules(rules, 'users');
+            const report = await rulesService.processRules(rules, 'users');
 
-            expect(affectedRows).toBe(3); // Bob (inactive), Charlie (pending), Bob again (age 35)
+            expect(report.totalAffectedRows).toBe(3); // Bob (inactive), Charlie (pending), Bob again (age 35)
 
             const results = await db
                 .selectFrom('users_results')
@@ -315,9 +319,9 @@ describeIfPg('RulesService - Real Database Integration Tests', () => {
                 }
             ]);
 
-            const affectedRows = await rulesService.processRules(rules, 'users');
+            const report = await rulesService.processRules(rules, 'users');
 
-            expect(affectedRows).toBe(3); // John, Bob, Charlie are users
+            expect(report.totalAffectedRows).toBe(3); // John, Bob, Charlie are users
 
             const results = await db
                 .selectFrom('users_results')
@@ -340,9 +344,9 @@ describeIfPg('RulesService - Real Database Integration Tests', () => {
                 }
             ]);
 
-            const affectedRows = await rulesService.processRules(rules, 'users');
+            const report = await rulesService.processRules(rules, 'users');
 
-            expect(affectedRows).toBe(4);
+            expect(report.totalAffectedRows).toBe(4);
 
             const results = await db
                 .selectFrom('users_results')
@@ -357,6 +361,193 @@ describeIfPg('RulesService - Real Database Integration Tests', () => {
         });
     });
 
+    describe('incremental processing', () => {
+        it('should only process new and changed rows and remove deleted rows', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'mark-processed',
+                    match: { email: '@example\\.com$' },
+                    apply: { status: 'processed' }
+                }
+            ]);
+            const options = { incremental: { keyColumn: 'id', changeColumn: 'updated_at' } };
+            await db.deleteFrom('users_results').execute();
+
+            expect((await rulesService.processRules(rules, 'users', options)).totalAffectedRows).toBe(5);
+            expect((await rulesService.processRules(rules, 'users', options)).totalAffectedRows).toBe(0);
+
+            await db.updateTable('users')
+                .set({ name: 'John Changed', updated_at: new Date('2030-01-01T00:00:00Z') })
+                .where('email', '=', 'john@example.com')
+                .execute();
+            await db.deleteFrom('users').where('email', '=', 'bob@example.com').execute();
+
+            const report = await rulesService.processRules(rules, 'users', options);
+
+            expect(report.totalAffectedRows).toBe(1);
+            const results = await db.selectFrom('users_results').selectAll().orderBy('email').execute();
+            expect(results.map(user => user.email)).toEqual([
+                'alice@example.com',
+                'charlie@example.com',
+                'jane@example.com',
+                'john@example.com'
+            ]);
+            expect(results.find(user => user.email === 'john@example.com')?.name).toBe('John Changed');
+
+            const tables = await db.introspection.getTables();
+            expect(tables.map(table => table.name).filter(name => name.startsWith('users_results_keys_'))).toEqual([]);
+        });
+
+        it.each([
+            ['a change column', { keyColumn: 'id', changeColumn: 'updated_at' }],
+            ['the row hash', { keyColumn: 'id' }]
+        ])('should process the synced rows again after a failed run with %s', async (_, incremental) => {
+            const rules = MatchRuleFactory.createRules([
+                { ruleName: 'mark-processed', match: { email: '@example\\.com$' }, apply: { status: 'processed' } }
+            ]);
+            const failingPipeline = new RulePipeline([{
+                name: 'failing',
+                rules,
+                after: async () => {
+                    throw new Error('after hook failed');
+                }
+            }]);
+            await db.deleteFrom('users_results').execute();
+
+            await expect(rulesService.processRules(failingPipeline, 'users', { incremental }))
+                .rejects.toThrow('Stage "failing" failed: after hook failed');
+            // The copies of the failed run are rolled back with its rules
+            expect(await db.selectFrom('users_results').select('id').execute()).toEqual([]);
+            const report = await rulesService.processRules(rules, 'users', { incremental });
+
+            expect(report.totalAffectedRows).toBe(5);
+            const results = await db.selectFrom('users_results').select('status').execute();
+            expect(results.map(user => user.status)).toEqual(Array(5).fill('processed'));
+        });
+    });
+
+    describe('rule pipelines', () => {
+        it('should process the stages of a pipeline one after another', async () => {
+            const pipeline = new RulePipeline([
+                {
+                    name: 'normalise',
+                    rules: MatchRuleFactory.createRules([
+                        { ruleName: 'normalise-pending', match: { status: 'pending' }, apply: { status: 'inactive' } }
+                    ])
+                },
+                {
+                    name: 'categorise',
+                    rules: MatchRuleFactory.createRules([
+                        { ruleName: 'dormant-users', match: { status: 'inactive' }, apply: { role: 'dormant' } }
+                    ])
+                }
+            ]);
+
+            const report = await rulesService.processRules(pipeline, 'users');
+
+            expect(report.stages.map(stage => [stage.stageName, stage.totalAffectedRows, stage.committed])).toEqual([
+                ['normalise', 1, true],
+                ['categorise', 2, true]
+            ]);
+            expect(report.totalAffectedRows).toBe(3);
+            const dormant = await db.selectFrom('users_results').select('email').where('role', '=', 'dormant').orderBy('email').execute();
+            expect(dormant.map(user => user.email)).toEqual(['bob@example.com', 'charlie@example.com']);
+        });
+    });
+
+    describe('results table creation', () => {
+        it('should create the results table of a table without one', async () => {
+            const author = await db.selectFrom('users').select('id').where('email', '=', 'john@example.com').executeTakeFirstOrThrow();
+            await db.insertInto('posts').values([
+                { title: 'Hello', content: 'First post', author_id: author.id, published: true },
+                { title: 'Draft', content: 'Not yet', author_id: author.id, published: false }
+            ]).execute();
+
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'mark-published',
+                    match: { published: true },
+                    apply: { title: { template: '[published] {title}' } }
+                }
+            ]);
+
+            const report = await rulesService.processRules(rules, 'posts');
+
+            expect(report.totalAffectedRows).toBe(1);
+            const results = await sql<{ title: string, applied_rules: string[] }>`
+                SELECT title, applied_rules FROM posts_results ORDER BY title
+            `.execute(db);
+            expect(results.rows).toEqual([
+                { title: 'Draft', applied_rules: [] },
+                { title: '[published] Hello', applied_rules: ['mark-published'] }
+            ]);
+        });
+    });
+
+    describe('tracking options', () => {
+        it.each(['json', 'text[]'] as const)('should track and stop rules with %s storage', async (storage) => {
+            const service = new RulesService(db, undefined, {
+                appliedRulesStorage: storage,
+                resultsTableName: `{table}_${storage === 'json' ? 'json' : 'array'}_results`
+            });
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'admins-first',
+                    priority: 1,
+                    match: { role: 'admin' },
+                    apply: { status: 'admin' },
+                    stopProcessingOtherRules: true
+                },
+                {
+                    ruleName: 'everyone',
+                    priority: 2,
+                    match: { email: '@' },
+                    apply: { status: 'everyone' }
+                }
+            ]);
+
+            const report = await service.processRules(rules, 'users');
+
+            expect(report.rules.map(rule => rule.affectedRows)).toEqual([1, 4]);
+            const tableName = storage === 'json' ? 'users_json_results' : 'users_array_results';
+            const jane = await sql<{ status: string, applied_rules: string[] }>`
+                SELECT status, applied_rules FROM ${sql.table(tableName)} WHERE email = 'jane@example.com'
+            `.execute(db);
+            expect(jane.rows[0]).toEqual({ status: 'admin', applied_rules: ['admins-first'] });
+
+            const coverage = await service.getCoverageReport(rules, 'users');
+            expect(coverage.rules.map(rule => [rule.ruleName, rule.matchedRows])).toEqual([['admins-first', 1], ['everyone', 4]]);
+            expect(coverage.rulesPerRow).toEqual({ 1: 5 });
+        });
+    });
+
+    describe('processStoredRules', () => {
+        it('should load and process the rules of the target table from storage', async () => {
+            const storage = new DatabaseRuleStorage(db);
+            await storage.createSchemaIfNotExists();
+            await storage.createRule('users', MatchRuleFactory.create({
+                ruleName: 'stored-promote-verified-users',
+                match: { isVerified: true },
+                apply: { role: 'premium' }
+            }));
+            await storage.createRule('posts', MatchRuleFactory.create({
+                ruleName: 'stored-posts-rule',
+                match: { published: true },
+                apply: { title: 'Published' }
+            }));
+
+            const report = await new RulesService(db, storage).processStoredRules('users');
+
+            expect(report.totalAffectedRows).toBe(3);
+        });
+
+        it('should throw if rule storage is not configured', async () => {
+            await expect(rulesService.processStoredRules('users'))
+                .rejects
+                .toThrow('Rule storage is not configured');
+        });
+    });
+
     describe('Error handling', () => {
         xit('should handle database connection errors gracefully', async () => {
             // Create a service with invalid database connection
@@ -390,5 +581,50 @@ describeIfPg('RulesService - Real Database Integration Tests', () => {
                 .rejects
                 .toThrow();
         });
+
+        it('should reject writes to identity columns before processing', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'renumber',
+                    match: { email: 'john@example.com' },
+                    apply: { id: 100, age: 'thirty' }
+                }
+            ]);
+
+            const error = await rulesService.processRules(rules, 'users').catch(e => e);
+
+            expect(error).toBeInstanceOf(RuleValidationError);
+            expect(error.problems.map((p: RuleSchemaProblem) => p.code)).toEqual(['identity-write', 'type-mismatch']);
+            expect(error.message).toContain('Rule "renumber" writes identity column "id" in apply.id');
+        });
+
+        it('should reject writes to identity columns of the target table in a created results table', async () => {
+            await db.schema.dropTable('users_results').execute();
+            const rules = MatchRuleFactory.createRules([
+                { ruleName: 'renumber', match: { email: 'john@example.com' }, apply: { id: 100 } }
+            ]);
+
+            const error = await rulesService.processRules(rules, 'users').catch(e => e);
+
+            expect(error).toBeInstanceOf(RuleValidationError);
+            expect(error.problems.map((p: RuleSchemaProblem) => p.code)).toEqual(['identity-write']);
+            expect(await db.selectFrom('users_results').select('id').execute()).toEqual([]);
+        });
+
+        it('should validate the rules once per run', async () => {
+            const validateRules = jest.spyOn(RulesExecutionService.prototype, 'validateRules');
+            const rules = MatchRuleFactory.createRules([
+                { ruleName: 'mark', match: { email: '@example\\.com$' }, apply: { status: 'marked' } }
+            ]);
+
+            try {
+                await rulesService.processRules(rules, 'users');
+                await rulesService.processRules(new RulePipeline([{ name: 'marking', rules }]), 'users');
+
+                expect(validateRules).toHaveBeenCalledTimes(2);
+            } finally {
+                validateRules.mockRestore();
+            }
+        });
     });
 });
@@ -1,25 +1,140 @@
 import {RulesExecutionService} from "./engine/RulesExecutionService";
 import {Kysely} from "kysely";
 import {MatchRule} from "./entities/MatchRule";
+import {DatabaseRuleStorage} from "./rulestore/DatabaseRuleStorage";
+import {PipelineExecutionReport, RulesExecutionReport} from "./engine/RulesExecutionReport";
+import {IncrementalOptions, RowScope} from "./engine/IncrementalSync";
+import {RulesExecutionOptions} from "./engine/RulesExecutionOptions";
+import {CoverageOptions, CoverageReport} from "./engine/CoverageReport";
+import {ApplyRulesOptions, FixpointOptions} from "./engine/ApplyRulesOptions";
+import {RulePipeline} from "./entities/RulePipeline";
+
+/**
+ * Options of RulesService.processRules
+ */
+export interface ProcessRulesOptions {
+
+    /**
+     * Copy only new and changed rows into the results table and apply rules to these rows,
+     * instead of recopying the whole target table
+     */
+    readonly incremental?: IncrementalOptions;
+
+    /**
+     * Re-run the rules until the results are stable, see ApplyRulesOptions.fixpoint
+     */
+    readonly fixpoint?: FixpointOptions;
+
+    /**
+     * Date the activation windows of the rules are checked against, defaults to now
+     */
+    readonly asOf?: Date;
+}
 
 export class RulesService {
 
     private db: Kysely<any>;
 
-    public constructor(db: Kysely<any>) {
+    private readonly ruleStorage?: DatabaseRuleStorage;
+
+    private readonly options: RulesExecutionOptions;
+
+    /**
+     * @param db Kysely database instance
+     * @param ruleStorage Optional rule storage used by processStoredRules
+     * @param options Tracking column, results table naming and schema passed to RulesExecutionService
+     */
+    public constructor(db: Kysely<any>, ruleStorage?: DatabaseRuleStorage, options: RulesExecutionOptions = {}) {
         this.db = db;
+        this.ruleStorage = ruleStorage;
+        this.options = options;
     }
 
-    public async processRules(rules: MatchRule[], targetTableName: string): Promise<number> {
-        const execution = new RulesExecutionService(this.db);
-        const resultsTableName = await execution.resetResultsTableIfExists(targetTableName);
-        await this.doPreProcessRules(resultsTableName);
-        const executedRules = await execution.applyRules(rules, resultsTableName);
+    /**
+     * Copy the target table into its results table and apply the rules there.
+     * The rules are validated against the results table first, so invalid rules leave it untouched.
+     * Incremental runs sync the results table and apply the rules in one transaction, pipeline stages included.
+     * @param rules Rules to apply, or a pipeline to apply stage by stage
+     * @param targetTableName Name of the source table
+     * @param options Incremental processing, fixpoint and "as of" date options
+     * @returns Report with one entry per rule and run-level totals, pipelines report every stage as well
+     * @throws RuleValidationError if the rules do not fit the columns of the table
+     */
+    public async processRules(rules: MatchRule[],
+                              targetTableName: string,
+                              options?: ProcessRulesOptions): Promise<RulesExecutionReport>;
+    public async processRules(pipeline: RulePipeline,
+                              targetTableName: string,
+                              options?: ProcessRulesOptions): Promise<PipelineExecutionReport>;
+    public async processRules(rules: MatchRule[] | RulePipeline,
+                              targetTableName: string,
+                              options: ProcessRulesOptions = {}): Promise<RulesExecutionReport> {
+        const execution = new RulesExecutionService(this.db, this.options);
+
+        const {resultsTableName} = await execution.ensureResultsTable(targetTableName, options.incremental);
+        await execution.assertValidRules(rules instanceof RulePipeline ? rules.rules : rules, resultsTableName, targetTableName);
+
+        const applyOptions: ApplyRulesOptions = {fixpoint: options.fixpoint, asOf: options.asOf, validated: true};
+        const apply = (service: RulesExecutionService, scope?: RowScope) => rules instanceof RulePipeline
+            ? service.applyPipeline(rules, resultsTableName, {...applyOptions, scope})
+            : service.applyRules(rules, resultsTableName, {...applyOptions, scope});
+
+        const incremental = options.incremental;
+        if (!incremental) {
+            await execution.resetResultsTableIfExists(targetTableName);
+            await this.doPreProcessRules(resultsTableName, this.db);
+            return apply(execution);
+        }
+
+        // Synced copies are only committed with the results of the rules, so a failed run leaves no rows behind
+        // that the next run would consider processed. The keys table of the run is a temporary table of the connection.
+        return this.db.connection().execute(async (connection) => {
+            let scope: RowScope | undefined;
+            try {
+                return await connection.transaction().execute(async (trx) => {
+                    const transaction = new RulesExecutionService(trx, this.options);
+                    scope = (await transaction.syncResultsTable(targetTableName, incremental)).scope;
+                    await this.doPreProcessRules(resultsTableName, trx);
+                    return apply(transaction, scope);
+                });
+            } finally {
+                if (scope) {
+                    await execution.releaseScope(scope, connection);
+                }
+            }
+        });
+    }
+
+    /**
+     * Load all rules of the target table from the rule storage and process them
+     */
+    public async processStoredRules(targetTableName: string,
+                                    options: ProcessRulesOptions = {}): Promise<RulesExecutionReport> {
+        if (!this.ruleStorage) {
+            throw new Error('Rule storage is not configured. Pass DatabaseRuleStorage to the RulesService constructor.');
+        }
+        const rules = await this.ruleStorage.listRules(targetTableName);
+        return this.processRules(rules, targetTableName, options);
+    }
 
-        return executedRules;
+    /**
+     * Aggregate the applied rules of the last run on the results table of the target table
+     * @param rules Rules of the run, executed rules that matched no row are reported as dead rules
+     * @param targetTableName Name of the source table
+     * @param options Sample size, sample order, "as of" date of the run and thresholds
+     */
+    public async getCoverageReport(rules: MatchRule[],
+                                   targetTableName: string,
+                                   options: CoverageOptions = {}): Promise<CoverageReport> {
+        const execution = new RulesExecutionService(this.db, this.options);
+        return execution.getCoverageReport(rules, execution.getResultsTableName(targetTableName), options);
     }
 
-    public async doPreProcessRules(resultsTableName: string): Promise<void> {
+    /**
+     * @param db Database of the run, the transaction of incremental runs, which sync and apply in one transaction
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async doPreProcessRules(resultsTableName: string, db: Kysely<any>): Promise<void> {
         // extension point to perform actions on results table
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,43 @@
+import {RowScope} from "@/engine/IncrementalSync";
+
+/**
+ * Fixpoint mode: the rules are applied again and again until a pass changes no row,
+ * e.g. if a rule matches a column that a rule with a higher priority number sets
+ */
+export interface FixpointOptions {
+
+    /**
+     * Maximum number of passes including the last pass that confirms that nothing changes, defaults to 10.
+     * Rules that still change rows in the last pass are reported as unstable.
+     */
+    readonly maxIterations?: number;
+}
+
+/**
+ * Options of RulesExecutionService.applyRules
+ */
+export interface ApplyRulesOptions {
+
+    /**
+     * Apply rules only to the rows in scope, e.g. rows copied by an incremental sync
+     */
+    readonly scope?: RowScope;
+
+    /**
+     * Date the activation windows of the rules are checked against, defaults to the start of the run.
+     * Pass a past date to replay a historic run.
+     */
+    readonly asOf?: Date;
+
+    /**
+     * Re-run the rules until the results are stable. In this mode a rule only updates rows it changes,
+     * and rule names are appended to the tracking column once per row.
+     */
+    readonly fixpoint?: FixpointOptions;
+
+    /**
+     * The rules were already checked against the table with RulesExecutionService.assertValidRules,
+     * so they are not checked again
+     */
+    readonly validated?: boolean;
+}
@@ -0,0 +1,127 @@
+import {Expression, sql} from 'kysely';
+import {
+    ARITHMETIC_OPERATORS,
+    ArithmeticExpression,
+    ArithmeticOperand,
+    CoalesceOperand,
+    isApplyExpression,
+    isColumnReference,
+    orderForSequentialAssignment
+} from "@/entities/ApplyValue";
+import {RulesDialect} from "@/engine/dialect/RulesDialect";
+
+const ARITHMETIC_SQL: Record<typeof ARITHMETIC_OPERATORS[number], string> = {
+    add: '+',
+    subtract: '-',
+    multiply: '*',
+    divide: '/',
+};
+
+/**
+ * Compiles MatchRule apply objects into SET clause values.
+ * Literal values are bound as parameters, expressions reference columns of the updated row.
+ */
+export class ApplyValueBuilder {
+
+    private readonly dialect: RulesDialect;
+
+    constructor(dialect: RulesDialect) {
+        this.dialect = dialect;
+    }
+
+    /**
+     * Build the values of the SET clause by column name. If the assignments of the dialect are sequential,
+     * columns are ordered so every value is computed from the row as it was before the update.
+     */
+    build(apply: Record<string, unknown>): Record<string, unknown> {
+        const columns = this.dialect.sequentialAssignments
+            ? orderForSequentialAssignment(apply) ?? Object.keys(apply)
+            : Object.keys(apply);
+        const values: Record<string, unknown> = {};
+        for (const column of columns) {
+            values[column] = this.buildValue(column, apply[column]);
+        }
+        return values;
+    }
+
+    private buildValue(column: string, value: unknown): unknown {
+        if (!isApplyExpression(value)) {
+            return this.dialect.toSqlValue(value);
+        }
+        if (isColumnReference(value)) {
+            return sql.ref(value.ref);
+        }
+        if ('template' in value) {
+            return this.buildTemplate(value.template);
+        }
+        if ('coalesce' in value) {
+            return sql`COALESCE(${sql.join(value.coalesce.map(operand => this.buildOperand(operand)))})`;
+        }
+        if ('extract' in value) {
+            return this.buildExtract(column, value.extract.from, value.extract.pattern);
+        }
+        return this.buildArithmetic(column, value);
+    }
+
+    /**
+     * Concatenate literal text and columns cast to text. NULL columns become empty text,
+     * otherwise a single NULL column would turn the whole text into NULL.
+     */
+    private buildTemplate(template: string): Expression<string> {
+        const parts: Expression<unknown>[] = [];
+        let text = '';
+        let position = 0;
+
+        for (const match of template.matchAll(/\{\{|\}\}|\{([^{}]+)\}/g)) {
+            text += template.slice(position, match.index);
+            position = match.index! + match[0].length;
+
+            if (match[1] === undefined) {
+                text += match[0][0];
+                continue;
+            }
+            if (text) {
+                parts.push(this.buildText(text));
+                text = '';
+            }
+            parts.push(sql`COALESCE(${this.dialect.castToText(sql.ref(match[1].trim()))}, '')`);
+        }
+        text += template.slice(position);
+        if (text || parts.length === 0) {
+            parts.push(this.buildText(text));
+        }
+
+        return this.dialect.concat(parts);
+    }
+
+    /**
+     * Literal text must be typed, PostgreSQL can not concatenate untyped parameters
+     */
+    private buildText(text: string): Expression<string> {
+        return this.dialect.castToText(sql.val(text));
+    }
+
+    /**
+     * Text of the first capture group, the same regex dialect as string match conditions.
+     * Rows where the pattern does not match keep the current value of the target column.
+     */
+    private buildExtract(column: string, from: string, pattern: string): Expression<string> {
+        const source = this.dialect.castToText(sql.ref(from));
+        const captured = this.dialect.regexExtract(source, pattern);
+        return sql<string>`COALESCE(${captured}, ${sql.ref(column)})`;
+    }
+
+    private buildArithmetic(column: string, expression: ArithmeticExpression): Expression<number> {
+        const base = sql.ref(expression.ref ?? column);
+        const operator = ARITHMETIC_OPERATORS.find(name => expression[name] !== undefined)!;
+        const operand = this.buildOperand(expression[operator] as ArithmeticOperand);
+        return sql<number>`(${base} ${sql.raw(ARITHMETIC_SQL[operator])} ${operand})`;
+    }
+
+    private buildOperand(operand: CoalesceOperand | ArithmeticOperand): unknown {
+        if (isColumnReference(operand)) {
+            return sql.ref(operand.ref);
+        }
+        return this.dialect.toSqlValue(operand);
+    }
+}
@@ -0,0 +1,109 @@
+/**
+ * Limits checked by RulesExecutionService.getCoverageReport, e.g. to fail a CI run
+ */
+export interface CoverageThresholds {
+
+    /**
+     * Minimum share of rows matched by at least one rule, between 0 and 1
+     */
+    readonly minRowCoverage?: number;
+
+    /**
+     * Maximum number of rows not matched by any rule
+     */
+    readonly maxUnmatchedRows?: number;
+
+    /**
+     * Maximum number of rules that matched no row
+     */
+    readonly maxDeadRules?: number;
+}
+
+/**
+ * Options of RulesExecutionService.getCoverageReport
+ */
+export interface CoverageOptions {
+
+    /**
+     * Maximum number of unmatched rows reported, default 5
+     */
+    readonly sampleSize?: number;
+
+    /**
+     * Column used to order the unmatched samples, default "id"
+     */
+    readonly keyColumn?: string;
+
+    /**
+     * Date the activation windows of the rules are checked against, defaults to now.
+     * Pass the "as of" date of the run, so the rules it skipped are not reported as dead rules.
+     */
+    readonly asOf?: Date;
+
+    readonly thresholds?: CoverageThresholds;
+}
+
+/**
+ * Rows matched by a single rule
+ */
+export interface RuleCoverage {
+    readonly ruleName: string;
+
+    readonly matchedRows: number;
+
+    /**
+     * Share of all rows matched by the rule, between 0 and 1
+     */
+    readonly rowShare: number;
+}
+
+/**
+ * Coverage of the rows of a results table by the rules of the last run, read from the applied rules tracking column
+ */
+export interface CoverageReport<T = unknown> {
+    readonly totalRows: number;
+
+    /**
+     * Rows matched by at least one rule
+     */
+    readonly matchedRows: number;
+
+    readonly unmatchedRows: number;
+
+    /**
+     * Share of rows matched by at least one rule between 0 and 1, 1 for an empty table
+     */
+    readonly rowCoverage: number;
+
+    /**
+     * Capped sample of unmatched rows, see CoverageOptions.sampleSize
+     */
+    readonly unmatchedSamples: T[];
+
+    /**
+     * One entry per rule in execution order
+     */
+    readonly rules: RuleCoverage[];
+
+    /**
+     * Names of executed rules that matched no row
+     */
+    readonly deadRules: string[];
+
+    /**
+     * Names of rules that are not executed as of CoverageOptions.asOf, e.g. disabled rules, they are no dead rules
+     */
+    readonly skippedRules: string[];
+
+    /**
+     * Number of rows by the number of rules applied to them, e.g. {0: 3, 1: 40, 2: 7}
+     */
+    readonly rulesPerRow: Record<number, number>;
+
+    /**
+     * Descriptions of exceeded thresholds, empty if all thresholds are met
+     */
+    readonly thresholdViolations: string[];
+
+    readonly passed: boolean;
+}
@@ -0,0 +1,50 @@
+/**
+ * Options of incremental processing, see RulesExecutionService.syncResultsTable
+ */
+export interface IncrementalOptions {
+
+    /**
+     * Column that identifies a row in the source and results table, e.g. "id"
+     */
+    readonly keyColumn: string;
+
+    /**
+     * Column that changes whenever the row changes, e.g. "updated_at" or a row hash.
+     * If not given, all columns are compared.
+     */
+    readonly changeColumn?: string;
+}
+
+/**
+ * Restricts rule execution to rows whose key is listed in a keys table
+ */
+export interface RowScope {
+    readonly keyColumn: string;
+
+    /**
+     * Temporary table of the run, referenced without schema
+     */
+    readonly keysTable: string;
+}
+
+/**
+ * Outcome of synchronising the results table with its source table
+ */
+export interface IncrementalSyncResult {
+    readonly resultsTableName: string;
+
+    /**
+     * New and changed rows that were copied from the source table
+     */
+    readonly changedRows: number;
+
+    /**
+     * Rows that were removed from the results table because they no longer exist in the source table
+     */
+    readonly deletedRows: number;
+
+    /**
+     * Scope of the copied rows, pass it to applyRules to apply rules to these rows only
+     */
+    readonly scope: RowScope;
+}
@@ -0,0 +1,159 @@
+import {Expression, ExpressionBuilder, sql, SqlBool} from 'kysely';
+import {
+    escapeRegex,
+    isMatchConditionGroup,
+    isMatchOperators,
+    MatchCondition,
+    MatchConditionGroup,
+    MatchOperators,
+    RegexOptions
+} from "@/entities/MatchCondition";
+import {RulesDialect} from "@/engine/dialect/RulesDialect";
+
+/**
+ * Compiles MatchRule match conditions into WHERE expressions using Kysely's expression builder.
+ * Regex, LIKE and value binding are delegated to the SQL dialect of the database.
+ */
+export class MatchConditionBuilder {
+
+    private readonly dialect: RulesDialect;
+
+    constructor(dialect: RulesDialect) {
+        this.dialect = dialect;
+    }
+
+    /**
+     * Build a single expression for the match condition tree.
+     * Flat column conditions are combined with AND, groups become parenthesised AND / OR / NOT expressions.
+     */
+    build<DB, TB extends keyof DB>(eb: ExpressionBuilder<DB, TB>, match: MatchCondition<unknown>): Expression<SqlBool> {
+        if (isMatchConditionGroup(match)) {
+            return this.buildGroup(eb, match);
+        }
+        const conditions = Object.entries(match)
+            .map(([column, value]) => this.buildColumnCondition(eb, column, value));
+        return eb.and(conditions);
+    }
+
+    /**
+     * Build a NULL-safe condition that is true when every column already holds the given value.
+     * Used to find rows that an apply object would not change.
+     */
+    buildValuesEqual<DB, TB extends keyof DB>(eb: ExpressionBuilder<DB, TB>, values: Record<string, unknown>): Expression<SqlBool> {
+        return eb.and(Object.entries(values).map(([column, value]) =>
+            this.dialect.isNotDistinctFrom(sql.ref(column), this.toSqlValue(value))
+        ));
+    }
+
+    private buildGroup<DB, TB extends keyof DB>(eb: ExpressionBuilder<DB, TB>, group: MatchConditionGroup<unknown>): Expression<SqlBool> {
+        if ('all' in group) {
+            return eb.and(group.all.map(condition => this.build(eb, condition)));
+        }
+        if ('any' in group) {
+            return eb.or(group.any.map(condition => this.build(eb, condition)));
+        }
+        // NULL (unknown) results of the nested condition count as "not matched", so NOT includes them
+        return eb.not(eb.fn.coalesce(this.build(eb, group.not), eb.lit(false)));
+    }
+
+    private buildColumnCondition<DB, TB extends keyof DB>(eb: ExpressionBuilder<DB, TB>, column: string, value: unknown): Expression<SqlBool> {
+        if (typeof value === 'string') {
+            return this.buildRegex(column, value);
+        }
+        if (value === null) {
+            return eb(sql.ref(column), 'is', null);
+        }
+        if (isMatchOperators(value)) {
+            return this.buildOperators(eb, column, value);
+        }
+        return eb(sql.ref(column), '=', this.toSqlValue(value));
+    }
+
+    private buildRegex(column: string, pattern: string, options: RegexOptions = {}): Expression<SqlBool> {
+        return this.dialect.regexMatch(sql.ref(column), this.toRegex(pattern, options), !!options.caseInsensitive);
+    }
+
+    /**
+     * Apply the literal and whole word options to the pattern
+     */
+    private toRegex(pattern: string, options: RegexOptions): string {
+        const regex = options.literal ? escapeRegex(pattern) : pattern;
+        if (!options.wholeWord) {
+            return regex;
+        }
+        const boundary = this.dialect.wordBoundary;
+        return `${boundary}(?:${regex})${boundary}`;
+    }
+
+    private buildOperators<DB, TB extends keyof DB>(eb: ExpressionBuilder<DB, TB>, column: string, operators: MatchOperators): Expression<SqlBool> {
+        const conditions: Expression<SqlBool>[] = [];
+        const ref = sql.ref(column);
+
+        if (operators.gt !== undefined) {
+            conditions.push(eb(ref, '>', this.toSqlValue(operators.gt)));
+        }
+        if (operators.gte !== undefined) {
+            conditions.push(eb(ref, '>=', this.toSqlValue(operators.gte)));
+        }
+        if (operators.lt !== undefined) {
+            conditions.push(eb(ref, '<', this.toSqlValue(operators.lt)));
+        }
+        if (operators.lte !== undefined) {
+            conditions.push(eb(ref, '<=', this.toSqlValue(operators.lte)));
+        }
+        if (operators.between !== undefined) {
+            const [from, to] = operators.between;
+            conditions.push(eb.between(ref, this.toSqlValue(from), this.toSqlValue(to)));
+        }
+        if (operators.in !== undefined) {
+            conditions.push(eb(ref, 'in', operators.in.map(v => this.toSqlValue(v))));
+        }
+        if (operators.notIn !== undefined) {
+            conditions.push(eb.or([
+                eb(ref, 'is', null),
+                eb(ref, 'not in', operators.notIn.map(v => this.toSqlValue(v))),
+            ]));
+        }
+        if (operators.isNull !== undefined) {
+            conditions.push(eb(ref, operators.isNull ? 'is' : 'is not', null));
+        }
+        if (operators.isNotNull !== undefined) {
+            conditions.push(eb(ref, operators.isNotNull ? 'is not' : 'is', null));
+        }
+        if (operators.not !== undefined) {
+            conditions.push(this.buildNot(eb, column, operators.not, operators));
+        }
+        if (operators.pattern !== undefined) {
+            conditions.push(this.buildRegex(column, operators.pattern, operators));
+        }
+        if (operators.like !== undefined) {
+            conditions.push(this.dialect.like(ref, operators.like));
+        }
+        if (operators.ilike !== undefined) {
+            conditions.push(this.dialect.ilike(ref, operators.ilike));
+        }
+
+        return eb.and(conditions);
+    }
+
+    /**
+     * Negated regex or equality. NULL values are included, because they match neither.
+     */
+    private buildNot<DB, TB extends keyof DB>(eb: ExpressionBuilder<DB, TB>,
+                     column: string,
+                     value: unknown,
+                     options: RegexOptions): Expression<SqlBool> {
+        const ref = sql.ref(column);
+        if (value === null) {
+            return eb(ref, 'is not', null);
+        }
+        const negated = typeof value === 'string'
+            ? eb.not(this.buildRegex(column, value, options))
+            : eb(ref, '<>', this.toSqlValue(value));
+        return eb.or([eb(ref, 'is', null), negated]);
+    }
+
+    private toSqlValue(value: unknown): unknown {
+        return this.dialect.toSqlValue(value);
+    }
+}
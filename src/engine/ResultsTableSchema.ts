@@ -0,0 +1,45 @@
+/**
+ * Outcome of RulesExecutionService.ensureResultsTable
+ */
+export interface ResultsTableSchemaSync {
+    readonly resultsTableName: string;
+
+    /**
+     * True if the results table did not exist and was created from the target table
+     */
+    readonly created: boolean;
+
+    /**
+     * Columns of the target table that were added to an existing results table
+     */
+    readonly addedColumns: string[];
+}
+
+/**
+ * A column that exists in both tables with different types
+ */
+export interface ColumnTypeMismatch {
+    readonly column: string;
+
+    readonly targetType: string;
+
+    readonly resultsType: string;
+}
+
+/**
+ * Thrown if the results table can not hold the rows of the target table.
+ * All mismatching columns are listed, so the results table can be fixed in one step.
+ */
+export class ResultsTableSchemaError extends Error {
+
+    readonly mismatches: ColumnTypeMismatch[];
+
+    constructor(targetTableName: string, resultsTableName: string, mismatches: ColumnTypeMismatch[]) {
+        const details = mismatches
+            .map(m => `column "${m.column}" is ${m.resultsType} in "${resultsTableName}" but ${m.targetType} in "${targetTableName}"`)
+            .join('; ');
+        super(`Results table "${resultsTableName}" is incompatible with "${targetTableName}": ${details}`);
+        this.name = 'ResultsTableSchemaError';
+        this.mismatches = mismatches;
+    }
+}
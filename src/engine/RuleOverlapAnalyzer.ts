@@ -0,0 +1,129 @@
+import {Kysely, sql} from 'kysely';
+import {MatchRule} from "@/entities/MatchRule";
+import {MatchCondition} from "@/entities/MatchCondition";
+import {MatchConditionBuilder} from "@/engine/MatchConditionBuilder";
+import {readsTargetColumn} from "@/entities/ApplyValue";
+import {RuleOverlap, RuleOverlapReport, ShadowedRule} from "@/engine/RuleOverlapReport";
+
+/**
+ * Counts per query, each count is a column of the query, which databases limit, e.g. PostgreSQL to 1664
+ */
+const MAX_COUNTS_PER_QUERY = 500;
+
+/**
+ * Finds rules that write the same columns of the same rows by counting rows that match combined conditions.
+ * All rule pairs are counted in one scan of the table and the shadowing of rules in a second one,
+ * up to MAX_COUNTS_PER_QUERY counts per scan.
+ * A later rule whose value reads the column, e.g. { "priority": { "add": 5 } }, does not overwrite the earlier value.
+ * Rows are matched as they are in the table, changes made by earlier rules are not taken into account.
+ * Rows matched by an earlier rule with stopProcessingOtherRules are excluded from later rules, like in applyRules.
+ */
+export class RuleOverlapAnalyzer {
+
+    private readonly db: Kysely<any>;
+
+    private readonly matchConditionBuilder: MatchConditionBuilder;
+
+    constructor(db: Kysely<any>, matchConditionBuilder: MatchConditionBuilder) {
+        this.db = db;
+        this.matchConditionBuilder = matchConditionBuilder;
+    }
+
+    /**
+     * @param rules Executable rules in execution order
+     * @param tableName Table the rules are matched against
+     */
+    async analyze(rules: MatchRule[], tableName: string): Promise<RuleOverlapReport> {
+        const conditions = this.effectiveConditions(rules);
+
+        // Later rules writing a column of an earlier rule, they overwrite it in the rows both rules match
+        const pairs: { earlier: number, later: number, columns: string[] }[] = [];
+        for (let i = 0; i < rules.length; i++) {
+            const columns = Object.keys(rules[i].apply);
+            for (let j = i + 1; j < rules.length; j++) {
+                // A later value computed from the column itself builds on the earlier value instead of replacing it
+                const laterApply: Record<string, unknown> = rules[j].apply;
+                const sharedColumns = Object.keys(laterApply)
+                    .filter(column => columns.includes(column) && !readsTargetColumn(column, laterApply[column]));
+                if (sharedColumns.length > 0) {
+                    pairs.push({earlier: i, later: j, columns: sharedColumns});
+                }
+            }
+        }
+        const overlapCounts = await this.countRows(tableName, pairs.map(pair => ({all: [conditions[pair.earlier], conditions[pair.later]]})));
+
+        const overlaps: RuleOverlap[] = [];
+        // Per rule and apply column, the later rules writing the column in at least one row the rule matches
+        const overwrittenBy = rules.map(rule => new Map<string, number[]>(Object.keys(rule.apply).map(column => [column, []])));
+        pairs.forEach((pair, index) => {
+            if (overlapCounts[index] > 0) {
+                overlaps.push({
+                    earlierRule: rules[pair.earlier].ruleName,
+                    laterRule: rules[pair.later].ruleName,
+                    columns: pair.columns,
+                    overlapRows: overlapCounts[index],
+                });
+                pair.columns.forEach(column => overwrittenBy[pair.earlier].get(column)!.push(pair.later));
+            }
+        });
+
+        // Rules with every column overwritten somewhere, shadowed if no matched row keeps one of their values
+        const candidates = rules.map((_, i) => i)
+            .filter(i => [...overwrittenBy[i].values()].every(later => later.length > 0));
+        const candidateCounts = await this.countRows(tableName, candidates.flatMap(i => [
+            conditions[i],
+            {
+                all: [
+                    conditions[i],
+                    {any: [...overwrittenBy[i].values()].map(later => ({not: {any: later.map(j => conditions[j])}}))}
+                ]
+            },
+        ]));
+
+        const shadowedRules: ShadowedRule[] = [];
+        candidates.forEach((i, index) => {
+            const [matchedRows, effectiveRows] = candidateCounts.slice(index * 2, index * 2 + 2);
+            if (effectiveRows === 0) {
+                const shadowedBy = [...new Set([...overwrittenBy[i].values()].flat())].sort((a, b) => a - b).map(j => rules[j].ruleName);
+                shadowedRules.push({ruleName: rules[i].ruleName, matchedRows, shadowedBy});
+            }
+        });
+
+        return {overlaps, shadowedRules};
+    }
+
+    /**
+     * Match condition of every rule, excluding rows matched by earlier stopping rules
+     */
+    private effectiveConditions(rules: MatchRule[]): MatchCondition<unknown>[] {
+        const stoppingConditions: MatchCondition<unknown>[] = [];
+        return rules.map(rule => {
+            const condition: MatchCondition<unknown> = stoppingConditions.length > 0
+                ? {all: [rule.match, {not: {any: [...stoppingConditions]}}]}
+                : rule.match;
+            if (rule.stopProcessingOtherRules) {
+                stoppingConditions.push(rule.match);
+            }
+            return condition;
+        });
+    }
+
+    /**
+     * Rows matching each condition, counted with one SUM(CASE ...) per condition and
+     * MAX_COUNTS_PER_QUERY conditions per scan of the table
+     */
+    private async countRows(tableName: string, conditions: MatchCondition<unknown>[]): Promise<number[]> {
+        const counts: number[] = [];
+        for (let start = 0; start < conditions.length; start += MAX_COUNTS_PER_QUERY) {
+            const batch = conditions.slice(start, start + MAX_COUNTS_PER_QUERY);
+            const result = await this.db.selectFrom(tableName)
+                .select(eb => batch.map((condition, index) =>
+                    sql<number | string | null>`SUM(CASE WHEN ${this.matchConditionBuilder.build(eb, condition)} THEN 1 ELSE 0 END)`
+                        .as(`count_${index}`)))
+                .executeTakeFirstOrThrow();
+            // SUM is NULL for an empty table, PostgreSQL and MySQL return the sums as strings
+            counts.push(...batch.map((_, index) => Number(result[`count_${index}`] ?? 0)));
+        }
+        return counts;
+    }
+}
@@ -0,0 +1,64 @@
+/**
+ * Two rules that write the same columns of the same rows, the later rule overwrites the earlier one
+ */
+export interface RuleOverlap {
+
+    /**
+     * Rule that is executed first
+     */
+    readonly earlierRule: string;
+
+    /**
+     * Rule that is executed later and overwrites the values of earlierRule
+     */
+    readonly laterRule: string;
+
+    /**
+     * Apply columns written by both rules
+     */
+    readonly columns: string[];
+
+    /**
+     * Rows matched by both rules
+     */
+    readonly overlapRows: number;
+}
+
+/**
+ * A rule whose values are overwritten by later rules in every row it matches,
+ * so it never affects the final result
+ */
+export interface ShadowedRule {
+    readonly ruleName: string;
+
+    readonly matchedRows: number;
+
+    /**
+     * Later rules that overwrite the rule in at least one row
+     */
+    readonly shadowedBy: string[];
+}
+
+/**
+ * Options of RulesExecutionService.analyzeOverlaps
+ */
+export interface OverlapOptions {
+
+    /**
+     * Date the activation windows of the rules are checked against, defaults to now
+     */
+    readonly asOf?: Date;
+}
+
+/**
+ * Result of RulesExecutionService.analyzeOverlaps
+ */
+export interface RuleOverlapReport {
+
+    /**
+     * Overlapping rule pairs in execution order of the earlier rule
+     */
+    readonly overlaps: RuleOverlap[];
+
+    readonly shadowedRules: ShadowedRule[];
+}
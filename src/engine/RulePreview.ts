@@ -0,0 +1,57 @@
+/**
+ * Options of RulesExecutionService.previewRules
+ */
+export interface PreviewOptions {
+
+    /**
+     * Maximum number of before/after row pairs reported per rule, default 5
+     */
+    readonly sampleSize?: number;
+
+    /**
+     * Column that identifies a row, used to pair before and after samples, default "id"
+     */
+    readonly keyColumn?: string;
+
+    /**
+     * Date the activation windows of the rules are checked against, defaults to now
+     */
+    readonly asOf?: Date;
+}
+
+/**
+ * A matched row before and after the rule was applied
+ */
+export interface RowChangeSample<T = unknown> {
+    readonly before: T;
+    readonly after: T;
+}
+
+/**
+ * Effects a single rule would have, reported by RulesExecutionService.previewRules
+ */
+export interface RulePreview<T = unknown> {
+    readonly ruleName: string;
+
+    readonly priority: number;
+
+    /**
+     * Rows matching the rule conditions at the time the rule would be executed
+     */
+    matchedRows: number;
+
+    /**
+     * Matched rows where at least one applied value differs from the current value
+     */
+    changedRows: number;
+
+    /**
+     * Capped sample of matched rows, see PreviewOptions.sampleSize
+     */
+    samples: RowChangeSample<T>[];
+
+    /**
+     * Set if the rule would be skipped
+     */
+    skipReason?: string;
+}
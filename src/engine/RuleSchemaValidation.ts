@@ -0,0 +1,44 @@
+/**
+ * Kinds of problems found by RulesExecutionService.validateRules:
+ * - unknown-column: the column does not exist in the table
+ * - type-mismatch: the value or expression does not fit the column type
+ * - regex-on-non-text: a regex or LIKE pattern is used on a column that is not text
+ * - identity-write: the rule writes a column generated by the database
+ * - circular-assignment: apply values read each other's columns, which databases with sequential SET assignments,
+ *   e.g. MySQL, can not compute from the row as it was before the rule
+ */
+export type RuleSchemaProblemCode = 'unknown-column' | 'type-mismatch' | 'regex-on-non-text' | 'identity-write'
+    | 'circular-assignment';
+
+/**
+ * A rule that can not be executed against the table as it is
+ */
+export interface RuleSchemaProblem {
+    readonly ruleName: string;
+
+    readonly code: RuleSchemaProblemCode;
+
+    /**
+     * Path to the invalid node, e.g. "match.any[0].age.gt" or "apply.status"
+     */
+    readonly path: string;
+
+    readonly column: string;
+
+    readonly message: string;
+}
+
+/**
+ * Thrown before rules are executed if they do not fit the table.
+ * All problems of the whole rule set are listed.
+ */
+export class RuleValidationError extends Error {
+
+    readonly problems: RuleSchemaProblem[];
+
+    constructor(tableName: string, problems: RuleSchemaProblem[]) {
+        super(`Rules do not fit table "${tableName}":\n${problems.map(problem => `- ${problem.message}`).join('\n')}`);
+        this.name = 'RuleValidationError';
+        this.problems = problems;
+    }
+}
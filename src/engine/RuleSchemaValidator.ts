@@ -0,0 +1,235 @@
+import {MatchRule} from "@/entities/MatchRule";
+import {isMatchConditionGroup, isMatchOperators, MatchCondition, MatchOperators} from "@/entities/MatchCondition";
+import {
+    getReferencedColumns,
+    isApplyExpression,
+    isArithmeticExpression,
+    isColumnReference,
+    orderForSequentialAssignment
+} from "@/entities/ApplyValue";
+import {ColumnInfo} from "@/engine/TableInspector";
+import {RuleSchemaProblem, RuleSchemaProblemCode} from "@/engine/RuleSchemaValidation";
+
+type ColumnCategory = 'text' | 'number' | 'boolean' | 'temporal' | 'other';
+
+/**
+ * Checks rules against the columns of a live table, so problems are reported before any data is changed.
+ * Columns of types that are not recognised, e.g. json or uuid, accept any value.
+ */
+export class RuleSchemaValidator {
+
+    private readonly columns: Map<string, ColumnInfo>;
+
+    private readonly sequentialAssignments: boolean;
+
+    /**
+     * @param columns Columns of the table
+     * @param sequentialAssignments True if the database assigns SET values one after another, see RulesDialect
+     */
+    constructor(columns: ColumnInfo[], sequentialAssignments = false) {
+        this.columns = new Map(columns.map(column => [column.name, column]));
+        this.sequentialAssignments = sequentialAssignments;
+    }
+
+    /**
+     * @returns All problems of all rules, an empty array if the rules fit the table
+     */
+    validate(rules: MatchRule[]): RuleSchemaProblem[] {
+        const problems: RuleSchemaProblem[] = [];
+        for (const rule of rules) {
+            const report = (code: RuleSchemaProblemCode, path: string, column: string, message: string) =>
+                problems.push({ruleName: rule.ruleName, code, path, column, message: `Rule "${rule.ruleName}" ${message} in ${path}`});
+            this.validateMatch(rule.match, 'match', report);
+            this.validateApply(rule.apply, report);
+            if (this.sequentialAssignments) {
+                this.validateAssignmentOrder(rule.apply, report);
+            }
+        }
+        return problems;
+    }
+
+    private validateMatch(match: MatchCondition<unknown>, path: string, report: ProblemReporter): void {
+        if (isMatchConditionGroup(match)) {
+            const groupEntries: [string, MatchCondition<unknown> | MatchCondition<unknown>[]][] = Object.entries(match);
+            for (const [key, nested] of groupEntries) {
+                if (Array.isArray(nested)) {
+                    nested.forEach((condition, index) => this.validateMatch(condition, `${path}.${key}[${index}]`, report));
+                } else {
+                    this.validateMatch(nested, `${path}.${key}`, report);
+                }
+            }
+            return;
+        }
+
+        for (const [columnName, value] of Object.entries(match)) {
+            const columnPath = `${path}.${columnName}`;
+            const column = this.columns.get(columnName);
+            if (!column) {
+                report('unknown-column', columnPath, columnName, `uses unknown column "${columnName}"`);
+                continue;
+            }
+            if (typeof value === 'string') {
+                this.validateRegex(column, columnPath, report);
+            } else if (isMatchOperators(value)) {
+                this.validateOperators(column, columnPath, value, report);
+            } else if (value !== null) {
+                this.validateComparedValue(column, columnPath, value, report);
+            }
+        }
+    }
+
+    private validateOperators(column: ColumnInfo, path: string, operators: MatchOperators, report: ProblemReporter): void {
+        for (const [operator, operand] of Object.entries(operators)) {
+            const operatorPath = `${path}.${operator}`;
+            switch (operator) {
+                case 'gt':
+                case 'gte':
+                case 'lt':
+                case 'lte':
+                    this.validateComparedValue(column, operatorPath, operand, report);
+                    break;
+                case 'between':
+                case 'in':
+                case 'notIn':
+                    if (Array.isArray(operand)) {
+                        operand.forEach(value => this.validateComparedValue(column, operatorPath, value, report));
+                    }
+                    break;
+                case 'not':
+                    if (typeof operand === 'string') {
+                        this.validateRegex(column, operatorPath, report);
+                    } else if (operand !== null) {
+                        this.validateComparedValue(column, operatorPath, operand, report);
+                    }
+                    break;
+                case 'pattern':
+                case 'like':
+                case 'ilike':
+                    this.validateRegex(column, operatorPath, report);
+                    break;
+            }
+        }
+    }
+
+    private validateRegex(column: ColumnInfo, path: string, report: ProblemReporter): void {
+        const category = RuleSchemaValidator.categorize(column.dataType);
+        if (category !== 'text' && category !== 'other') {
+            report('regex-on-non-text', path, column.name, `uses a pattern on ${column.dataType} column "${column.name}"`);
+        }
+    }
+
+    private validateComparedValue(column: ColumnInfo, path: string, value: unknown, report: ProblemReporter): void {
+        if (!RuleSchemaValidator.fits(value, RuleSchemaValidator.categorize(column.dataType))) {
+            report('type-mismatch', path, column.name,
+                `compares ${column.dataType} column "${column.name}" with ${RuleSchemaValidator.describe(value)}`);
+        }
+    }
+
+    private validateApply(apply: Record<string, unknown>, report: ProblemReporter): void {
+        for (const [columnName, value] of Object.entries(apply)) {
+            const path = `apply.${columnName}`;
+            const column = this.columns.get(columnName);
+            if (!column) {
+                report('unknown-column', path, columnName, `writes unknown column "${columnName}"`);
+                continue;
+            }
+            if (column.isIdentity) {
+                report('identity-write', path, columnName, `writes identity column "${columnName}"`);
+            }
+
+            const category = RuleSchemaValidator.categorize(column.dataType);
+            const writes = (description: string) =>
+                report('type-mismatch', path, columnName, `writes ${description} to ${column.dataType} column "${columnName}"`);
+
+            if (!isApplyExpression(value)) {
+                if (value !== null && !RuleSchemaValidator.fits(value, category)) {
+                    writes(RuleSchemaValidator.describe(value));
+                }
+                continue;
+            }
+
+            for (const reference of getReferencedColumns(value)) {
+                if (!this.columns.has(reference)) {
+                    report('unknown-column', path, reference, `references unknown column "${reference}"`);
+                }
+            }
+
+            if (('template' in value || 'extract' in value) && category !== 'text' && category !== 'other') {
+                writes('text');
+            } else if ('coalesce' in value) {
+                value.coalesce
+                    .filter(operand => operand !== null && !isColumnReference(operand) && !RuleSchemaValidator.fits(operand, category))
+                    .forEach(operand => writes(RuleSchemaValidator.describe(operand)));
+            } else if (isArithmeticExpression(value)) {
+                const base = value.ref !== undefined ? this.columns.get(value.ref) : column;
+                if (category !== 'number' && category !== 'other') {
+                    writes('a calculated number');
+                } else if (base && RuleSchemaValidator.categorize(base.dataType) !== 'number'
+                    && RuleSchemaValidator.categorize(base.dataType) !== 'other') {
+                    report('type-mismatch', path, base.name, `calculates with ${base.dataType} column "${base.name}"`);
+                }
+            }
+        }
+    }
+
+    /**
+     * Values that read each other's columns in a cycle can not be computed from the row as it was before the rule
+     */
+    private validateAssignmentOrder(apply: Record<string, unknown>, report: ProblemReporter): void {
+        if (orderForSequentialAssignment(apply) !== undefined) {
+            return;
+        }
+        const columns = Object.keys(apply).filter(column =>
+            getReferencedColumns(apply[column]).some(reference => reference !== column && reference in apply));
+        report('circular-assignment', 'apply', columns[0],
+            `computes ${columns.map(column => `"${column}"`).join(', ')} from each other, which can not be assigned in one UPDATE of this database`);
+    }
+
+    /**
+     * Map database type names of PostgreSQL and MySQL (information_schema) and SQLite (declared types) to value categories
+     */
+    private static categorize(dataType: string): ColumnCategory {
+        const type = dataType.toLowerCase();
+        if (type.includes('bool')) {
+            return 'boolean';
+        }
+        if (/^(date|time|timestamp|datetime)\b/.test(type)) {
+            return 'temporal';
+        }
+        if (/char|text|clob|string/.test(type)) {
+            return 'text';
+        }
+        if (/^((tiny|small|medium|big)?int(eger)?\d*|numeric|decimal|real|double|float|money)\b/.test(type)) {
+            return 'number';
+        }
+        return 'other';
+    }
+
+    private static fits(value: unknown, category: ColumnCategory): boolean {
+        switch (category) {
+            case 'text':
+                return typeof value === 'string';
+            case 'number':
+                return typeof value === 'number'
+                    || typeof value === 'bigint'
+                    || (typeof value === 'string' && /^\s*[-+]?\d+(\.\d+)?\s*$/.test(value));
+            case 'boolean':
+                // SQLite stores booleans as 0 and 1
+                return typeof value === 'boolean' || value === 0 || value === 1;
+            case 'temporal':
+                return (value instanceof Date && !isNaN(value.getTime()))
+                    || (typeof value === 'string' && !isNaN(Date.parse(value)));
+            default:
+                return true;
+        }
+    }
+
+    private static describe(value: unknown): string {
+        if (value instanceof Date) {
+            return `date ${value.toISOString()}`;
+        }
+        return `${typeof value} ${typeof value === 'string' ? JSON.stringify(value) : String(value)}`;
+    }
+}
+
+type ProblemReporter = (code: RuleSchemaProblemCode, path: string, column: string, message: string) => void;
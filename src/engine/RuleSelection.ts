@@ -0,0 +1,34 @@
+import {MatchRule} from "@/entities/MatchRule";
+import {RuleExecutionStatus} from "@/engine/RulesExecutionReport";
+
+/**
+ * Sort rules by priority (ascending), rules with the same priority keep their order
+ */
+export function sortRules<T>(rules: MatchRule<T>[]): MatchRule<T>[] {
+    return [...rules].sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * @param rule Rule to check
+ * @param asOf Date the activation window is checked against, defaults to now
+ * @returns Skip status and reason if the rule can not be executed, undefined if it can be executed
+ */
+export function getSkipStatus<T>(rule: MatchRule<T>,
+                                 asOf: Date = new Date()): { status: RuleExecutionStatus, reason: string } | undefined {
+    if (rule.enabled === false) {
+        return {status: 'skipped-disabled', reason: 'Rule is disabled'};
+    }
+    if (rule.validFrom && asOf < rule.validFrom) {
+        return {status: 'skipped-inactive', reason: `Rule is valid from ${rule.validFrom.toISOString()}`};
+    }
+    if (rule.validTo && asOf >= rule.validTo) {
+        return {status: 'skipped-inactive', reason: `Rule was valid until ${rule.validTo.toISOString()}`};
+    }
+    if (Object.keys(rule.apply).length === 0) {
+        return {status: 'skipped-no-apply', reason: 'Rule has no apply changes'};
+    }
+    if (Object.keys(rule.match).length === 0) {
+        return {status: 'skipped-no-match', reason: 'Rule has no match conditions'};
+    }
+    return undefined;
+}
@@ -0,0 +1,40 @@
+import {RulesDialect} from "@/engine/dialect/RulesDialect";
+
+/**
+ * Column types that can store the names of applied rules.
+ * "text[]" is only available on PostgreSQL, SQLite always stores a JSON array as text.
+ */
+export type AppliedRulesStorage = 'jsonb' | 'json' | 'text[]';
+
+/**
+ * Options of RulesExecutionService and RulesService
+ */
+export interface RulesExecutionOptions {
+
+    /**
+     * Column of the results table that tracks the names of the rules applied to a row, default "applied_rules".
+     * false turns tracking off, which also rules out stopProcessingOtherRules.
+     */
+    readonly appliedRulesField?: string | false;
+
+    /**
+     * Column type of the tracking column, default "jsonb"
+     */
+    readonly appliedRulesStorage?: AppliedRulesStorage;
+
+    /**
+     * Name of the results table, "{table}" is replaced with the target table name, default "{table}_results"
+     */
+    readonly resultsTableName?: string;
+
+    /**
+     * Schema of the target and results tables, default is the current schema of the connection
+     */
+    readonly schema?: string;
+
+    /**
+     * SQL dialect of the database, default is the dialect registered for the adapter of the Kysely instance,
+     * see RulesDialects
+     */
+    readonly dialect?: RulesDialect;
+}
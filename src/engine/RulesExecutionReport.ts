@@ -0,0 +1,165 @@
+/**
+ * Outcome of a single rule:
+ * - applied: the rule was executed, affectedRows may be 0 if no row matched
+ * - skipped-disabled: the rule is disabled
+ * - skipped-inactive: the "as of" date of the run is outside the activation window of the rule
+ * - skipped-no-apply: the rule has no apply changes
+ * - skipped-no-match: the rule has no match conditions
+ * - failed: the rule raised an error, the whole transaction was rolled back
+ */
+export type RuleExecutionStatus =
+    'applied'
+    | 'skipped-disabled'
+    | 'skipped-inactive'
+    | 'skipped-no-apply'
+    | 'skipped-no-match'
+    | 'failed';
+
+/**
+ * Execution result of a single rule, reported in execution order
+ */
+export interface RuleExecutionResult {
+    readonly ruleName: string;
+
+    readonly priority: number;
+
+    readonly status: RuleExecutionStatus;
+
+    /**
+     * Rows updated by the rule
+     */
+    readonly affectedRows: number;
+
+    /**
+     * Time spent executing the rule in milliseconds
+     */
+    readonly durationMs: number;
+
+    /**
+     * Human readable reason, set for skipped rules
+     */
+    readonly skipReason?: string;
+
+    /**
+     * Error message, set for failed rules
+     */
+    readonly error?: string;
+}
+
+/**
+ * Passes of a fixpoint run, see ApplyRulesOptions.fixpoint
+ */
+export interface FixpointReport {
+
+    /**
+     * Number of executed passes
+     */
+    readonly iterations: number;
+
+    /**
+     * True if the last pass changed no row
+     */
+    readonly converged: boolean;
+
+    /**
+     * Rows updated in each pass
+     */
+    readonly iterationAffectedRows: number[];
+
+    /**
+     * Rules that still changed rows in the last pass if the run did not converge. These are rules that undo each
+     * other, but also rules of a chain that needs more passes than maxIterations.
+     */
+    readonly unstableRules: string[];
+}
+
+/**
+ * Result of RulesExecutionService.applyRules with one entry per rule and run-level totals.
+ * In fixpoint mode the entries of a rule add up all passes.
+ */
+export interface RulesExecutionReport {
+    readonly rules: RuleExecutionResult[];
+
+    readonly totalAffectedRows: number;
+
+    readonly appliedRules: number;
+
+    readonly skippedRules: number;
+
+    readonly failedRules: number;
+
+    readonly durationMs: number;
+
+    /**
+     * Set in fixpoint mode
+     */
+    readonly fixpoint?: FixpointReport;
+}
+
+/**
+ * Result of a stage of a RulePipeline
+ */
+export interface StageExecutionReport extends RulesExecutionReport {
+    readonly stageName: string;
+
+    /**
+     * True if the changes of the stage were committed, false if they were rolled back
+     */
+    readonly committed: boolean;
+}
+
+/**
+ * Result of RulesExecutionService.applyPipeline. The rules and totals cover all executed stages,
+ * stages after a failed stage are not executed and not reported.
+ */
+export interface PipelineExecutionReport extends RulesExecutionReport {
+    readonly stages: StageExecutionReport[];
+}
+
+/**
+ * Thrown when a rule fails. The transaction is rolled back, so the affected rows
+ * of the report were not persisted, but the report shows which rule failed and why.
+ */
+export class RulesExecutionError extends Error {
+
+    readonly report: RulesExecutionReport;
+
+    /**
+     * Original database error
+     */
+    readonly cause?: unknown;
+
+    constructor(message: string, report: RulesExecutionReport, cause?: unknown) {
+        super(message);
+        this.name = 'RulesExecutionError';
+        this.report = report;
+        this.cause = cause;
+    }
+}
+
+/**
+ * Build a report with run-level totals from rule results
+ */
+export function createExecutionReport(rules: RuleExecutionResult[],
+                                      durationMs: number,
+                                      fixpoint?: FixpointReport): RulesExecutionReport {
+    return {
+        rules,
+        totalAffectedRows: rules.reduce((total, rule) => total + rule.affectedRows, 0),
+        appliedRules: rules.filter(rule => rule.status === 'applied').length,
+        skippedRules: rules.filter(rule => rule.status.startsWith('skipped')).length,
+        failedRules: rules.filter(rule => rule.status === 'failed').length,
+        durationMs,
+        ...(fixpoint ? {fixpoint} : {}),
+    };
+}
+
+/**
+ * Build a pipeline report with run-level totals from stage reports
+ */
+export function createPipelineReport(stages: StageExecutionReport[], durationMs: number): PipelineExecutionReport {
+    return {
+        ...createExecutionReport(stages.flatMap(stage => stage.rules), durationMs),
+        stages,
+    };
+}
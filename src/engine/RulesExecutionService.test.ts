@@ -1,7 +1,14 @@
+import {ColumnDefinitionBuilder, Kysely, sql} from 'kysely';
 import {createTestDb} from '@/test/test-database';
 import {RulesExecutionService} from './RulesExecutionService';
-import {User} from '@/test/database.types';
+import {Database, User} from '@/test/database.types';
 import {MatchRuleFactory} from "@/entities/MatchRuleFactory";
+import {MatchRule} from "@/entities/MatchRule";
+import {RuleExecutionResult, RulesExecutionError, RulesExecutionReport, StageExecutionReport} from "./RulesExecutionReport";
+import {ResultsTableSchemaError} from "./ResultsTableSchema";
+import {RuleValidationError} from "./RuleSchemaValidation";
+import {RulePipeline} from "@/entities/RulePipeline";
+import {IncrementalOptions, IncrementalSyncResult} from "./IncrementalSync";
 
 describe('PgRulesEngine', () => {
     let db: any;
@@ -25,6 +32,26 @@ describe('PgRulesEngine', () => {
             .execute();
     });
 
+    // Status and age of John, Jane and Bob, Alice keeps a NULL status and age
+    async function setStatusesAndAges(): Promise<void> {
+        await db.updateTable('users_results').set({status: 'active', age: 30}).where('email', '=', 'john@example.com').execute();
+        await db.updateTable('users_results').set({status: 'inactive', age: 40}).where('email', '=', 'jane@example.com').execute();
+        await db.updateTable('users_results').set({status: 'pending', age: 50}).where('email', '=', 'bob@example.com').execute();
+    }
+
+    // Apply a single rule with the match condition and return the emails of the matched users
+    async function applyAndGetEmails(match: MatchRule['match']): Promise<string[]> {
+        const rule = MatchRuleFactory.create({ruleName: 'match-rule', match, apply: {name: 'Matched'}});
+        await rulesEngine.applyRules([rule], 'users_results');
+        const users = await db
+            .selectFrom('users_results')
+            .select('email')
+            .where('name', '=', 'Matched')
+            .orderBy('email')
+            .execute();
+        return users.map((u: User) => u.email);
+    }
+
     describe('applyRules', () => {
         it('should apply a single rule to update user names', async () => {
             // Create a rule to update John's name
@@ -34,222 +61,1676 @@ describe('PgRulesEngine', () => {
                 apply: {name: 'John Updated'}
             });
 
-            const affectedRows = await rulesEngine.applyRules([rule], 'users_results');
+            const report = await rulesEngine.applyRules([rule], 'users_results');
+
+            expect(report.totalAffectedRows).toBe(1);
+
+            // Verify the update was applied
+            const updatedUser = await db
+                .selectFrom('users_results')
+                .selectAll()
+                .where('email', '=', 'john@example.com')
+                .executeTakeFirst();
+
+            expect(updatedUser.name).toBe('John Updated');
+        });
+
+        it('should apply multiple rules in a single transaction', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'update-john',
+                    match: {email: 'john@example.com'},
+                    apply: {name: 'John Modified'}
+                },
+                {
+                    ruleName: 'update-jane',
+                    match: {email: 'jane@example.com'},
+                    apply: {name: 'Jane Modified'}
+                },
+            ]);
+
+            const report = await rulesEngine.applyRules(rules, 'users_results');
+
+            expect(report.totalAffectedRows).toBe(2);
+
+            // Verify both updates were applied
+            const users = await db
+                .selectFrom('users_results')
+                .selectAll()
+                .where('email', 'in', ['john@example.com', 'jane@example.com'])
+                .execute();
+
+            expect(users).toHaveLength(2);
+            expect(users.find((u: User) => u.email === 'john@example.com')?.name).toBe('John Modified');
+            expect(users.find((u: User) => u.email === 'jane@example.com')?.name).toBe('Jane Modified');
+        });
+
+        it('should handle rules with multiple match conditions', async () => {
+            // First, update one user to have a specific name
+            await db
+                .updateTable('users_results')
+                .set({name: 'Target User'})
+                .where('email', '=', 'bob@example.com')
+                .execute();
+
+            const rule = MatchRuleFactory.create({
+                ruleName: 'update-specific-user',
+                match: {email: 'bob@example.com', name: 'Target User'},
+                apply: {name: 'Updated Target User'}
+            });
+
+            const report = await rulesEngine.applyRules([rule], 'users_results');
+
+            expect(report.totalAffectedRows).toBe(1);
+
+            const updatedUser = await db
+                .selectFrom('users_results')
+                .selectAll()
+                .where('email', '=', 'bob@example.com')
+                .executeTakeFirst();
+
+            expect(updatedUser.name).toBe('Updated Target User');
+        });
+
+        it('should return 0 when no rules match any records', async () => {
+            const rule = MatchRuleFactory.create({
+                ruleName: 'update-nonexistent',
+                match: {email: 'nonexistent@example.com'},
+                apply: {name: 'Should Not Update'}
+            });
+
+            const report = await rulesEngine.applyRules([rule], 'users_results');
+
+            expect(report.totalAffectedRows).toBe(0);
+
+            // Verify no users were changed
+            const allUsers = await db
+                .selectFrom('users_results')
+                .selectAll()
+                .execute();
+
+            expect(allUsers).toHaveLength(4);
+            // @ts-ignore
+            expect(allUsers.every((u: User) => !u.name.includes('Should Not Update'))).toBe(true);
+        });
+
+        it('should return 0 when given an empty rules array', async () => {
+            const report = await rulesEngine.applyRules([], 'users_results');
+
+            expect(report.totalAffectedRows).toBe(0);
+        });
+
+        it('should skip rules with empty apply objects', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'empty-apply',
+                    match: {email: 'john@example.com'},
+                    apply: {}
+                },
+                {
+                    ruleName: 'valid-rule',
+                    match: {email: 'jane@example.com'},
+                    apply: {name: 'Jane Updated'}
+                },
+            ]);
+
+            const report = await rulesEngine.applyRules(rules, 'users_results');
+
+            expect(report.totalAffectedRows).toBe(1); // Only the valid rule should be applied
+
+            // Verify only Jane was updated
+            const john = await db
+                .selectFrom('users_results')
+                .selectAll()
+                .where('email', '=', 'john@example.com')
+                .executeTakeFirst();
+
+            const jane = await db
+                .selectFrom('users_results')
+                .selectAll()
+                .where('email', '=', 'jane@example.com')
+                .executeTakeFirst();
+
+            expect(john.name).toBe('John Doe'); // Unchanged
+            expect(jane.name).toBe('Jane Updated'); // Changed
+        });
+
+        it('should handle rules that update multiple fields', async () => {
+            const rule = MatchRuleFactory.create({
+                ruleName: 'update-multiple-fields',
+                match: {email: 'alice@example.com'},
+                apply: {
+                    name: 'Alice Updated',
+                    email: 'alice.updated@example.com'
+                }
+            });
+
+            const report = await rulesEngine.applyRules([rule], 'users_results');
+
+            expect(report.totalAffectedRows).toBe(1);
+
+            // Verify both fields were updated
+            const updatedUser = await db
+                .selectFrom('users_results')
+                .selectAll()
+                .where('email', '=', 'alice.updated@example.com')
+                .executeTakeFirst();
+
+            expect(updatedUser).toBeDefined();
+            expect(updatedUser.name).toBe('Alice Updated');
+            expect(updatedUser.email).toBe('alice.updated@example.com');
+        });
+
+        it('should maintain transaction integrity on error', async () => {
+            // Do not write this test.
+        });
+
+        it('should apply rules in priority order (lower priority first)', async () => {
+            // Jane will be updated twice, but the lower priority rule should apply first
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'priority-2',
+                    match: {email: 'jane@example.com'},
+                    apply: {name: 'Jane Priority 2'},
+                    priority: 2
+                },
+                {
+                    ruleName: 'priority-0',
+                    match: {email: 'jane@example.com'},
+                    apply: {name: 'Jane Priority 0'},
+                    priority: 0
+                },
+                {
+                    ruleName: 'priority-1',
+                    match: {email: 'jane@example.com'},
+                    apply: {name: 'Jane Priority 1'},
+                    priority: 1
+                },
+            ]);
+            await rulesEngine.applyRules(rules, 'users_results');
+            const updatedUser = await db
+                .selectFrom('users_results')
+                .selectAll()
+                .where('email', '=', 'jane@example.com')
+                .executeTakeFirst();
+            expect(updatedUser.name).toBe('Jane Priority 2'); // Last rule applied (highest priority number)
+        });
+
+        it('should default priority to 0 if not specified', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'default-priority',
+                    match: {email: 'bob@example.com'},
+                    apply: {name: 'Bob Default Priority'}
+                },
+                {
+                    ruleName: 'explicit-priority-1',
+                    match: {email: 'bob@example.com'},
+                    apply: {name: 'Bob Priority 1'},
+                    priority: 1
+                },
+            ]);
+            await rulesEngine.applyRules(rules, 'users_results');
+            const updatedUser = await db
+                .selectFrom('users_results')
+                .selectAll()
+                .where('email', '=', 'bob@example.com')
+                .executeTakeFirst();
+            expect(updatedUser.name).toBe('Bob Priority 1'); // Last rule applied (priority 1)
+        });
+    });
+
+    describe('execution report', () => {
+        it('should report one entry per rule in execution order', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'update-all',
+                    priority: 2,
+                    match: {email: '.*'},
+                    apply: {status: 'all'}
+                },
+                {
+                    ruleName: 'update-john',
+                    priority: 1,
+                    match: {email: 'john@example.com'},
+                    apply: {status: 'john'}
+                },
+                {
+                    ruleName: 'no-apply',
+                    priority: 3,
+                    match: {email: 'john@example.com'},
+                    apply: {}
+                },
+                {
+                    ruleName: 'no-match',
+                    priority: 4,
+                    apply: {status: 'none'}
+                },
+                {
+                    ruleName: 'matches-nothing',
+                    priority: 5,
+                    match: {email: 'nobody@example.com'},
+                    apply: {status: 'nobody'}
+                },
+            ]);
+
+            const report = await rulesEngine.applyRules(rules, 'users_results');
+
+            expect(report.rules.map(r => [r.ruleName, r.priority, r.status, r.affectedRows])).toEqual([
+                ['update-john', 1, 'applied', 1],
+                ['update-all', 2, 'applied', 4],
+                ['no-apply', 3, 'skipped-no-apply', 0],
+                ['no-match', 4, 'skipped-no-match', 0],
+                ['matches-nothing', 5, 'applied', 0],
+            ]);
+            expect(report.rules[2].skipReason).toBe('Rule has no apply changes');
+            expect(report.rules[3].skipReason).toBe('Rule has no match conditions');
+            expect(report.rules.every(r => r.durationMs >= 0)).toBe(true);
+            expect(report.totalAffectedRows).toBe(5);
+            expect(report.appliedRules).toBe(3);
+            expect(report.skippedRules).toBe(2);
+            expect(report.failedRules).toBe(0);
+            expect(report.durationMs).toBeGreaterThanOrEqual(0);
+        });
+
+        it('should throw RulesExecutionError with the failed rule in the report', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'valid-rule',
+                    priority: 1,
+                    match: {email: 'john@example.com'},
+                    apply: {status: 'valid'}
+                },
+                {
+                    ruleName: 'broken-rule',
+                    priority: 2,
+                    match: {email: 'john@example.com'},
+                    // passes validation, but violates the NOT NULL constraint
+                    apply: {name: null}
+                },
+                {
+                    ruleName: 'never-executed',
+                    priority: 3,
+                    match: {email: 'john@example.com'},
+                    apply: {status: 'never'}
+                },
+            ]);
+
+            const error: RulesExecutionError = await rulesEngine.applyRules(rules, 'users_results').catch(e => e);
+
+            expect(error).toBeInstanceOf(RulesExecutionError);
+            expect(error.message).toContain('Rule "broken-rule" failed');
+            expect(error.report.rules.map(r => [r.ruleName, r.status])).toEqual([
+                ['valid-rule', 'applied'],
+                ['broken-rule', 'failed'],
+            ]);
+            expect(error.report.rules[1].error).toBeDefined();
+            expect(error.report.failedRules).toBe(1);
+        });
+    });
+
+    describe('comparison operators', () => {
+        beforeEach(async () => {
+            await db.updateTable('users_results').set({age: 17, created_at: '2023-06-01 10:00:00'}).where('email', '=', 'john@example.com').execute();
+            await db.updateTable('users_results').set({age: 25, created_at: '2024-01-15 10:00:00'}).where('email', '=', 'jane@example.com').execute();
+            await db.updateTable('users_results').set({age: 65, created_at: '2024-03-01 10:00:00'}).where('email', '=', 'bob@example.com').execute();
+            await db.updateTable('users_results').set({age: 70, created_at: '2024-06-30 10:00:00'}).where('email', '=', 'alice@example.com').execute();
+        });
+
+        async function namesWithStatus(status: string): Promise<string[]> {
+            const users = await db
+                .selectFrom('users_results')
+                .select('email')
+                .where('status', '=', status)
+                .orderBy('email')
+                .execute();
+            return users.map((u: User) => u.email);
+        }
+
+        it('should combine gt and lte operators', async () => {
+            const rule = MatchRuleFactory.create({
+                ruleName: 'working-age',
+                match: {age: {gt: 18, lte: 65}},
+                apply: {status: 'working-age'}
+            });
+
+            const report = await rulesEngine.applyRules([rule], 'users_results');
+
+            expect(report.totalAffectedRows).toBe(2);
+            expect(await namesWithStatus('working-age')).toEqual(['bob@example.com', 'jane@example.com']);
+        });
+
+        it('should match inclusive between ranges', async () => {
+            const rule = MatchRuleFactory.create({
+                ruleName: 'between-ages',
+                match: {age: {between: [25, 65]}},
+                apply: {status: 'between'}
+            });
+
+            const report = await rulesEngine.applyRules([rule], 'users_results');
+
+            expect(report.totalAffectedRows).toBe(2);
+            expect(await namesWithStatus('between')).toEqual(['bob@example.com', 'jane@example.com']);
+        });
+
+        it('should compare integer columns with decimal values', async () => {
+            const rule = MatchRuleFactory.create({
+                ruleName: 'decimal-boundaries',
+                match: {age: {gte: 24.5, lt: 65.5}},
+                apply: {status: 'decimal'}
+            });
+
+            const report = await rulesEngine.applyRules([rule], 'users_results');
+
+            expect(report.totalAffectedRows).toBe(2);
+            expect(await namesWithStatus('decimal')).toEqual(['bob@example.com', 'jane@example.com']);
+        });
+
+        it('should compare timestamps given as strings', async () => {
+            const rule = MatchRuleFactory.create({
+                ruleName: 'created-in-2024-q1',
+                match: {created_at: {between: ['2024-01-01 00:00:00', '2024-03-31 23:59:59']}},
+                apply: {status: 'q1'}
+            });
+
+            const report = await rulesEngine.applyRules([rule], 'users_results');
+
+            expect(report.totalAffectedRows).toBe(2);
+            expect(await namesWithStatus('q1')).toEqual(['bob@example.com', 'jane@example.com']);
+        });
+
+        it('should compare timestamps given as Date objects', async () => {
+            const rule = MatchRuleFactory.create({
+                ruleName: 'created-before-2024',
+                match: {created_at: {lt: new Date('2024-01-01T00:00:00Z')}},
+                apply: {status: 'old'}
+            });
+
+            const report = await rulesEngine.applyRules([rule], 'users_results');
+
+            expect(report.totalAffectedRows).toBe(1);
+            expect(await namesWithStatus('old')).toEqual(['john@example.com']);
+        });
+
+        it('should combine operators with regex and equality conditions', async () => {
+            const rule = MatchRuleFactory.create({
+                ruleName: 'mixed-operators',
+                match: {email: '^(john|alice)@', age: {gt: 18}},
+                apply: {status: 'mixed'}
+            });
+
+            const report = await rulesEngine.applyRules([rule], 'users_results');
+
+            expect(report.totalAffectedRows).toBe(1);
+            expect(await namesWithStatus('mixed')).toEqual(['alice@example.com']);
+        });
+    });
+
+    describe('set, null and negation operators', () => {
+        beforeEach(setStatusesAndAges);
+
+        it('should match null values with IS NULL', async () => {
+            expect(await applyAndGetEmails({status: null})).toEqual(['alice@example.com']);
+        });
+
+        it('should match with isNull and isNotNull operators', async () => {
+            expect(await applyAndGetEmails({age: {isNotNull: true}, status: {isNull: false}}))
+                .toEqual(['bob@example.com', 'jane@example.com', 'john@example.com']);
+        });
+
+        it('should match strings in a set by equality', async () => {
+            expect(await applyAndGetEmails({status: {in: ['active', 'pend']}})).toEqual(['john@example.com']);
+        });
+
+        it('should match numbers in a set', async () => {
+            expect(await applyAndGetEmails({age: {in: [30, 50]}})).toEqual(['bob@example.com', 'john@example.com']);
+        });
+
+        it('should include null values in notIn', async () => {
+            expect(await applyAndGetEmails({status: {notIn: ['active', 'pending']}}))
+                .toEqual(['alice@example.com', 'jane@example.com']);
+        });
+
+        it('should negate regex patterns with not', async () => {
+            expect(await applyAndGetEmails({status: {not: '^(in)?active$'}}))
+                .toEqual(['alice@example.com', 'bob@example.com']);
+        });
+
+        it('should negate equality with not', async () => {
+            expect(await applyAndGetEmails({age: {not: 30}}))
+                .toEqual(['alice@example.com', 'bob@example.com', 'jane@example.com']);
+        });
+
+        it('should match non null values with not null', async () => {
+            expect(await applyAndGetEmails({status: {not: null}}))
+                .toEqual(['bob@example.com', 'jane@example.com', 'john@example.com']);
+        });
+
+        it('should match case-sensitive like patterns', async () => {
+            await db.updateTable('users_results').set({status: 'Active'}).where('email', '=', 'john@example.com').execute();
+
+            expect(await applyAndGetEmails({status: {like: '%active'}})).toEqual(['jane@example.com']);
+        });
+
+        it('should match case-insensitive ilike patterns', async () => {
+            await db.updateTable('users_results').set({status: 'Active'}).where('email', '=', 'john@example.com').execute();
+
+            expect(await applyAndGetEmails({status: {ilike: '%ACTIVE'}})).toEqual(['jane@example.com', 'john@example.com']);
+        });
+
+        it('should treat escaped wildcards in like patterns literally', async () => {
+            await db.updateTable('users_results').set({status: '100% done'}).where('email', '=', 'john@example.com').execute();
+            await db.updateTable('users_results').set({status: '100 done'}).where('email', '=', 'jane@example.com').execute();
+
+            expect(await applyAndGetEmails({status: {like: '100\\% _one'}})).toEqual(['john@example.com']);
+            expect(await applyAndGetEmails({status: {ilike: '100\\% _ONE'}})).toEqual(['john@example.com']);
+        });
+    });
+
+    describe('condition groups', () => {
+        beforeEach(setStatusesAndAges);
+
+        it('should match any of the nested conditions', async () => {
+            expect(await applyAndGetEmails({any: [{email: '^john@'}, {status: 'pending'}]}))
+                .toEqual(['bob@example.com', 'john@example.com']);
+        });
+
+        it('should match all of the nested conditions', async () => {
+            expect(await applyAndGetEmails({all: [{status: 'active$'}, {age: {gte: 40}}]}))
+                .toEqual(['jane@example.com']);
+        });
+
+        it('should negate nested conditions including rows with NULL values', async () => {
+            expect(await applyAndGetEmails({not: {status: 'active$'}}))
+                .toEqual(['alice@example.com', 'bob@example.com']);
+        });
+
+        it('should compile nested groups into parenthesised conditions', async () => {
+            const match = {
+                any: [
+                    {all: [{status: 'active'}, {age: {lt: 35}}]},
+                    {all: [{email: '^bob@'}, {not: {any: [{age: 30}, {age: 40}]}}]},
+                ]
+            };
+
+            expect(await applyAndGetEmails(match)).toEqual(['bob@example.com', 'john@example.com']);
+        });
+    });
+
+    describe('stopProcessingOtherRules', () => {
+        it('should skip rows matched by a stopping rule in lower priority rules', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'specific-john',
+                    priority: 1,
+                    match: {email: 'john@example.com'},
+                    apply: {status: 'specific'},
+                    stopProcessingOtherRules: true
+                },
+                {
+                    ruleName: 'generic-other',
+                    priority: 2,
+                    match: {email: '@example\\.com$'},
+                    apply: {status: 'other'}
+                },
+            ]);
+
+            const report = await rulesEngine.applyRules(rules, 'users_results');
+
+            expect(report.totalAffectedRows).toBe(4); // John by the specific rule, the other 3 users by the generic rule
+
+            const users = await rulesEngine.getRowsWithAppliedRules<User>('users_results');
+            const john = users.find(u => u.email === 'john@example.com');
+            expect(john?.status).toBe('specific');
+            expect(john?.applied_rules).toEqual(['specific-john']);
+            expect(users.filter(u => u.status === 'other')).toHaveLength(3);
+        });
+
+        it('should not affect rows that were not matched by the stopping rule', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'stop-nobody',
+                    priority: 1,
+                    match: {email: 'nonexistent@example.com'},
+                    apply: {status: 'never'},
+                    stopProcessingOtherRules: true
+                },
+                {
+                    ruleName: 'update-jane',
+                    priority: 2,
+                    match: {email: 'jane@example.com'},
+                    apply: {status: 'updated'}
+                },
+            ]);
+
+            const report = await rulesEngine.applyRules(rules, 'users_results');
+
+            expect(report.totalAffectedRows).toBe(1);
+        });
+
+        it('should still apply rules with the same or lower priority number before the stopping rule', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'late-rule',
+                    priority: 3,
+                    match: {email: 'bob@example.com'},
+                    apply: {name: 'Bob Late'}
+                },
+                {
+                    ruleName: 'stopping-rule',
+                    priority: 2,
+                    match: {email: 'bob@example.com'},
+                    apply: {status: 'stopped'},
+                    stopProcessingOtherRules: true
+                },
+                {
+                    ruleName: 'early-rule',
+                    priority: 1,
+                    match: {email: 'bob@example.com'},
+                    apply: {name: 'Bob Early'}
+                },
+            ]);
+
+            await rulesEngine.applyRules(rules, 'users_results');
+
+            const users = await rulesEngine.getRowsWithAppliedRules<User>('users_results', {email: 'bob@example.com'});
+            expect(users[0].name).toBe('Bob Early');
+            expect(users[0].status).toBe('stopped');
+            expect(users[0].applied_rules).toEqual(['early-rule', 'stopping-rule']);
+        });
+
+        it('should combine multiple stopping rules', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'stop-john',
+                    priority: 1,
+                    match: {email: 'john@example.com'},
+                    apply: {status: 'john'},
+                    stopProcessingOtherRules: true
+                },
+                {
+                    ruleName: 'stop-jane',
+                    priority: 2,
+                    match: {email: 'jane@example.com'},
+                    apply: {status: 'jane'},
+                    stopProcessingOtherRules: true
+                },
+                {
+                    ruleName: 'everyone',
+                    priority: 3,
+                    match: {email: '.*'},
+                    apply: {status: 'everyone'}
+                },
+            ]);
+
+            await rulesEngine.applyRules(rules, 'users_results');
+
+            const users = await rulesEngine.getRowsWithAppliedRules<User>('users_results');
+            expect(users.find(u => u.email === 'john@example.com')?.status).toBe('john');
+            expect(users.find(u => u.email === 'jane@example.com')?.status).toBe('jane');
+            expect(users.filter(u => u.status === 'everyone')).toHaveLength(2);
+        });
+    });
+
+    describe('computed apply values', () => {
+        beforeEach(async () => {
+            await db.updateTable('users_results').set({role: 'admin', age: 30, priority: 5, phone: '555-0100'}).where('email', '=', 'john@example.com').execute();
+            await db.updateTable('users_results').set({role: 'user', age: 40, priority: 1}).where('email', '=', 'jane@example.com').execute();
+        });
+
+        async function applyAndGetUsers(apply: unknown, match: unknown = {email: 'j.*@example\\.com'}): Promise<User[]> {
+            const rule = MatchRuleFactory.create({ruleName: 'computed-rule', match, apply});
+            await rulesEngine.applyRules([rule], 'users_results');
+            return db.selectFrom('users_results').selectAll().orderBy('email').execute();
+        }
+
+        it('should copy another column', async () => {
+            const users = await applyAndGetUsers({status: {ref: 'role'}});
+
+            expect(users.find(u => u.email === 'john@example.com')?.status).toBe('admin');
+            expect(users.find(u => u.email === 'jane@example.com')?.status).toBe('user');
+            expect(users.find(u => u.email === 'bob@example.com')?.status).toBeNull();
+        });
+
+        it('should concatenate columns with a template', async () => {
+            const users = await applyAndGetUsers({status: {template: '{name} <{ email }> {{{phone}}}'}});
+
+            expect(users.find(u => u.email === 'john@example.com')?.status).toBe('John Doe <john@example.com> {555-0100}');
+            // NULL columns are rendered as empty text
+            expect(users.find(u => u.email === 'jane@example.com')?.status).toBe('Jane Smith <jane@example.com> {}');
+        });
+
+        it('should render non-text columns in templates', async () => {
+            const users = await applyAndGetUsers({status: {template: '{role}-{age}'}});
+
+            expect(users.find(u => u.email === 'john@example.com')?.status).toBe('admin-30');
+        });
+
+        it('should calculate with the target column', async () => {
+            const users = await applyAndGetUsers({priority: {add: 10}, age: {multiply: 2}});
+
+            expect(users.find(u => u.email === 'john@example.com')).toMatchObject({priority: 15, age: 60});
+            expect(users.find(u => u.email === 'jane@example.com')).toMatchObject({priority: 11, age: 80});
+            expect(users.find(u => u.email === 'bob@example.com')?.priority).toBe(0);
+        });
+
+        it('should calculate with other columns', async () => {
+            const users = await applyAndGetUsers({priority: {ref: 'age', subtract: {ref: 'priority'}}});
+
+            expect(users.find(u => u.email === 'john@example.com')?.priority).toBe(25);
+            expect(users.find(u => u.email === 'jane@example.com')?.priority).toBe(39);
+        });
+
+        it('should use the fallback of coalesce for NULL columns', async () => {
+            const users = await applyAndGetUsers({status: {coalesce: [{ref: 'phone'}, {ref: 'status'}, 'no phone']}});
+
+            expect(users.find(u => u.email === 'john@example.com')?.status).toBe('555-0100');
+            expect(users.find(u => u.email === 'jane@example.com')?.status).toBe('no phone');
+        });
+
+        it('should evaluate expressions against the row before the update', async () => {
+            const users = await applyAndGetUsers({role: {ref: 'status'}, status: {ref: 'role'}});
+
+            expect(users.find(u => u.email === 'john@example.com')).toMatchObject({role: null, status: 'admin'});
+        });
+
+        it('should extract the first capture group of a regex into the target column', async () => {
+            const users = await applyAndGetUsers({status: {extract: {from: 'email', pattern: '^([a-z]+)@(example)'}}}, {email: '@'});
+
+            expect(users.map(u => u.status)).toEqual(['alice', 'bob', 'jane', 'john']);
+        });
+
+        it('should keep the target value when the extract pattern does not match', async () => {
+            await db.updateTable('users_results').set({status: 'unchanged'}).execute();
+            await db.updateTable('users_results').set({phone: 'unknown'}).where('email', '=', 'bob@example.com').execute();
+
+            const users = await applyAndGetUsers({status: {extract: {from: 'phone', pattern: '^(\\d{3})-'}}}, {email: '@'});
+
+            expect(users.find(u => u.email === 'john@example.com')?.status).toBe('555');
+            // Jane has no phone, Bob's phone does not match
+            expect(users.find(u => u.email === 'jane@example.com')?.status).toBe('unchanged');
+            expect(users.find(u => u.email === 'bob@example.com')?.status).toBe('unchanged');
+        });
+
+        it('should extract from non-text columns', async () => {
+            const users = await applyAndGetUsers({status: {extract: {from: 'age', pattern: '^(\\d)'}}});
+
+            expect(users.find(u => u.email === 'john@example.com')?.status).toBe('3');
+            expect(users.find(u => u.email === 'jane@example.com')?.status).toBe('4');
+        });
+
+        it('should reject references to unknown columns before changing data', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {ruleName: 'valid', match: {email: 'john'}, apply: {status: 'changed'}},
+                {ruleName: 'invalid', priority: 1, match: {email: 'jane'}, apply: {status: {template: '{first_name} {last_name}'}}},
+            ]);
+
+            await expect(rulesEngine.applyRules(rules, 'users_results'))
+                .rejects.toThrow('Rule "invalid" references unknown column "first_name" in apply.status');
+            await expect(rulesEngine.previewRules(rules, 'users_results'))
+                .rejects.toThrow('references unknown column "first_name"');
+
+            const john = await db.selectFrom('users_results').selectAll().where('email', '=', 'john@example.com').executeTakeFirst();
+            expect(john.status).toBeNull();
+        });
+
+        it('should count computed values in previews', async () => {
+            await db.updateTable('users_results').set({status: 'admin'}).where('email', '=', 'john@example.com').execute();
+
+            const previews = await rulesEngine.previewRules([
+                MatchRuleFactory.create({ruleName: 'copy-role', match: {email: 'j.*@example'}, apply: {status: {ref: 'role'}}})
+            ], 'users_results');
+
+            expect(previews[0].matchedRows).toBe(2);
+            expect(previews[0].changedRows).toBe(1); // John's status already equals his role
+        });
+    });
+
+    describe('ensureResultsTable', () => {
+        beforeEach(async () => {
+            await db.schema.createTable('products')
+                .addColumn('id', 'integer', (col: ColumnDefinitionBuilder) => col.primaryKey())
+                .addColumn('title', 'text')
+                .addColumn('price', 'numeric')
+                .execute();
+            await db.insertInto('products').values([
+                {id: 1, title: 'Apple', price: 1.5},
+                {id: 2, title: 'Bread', price: 2},
+            ]).execute();
+        });
+
+        it('should create a missing results table with the tracking column', async () => {
+            const sync = await rulesEngine.ensureResultsTable('products');
+
+            expect(sync).toEqual({resultsTableName: 'products_results', created: true, addedColumns: []});
+
+            const resultsTableName = await rulesEngine.resetResultsTableIfExists('products');
+            const report = await rulesEngine.applyRules([
+                MatchRuleFactory.create({ruleName: 'fruit', match: {title: 'Apple'}, apply: {title: 'Fruit'}})
+            ], resultsTableName);
+
+            expect(report.totalAffectedRows).toBe(1);
+            const rows = await rulesEngine.getRowsWithAppliedRules<{ id: number, title: string }>('products_results');
+            expect(rows.map(row => [row.id, row.title, row.applied_rules])).toEqual([
+                [1, 'Fruit', ['fruit']],
+                [2, 'Bread', []],
+            ]);
+        });
+
+        it('should add columns the target table gained', async () => {
+            await rulesEngine.resetResultsTableIfExists('products');
+            await db.schema.alterTable('products').addColumn('sku', 'text').execute();
+            await db.updateTable('products').set({sku: 'A-1'}).where('id', '=', 1).execute();
+
+            const sync = await rulesEngine.ensureResultsTable('products');
+            await rulesEngine.resetResultsTableIfExists('products');
+
+            expect(sync).toEqual({resultsTableName: 'products_results', created: false, addedColumns: ['sku']});
+            const apple = await db.selectFrom('products_results').selectAll().where('id', '=', 1).executeTakeFirst();
+            expect(apple.sku).toBe('A-1');
+        });
+
+        it('should report all columns with incompatible types without changing the results table', async () => {
+            await db.schema.createTable('products_results')
+                .addColumn('id', 'integer')
+                .addColumn('title', 'integer')
+                .addColumn('price', 'text')
+                .execute();
+
+            const error: ResultsTableSchemaError = await rulesEngine.resetResultsTableIfExists('products').catch(e => e);
+
+            expect(error).toBeInstanceOf(ResultsTableSchemaError);
+            // Declared type names keep the case used by the DDL
+            expect(error.message.toLowerCase()).toBe('results table "products_results" is incompatible with "products": ' +
+                'column "title" is integer in "products_results" but text in "products"; ' +
+                'column "price" is text in "products_results" but numeric in "products"');
+            expect(error.mismatches.map(m => m.column)).toEqual(['title', 'price']);
+            expect(await db.selectFrom('products_results').selectAll().execute()).toEqual([]);
+        });
+
+        it('should reject unknown target tables', async () => {
+            await expect(rulesEngine.ensureResultsTable('unknown')).rejects.toThrow('Table "unknown" does not exist');
+        });
+    });
+
+    describe('options', () => {
+        const markRule = MatchRuleFactory.create({ruleName: 'mark', match: {title: 'Apple'}, apply: {title: 'Fruit'}});
+
+        beforeEach(async () => {
+            await db.schema.createTable('products')
+                .addColumn('id', 'integer', (col: ColumnDefinitionBuilder) => col.primaryKey())
+                .addColumn('title', 'text')
+                .execute();
+            await db.insertInto('products').values([{id: 1, title: 'Apple'}, {id: 2, title: 'Bread'}]).execute();
+        });
+
+        it('should use a custom tracking column and results table name', async () => {
+            const engine = new RulesExecutionService(db, {appliedRulesField: 'rules_hit', resultsTableName: 'rules_{table}'});
+
+            const resultsTableName = await engine.resetResultsTableIfExists('products');
+            await engine.applyRules([markRule], resultsTableName);
+
+            expect(resultsTableName).toBe('rules_products');
+            const rows = await engine.getRowsWithAppliedRules<{ title: string, rules_hit: string[] }>('rules_products');
+            expect(rows.map(row => [row.title, row.rules_hit])).toEqual([['Fruit', ['mark']], ['Bread', []]]);
+            expect(rows[0].applied_rules).toBeUndefined();
+        });
+
+        it('should not track applied rules when tracking is turned off', async () => {
+            const engine = new RulesExecutionService(db, {appliedRulesField: false});
+
+            const resultsTableName = await engine.resetResultsTableIfExists('products');
+            const report = await engine.applyRules([markRule], resultsTableName);
+
+            expect(report.totalAffectedRows).toBe(1);
+            const columns = await sql<{ name: string }>`SELECT name FROM pragma_table_info('products_results')`.execute(db);
+            expect(columns.rows.map(column => column.name)).toEqual(['id', 'title']);
+            await expect(engine.clearAppliedRules(resultsTableName))
+                .rejects.toThrow('Applied rules tracking is turned off. Set the appliedRulesField option to use clearAppliedRules.');
+            await expect(engine.getRowsWithAppliedRules(resultsTableName))
+                .rejects.toThrow('Applied rules tracking is turned off');
+
+            // Rejected before any rule runs, so it is not reported as a failed rule
+            const rules = MatchRuleFactory.createRules([
+                {ruleName: 'rename', priority: 1, match: {title: 'Apple'}, apply: {title: 'Pear'}},
+                {ruleName: 'stop', priority: 2, match: {title: 'Bread'}, apply: {title: 'x'}, stopProcessingOtherRules: true},
+            ]);
+            const error = await engine.applyRules(rules, resultsTableName).catch(e => e);
+            expect(error).not.toBeInstanceOf(RulesExecutionError);
+            expect(error.message).toBe('Rule "stop" uses stopProcessingOtherRules, which requires the appliedRulesField option');
+            await expect(engine.previewRules(rules, resultsTableName))
+                .rejects.toThrow('Rule "stop" uses stopProcessingOtherRules, which requires the appliedRulesField option');
+        });
+
+        it('should use tables of the given schema', async () => {
+            await sql`ATTACH DATABASE ':memory:' AS archive`.execute(db);
+            await sql`CREATE TABLE archive.products (id integer primary key, title text)`.execute(db);
+            await sql`INSERT INTO archive.products (id, title) VALUES (1, 'Apple'), (2, 'Apple'), (3, 'Bread')`.execute(db);
+            const engine = new RulesExecutionService(db, {schema: 'archive'});
+
+            const resultsTableName = await engine.resetResultsTableIfExists('products');
+            const report = await engine.applyRules([markRule], resultsTableName);
+
+            expect(report.totalAffectedRows).toBe(2);
+            const archived = await sql<{ title: string }>`SELECT title FROM archive.products_results ORDER BY id`.execute(db);
+            expect(archived.rows.map(row => row.title)).toEqual(['Fruit', 'Fruit', 'Bread']);
+            const main = await sql<{ count: number }>`SELECT count(*) AS count FROM sqlite_master WHERE name = 'products_results'`.execute(db);
+            expect(main.rows[0].count).toBe(0);
+        });
+
+        it('should reject invalid options', () => {
+            expect(() => new RulesExecutionService(db, {appliedRulesStorage: 'text[]'}))
+                .toThrow('appliedRulesStorage "text[]" is not supported by the SQLite dialect');
+            expect(() => new RulesExecutionService(db, {resultsTableName: 'results'}))
+                .toThrow('resultsTableName must contain the "{table}" placeholder');
+            expect(() => new RulesExecutionService(db, {appliedRulesField: ''}))
+                .toThrow('appliedRulesField must be a non-empty column name or false');
+        });
+    });
+
+    describe('syncResultsTable', () => {
+        const processedRule = (status: string) => MatchRuleFactory.create({
+            ruleName: `set-${status}`,
+            match: {email: '@'},
+            apply: {status}
+        });
+
+        async function getResults(): Promise<User[]> {
+            return db.selectFrom('users_results').selectAll().orderBy('email').execute();
+        }
+
+        async function sync(options: IncrementalOptions): Promise<IncrementalSyncResult> {
+            return db.transaction().execute((trx: Kysely<Database>) => new RulesExecutionService(trx).syncResultsTable('users', options));
+        }
+
+        /**
+         * Sync and apply the rule to the synced rows in one transaction, like processRules
+         */
+        async function syncAndApply(options: IncrementalOptions, status: string) {
+            return db.transaction().execute(async (trx: Kysely<Database>) => {
+                const engine = new RulesExecutionService(trx);
+                const result = await engine.syncResultsTable('users', options);
+                const report = await engine.applyRules([processedRule(status)], 'users_results', {scope: result.scope});
+                return {sync: result, report};
+            });
+        }
+
+        beforeEach(async () => {
+            await db.deleteFrom('users_results').execute();
+            await db.insertInto('users').values([
+                {email: 'john@example.com', name: 'John Doe', updated_at: '2024-01-01 00:00:00'},
+                {email: 'jane@example.com', name: 'Jane Smith', updated_at: '2024-01-01 00:00:00'},
+                {email: 'bob@example.com', name: 'Bob Johnson', updated_at: '2024-01-01 00:00:00'},
+            ]).execute();
+        });
+
+        it('should copy all rows on the first sync and only changed rows later', async () => {
+            const options = {keyColumn: 'id', changeColumn: 'updated_at'};
+
+            const first = await syncAndApply(options, 'processed');
+            expect(first.sync).toMatchObject({resultsTableName: 'users_results', changedRows: 3, deletedRows: 0});
+            expect(first.report.totalAffectedRows).toBe(3);
+
+            const unchanged = await syncAndApply(options, 'again');
+            expect(unchanged.sync).toMatchObject({changedRows: 0, deletedRows: 0});
+            expect(unchanged.report.totalAffectedRows).toBe(0);
+
+            await db.updateTable('users').set({name: 'Jane Changed', updated_at: '2024-02-01 00:00:00'}).where('email', '=', 'jane@example.com').execute();
+            await db.insertInto('users').values({email: 'alice@example.com', name: 'Alice Brown'}).execute();
+            await db.deleteFrom('users').where('email', '=', 'bob@example.com').execute();
+
+            const changed = await syncAndApply(options, 'reprocessed');
+            expect(changed.sync).toMatchObject({changedRows: 2, deletedRows: 1});
+            expect(changed.report.totalAffectedRows).toBe(2);
+
+            const results = await getResults();
+            expect(results.map(u => [u.email, u.name, u.status])).toEqual([
+                ['alice@example.com', 'Alice Brown', 'reprocessed'],
+                ['jane@example.com', 'Jane Changed', 'reprocessed'],
+                ['john@example.com', 'John Doe', 'processed'],
+            ]);
+
+            // Changed rows are fresh copies, so their tracking only contains the rules of this run
+            const jane = await rulesEngine.getRowsWithAppliedRules<User>('users_results', {email: 'jane@example.com'});
+            expect(jane[0].applied_rules).toEqual(['set-reprocessed']);
+        });
+
+        it('should compare all columns without a change column', async () => {
+            await syncAndApply({keyColumn: 'id'}, 'processed');
+            await db.updateTable('users').set({status: 'changed'}).where('email', '=', 'john@example.com').execute();
+
+            const result = await sync({keyColumn: 'id'});
+
+            // Rows changed by the rule only are kept, their source rows did not change
+            expect(result.changedRows).toBe(1);
+            expect((await getResults()).map(u => [u.email, u.status])).toEqual([
+                ['bob@example.com', 'processed'],
+                ['jane@example.com', 'processed'],
+                ['john@example.com', 'changed'],
+            ]);
+            expect((await sync({keyColumn: 'id'})).changedRows).toBe(0);
+        });
+
+        it('should copy rows again whose values change between NULL and empty text', async () => {
+            await sync({keyColumn: 'id'});
+            await db.updateTable('users').set({phone: ''}).where('email', '=', 'john@example.com').execute();
+
+            expect((await sync({keyColumn: 'id'})).changedRows).toBe(1);
+        });
+
+        it('should reject a source column named like the hash column', async () => {
+            await sql`ALTER TABLE users ADD COLUMN source_row_hash TEXT`.execute(db);
+
+            await expect(sync({keyColumn: 'id'}))
+                .rejects.toThrow('Table "users" has a "source_row_hash" column, pass a change column instead');
+        });
+
+        it('should require a transaction', async () => {
+            await expect(rulesEngine.syncResultsTable('users', {keyColumn: 'id'}))
+                .rejects.toThrow('syncResultsTable must run in a transaction, create the RulesExecutionService with one');
+        });
+
+        it('should keep the keys in a temporary table per run and drop it with the scope', async () => {
+            const first = await sync({keyColumn: 'id'});
+            const second = await sync({keyColumn: 'id'});
+            expect(first.scope.keysTable).toMatch(/^users_results_keys_/);
+            expect(second.scope.keysTable).not.toBe(first.scope.keysTable);
+
+            await rulesEngine.releaseScope(first.scope);
+            await rulesEngine.releaseScope(second.scope);
+
+            const keysTables = await sql<{ count: number }>`SELECT count(*) AS count FROM sqlite_temp_master WHERE name LIKE 'users_results_keys_%'`.execute(db);
+            expect(Number(keysTables.rows[0].count)).toBe(0);
+            expect((await sync({keyColumn: 'id'})).changedRows).toBe(0);
+        });
+
+        it.each([
+            ['a change column', {keyColumn: 'id', changeColumn: 'updated_at'}],
+            ['the row hash', {keyColumn: 'id'}],
+        ])('should copy the rows of a rolled back run again with %s', async (_, options) => {
+            await sync(options);
+            await db.updateTable('users').set({name: 'Jane Changed', updated_at: '2024-02-01 00:00:00'}).where('email', '=', 'jane@example.com').execute();
+
+            await expect(db.transaction().execute(async (trx: Kysely<Database>) => {
+                expect((await new RulesExecutionService(trx).syncResultsTable('users', options)).changedRows).toBe(1);
+                throw new Error('rules failed');
+            })).rejects.toThrow('rules failed');
+
+            const keys = await db.transaction().execute(async (trx: Kysely<Database>) => {
+                const retry = await new RulesExecutionService(trx).syncResultsTable('users', options);
+                expect(retry.changedRows).toBe(1);
+                return (await sql<{ id: number }>`SELECT id FROM ${sql.id(retry.scope.keysTable)}`.execute(trx)).rows;
+            });
+            const jane = await db.selectFrom('users').select('id').where('email', '=', 'jane@example.com').executeTakeFirst();
+            expect(keys).toEqual([{id: jane.id}]);
+            expect((await getResults()).find(u => u.email === 'jane@example.com')?.name).toBe('Jane Changed');
+        });
+
+        it('should reject unknown key and change columns', async () => {
+            await expect(sync({keyColumn: 'uuid'}))
+                .rejects.toThrow('Key column "uuid" does not exist in table "users"');
+            await expect(sync({keyColumn: 'id', changeColumn: 'row_hash'}))
+                .rejects.toThrow('Change column "row_hash" does not exist in table "users"');
+        });
+    });
+
+    describe('validateRules', () => {
+        it('should return no problems for rules that fit the table', async () => {
+            const problems = await rulesEngine.validateRules(MatchRuleFactory.createRules([
+                {ruleName: 'adults', match: {age: {gte: 18}, email: '@example'}, apply: {status: 'adult', priority: 1}},
+                {ruleName: 'label', match: {role: {in: ['admin', 'user']}}, apply: {status: {template: '{role}: {name}'}}},
+            ]), 'users_results');
+
+            expect(problems).toEqual([]);
+        });
+
+        it('should report all problems of all rules in one pass', async () => {
+            const problems = await rulesEngine.validateRules(MatchRuleFactory.createRules([
+                {ruleName: 'typo', match: {emial: '@example'}, apply: {stauts: 'x'}},
+                {ruleName: 'types', match: {any: [{age: {gt: 'abc'}}, {age: '^3'}]}, apply: {priority: 'high'}},
+                {ruleName: 'refs', match: {email: '@'}, apply: {status: {coalesce: [{ref: 'nickname'}, 'none']}}},
+            ]), 'users_results');
+
+            expect(problems.map(p => [p.ruleName, p.code, p.path])).toEqual([
+                ['typo', 'unknown-column', 'match.emial'],
+                ['typo', 'unknown-column', 'apply.stauts'],
+                ['types', 'type-mismatch', 'match.any[0].age.gt'],
+                ['types', 'regex-on-non-text', 'match.any[1].age'],
+                ['types', 'type-mismatch', 'apply.priority'],
+                ['refs', 'unknown-column', 'apply.status'],
+            ]);
+            expect(problems[2].message).toBe('Rule "types" compares integer column "age" with string "abc" in match.any[0].age.gt');
+        });
+
+        it('should reject invalid rules before changing data', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {ruleName: 'valid', match: {email: 'john'}, apply: {status: 'changed'}},
+                {ruleName: 'invalid', priority: 1, match: {email: 'jane'}, apply: {age: 'old'}},
+            ]);
+
+            const error = await rulesEngine.applyRules(rules, 'users_results').catch(e => e);
+
+            expect(error).toBeInstanceOf(RuleValidationError);
+            expect(error.problems).toHaveLength(1);
+            expect(error.message).toBe('Rules do not fit table "users_results":\n'
+                + '- Rule "invalid" writes string "old" to integer column "age" in apply.age');
+            const john = await db.selectFrom('users_results').selectAll().where('email', '=', 'john@example.com').executeTakeFirst();
+            expect(john.status).toBeNull();
+        });
+
+        it('should reject unknown tables', async () => {
+            await expect(rulesEngine.validateRules([], 'missing'))
+                .rejects.toThrow('Table "missing" does not exist');
+        });
+    });
+
+    describe('previewRules', () => {
+        it('should report matched and changed rows without changing data', async () => {
+            await db.updateTable('users_results').set({status: 'active'}).where('email', '=', 'john@example.com').execute();
+
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'activate-all',
+                    match: {email: '@example\\.com$'},
+                    apply: {status: 'active'}
+                },
+            ]);
+
+            const previews = await rulesEngine.previewRules(rules, 'users_results');
+
+            expect(previews).toHaveLength(1);
+            expect(previews[0].ruleName).toBe('activate-all');
+            expect(previews[0].matchedRows).toBe(4);
+            expect(previews[0].changedRows).toBe(3); // John is already active
+
+            const users = await rulesEngine.getRowsWithAppliedRules<User>('users_results');
+            expect(users.filter(u => u.status === 'active')).toHaveLength(1);
+            expect(users.every(u => u.applied_rules?.length === 0)).toBe(true);
+        });
+
+        it('should return capped before and after samples', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'rename-all',
+                    match: {email: '.*'},
+                    apply: {name: 'Renamed'}
+                },
+            ]);
+
+            const previews = await rulesEngine.previewRules<User>(rules, 'users_results', {sampleSize: 2});
+
+            expect(previews[0].samples).toHaveLength(2);
+            expect(previews[0].samples.map(sample => sample.before.name)).toEqual(['John Doe', 'Jane Smith']);
+            expect(previews[0].samples.every(sample => sample.after.name === 'Renamed')).toBe(true);
+            expect(previews[0].samples[0].after.email).toBe(previews[0].samples[0].before.email);
+        });
+
+        it('should reject a key column the table does not have', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {ruleName: 'rename-all', match: {email: '.*'}, apply: {name: 'Renamed'}},
+            ]);
+
+            const error = await rulesEngine.previewRules(rules, 'users_results', {keyColumn: 'uuid'}).catch(e => e);
+
+            expect(error).toBeInstanceOf(RuleValidationError);
+            expect(error.problems).toEqual([{
+                ruleName: 'rename-all',
+                code: 'unknown-column',
+                path: 'keyColumn',
+                column: 'uuid',
+                message: 'Rule "rename-all" pairs its samples by unknown column "uuid" in keyColumn',
+            }]);
+        });
+
+        it('should respect priority order and stopping rules', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {
+                    ruleName: 'second',
+                    priority: 2,
+                    match: {status: 'vip'},
+                    apply: {name: 'VIP'}
+                },
+                {
+                    ruleName: 'first',
+                    priority: 1,
+                    match: {email: '^(john|jane)@'},
+                    apply: {status: 'vip'}
+                },
+                {
+                    ruleName: 'stop-bob',
+                    priority: 0,
+                    match: {email: '^bob@'},
+                    apply: {role: 'stopped'},
+                    stopProcessingOtherRules: true
+                },
+                {
+                    ruleName: 'everyone',
+                    priority: 3,
+                    match: {email: '.*'},
+                    apply: {role: 'member'}
+                },
+                {
+                    ruleName: 'no-apply',
+                    priority: 4,
+                    match: {email: '.*'},
+                    apply: {}
+                },
+            ]);
+
+            const previews = await rulesEngine.previewRules(rules, 'users_results', {sampleSize: 0});
+
+            expect(previews.map(p => p.ruleName)).toEqual(['stop-bob', 'first', 'second', 'everyone', 'no-apply']);
+            expect(previews.map(p => p.matchedRows)).toEqual([1, 2, 2, 3, 0]);
+            expect(previews[1].samples).toEqual([]);
+            expect(previews[4].skipReason).toBe('Rule has no apply changes');
+
+            const users = await db.selectFrom('users_results').selectAll().execute();
+            expect(users.every((u: User) => u.status === null && u.role === 'guest')).toBe(true);
+        });
+    });
+
+    describe('analyzeOverlaps', () => {
+        it('should report rule pairs writing the same columns of the same rows', async () => {
+            const report = await rulesEngine.analyzeOverlaps(MatchRuleFactory.createRules([
+                {ruleName: 'j-users', priority: 1, match: {email: '^j'}, apply: {status: 'j', role: 'user'}},
+                {ruleName: 'john', priority: 2, match: {email: '^john'}, apply: {status: 'john'}},
+                {ruleName: 'does', priority: 3, match: {name: 'Doe|Brown'}, apply: {role: 'doe', phone: '1'}},
+                {ruleName: 'bob', priority: 4, match: {email: '^bob'}, apply: {status: 'bob'}},
+            ]), 'users_results');
+
+            expect(report.overlaps).toEqual([
+                {earlierRule: 'j-users', laterRule: 'john', columns: ['status'], overlapRows: 1},
+                {earlierRule: 'j-users', laterRule: 'does', columns: ['role'], overlapRows: 1},
+            ]);
+            expect(report.shadowedRules).toEqual([]);
+        });
 
-            expect(affectedRows).toBe(1);
+        it('should report rules that are overwritten in every matched row', async () => {
+            const report = await rulesEngine.analyzeOverlaps(MatchRuleFactory.createRules([
+                {ruleName: 'shadowed', priority: 1, match: {email: '^j'}, apply: {status: 'first'}},
+                {ruleName: 'john', priority: 2, match: {email: '^john'}, apply: {status: 'john'}},
+                {ruleName: 'jane', priority: 3, match: {email: '^jane'}, apply: {status: 'jane', role: 'admin'}},
+            ]), 'users_results');
 
-            // Verify the update was applied
-            const updatedUser = await db
-                .selectFrom('users_results')
-                .selectAll()
-                .where('email', '=', 'john@example.com')
-                .executeTakeFirst();
+            expect(report.shadowedRules).toEqual([
+                {ruleName: 'shadowed', matchedRows: 2, shadowedBy: ['john', 'jane']},
+            ]);
+        });
 
-            expect(updatedUser.name).toBe('John Updated');
+        it('should count all rule pairs in one scan of the table', async () => {
+            const rules = MatchRuleFactory.createRules(['^j', '^john', '^jane', 'example', '^bob'].map((email, priority) => ({
+                ruleName: `rule-${priority}`, priority, match: {email}, apply: {status: email}
+            })));
+            const selectFrom = jest.spyOn(db, 'selectFrom');
+
+            const report = await rulesEngine.analyzeOverlaps(rules, 'users_results');
+
+            expect(report.overlaps).toHaveLength(6);
+            expect(report.shadowedRules.map(rule => rule.ruleName)).toEqual(['rule-0', 'rule-1', 'rule-2']);
+            // One scan for the pairs, one for the rules that may be shadowed
+            expect(selectFrom.mock.calls.filter(([table]) => table === 'users_results')).toHaveLength(2);
         });
 
-        it('should apply multiple rules in a single transaction', async () => {
+        it('should not report later values computed from the column as overwrites', async () => {
+            const report = await rulesEngine.analyzeOverlaps(MatchRuleFactory.createRules([
+                {ruleName: 'plus10', priority: 1, match: {email: '^j'}, apply: {priority: {add: 10}}},
+                {ruleName: 'plus5', priority: 2, match: {email: '^j'}, apply: {priority: {add: 5}}},
+                {ruleName: 'label', priority: 3, match: {email: '^j'}, apply: {name: 'J'}},
+                {ruleName: 'suffix', priority: 4, match: {email: '^j'}, apply: {name: {template: '{name} (j)'}}},
+            ]), 'users_results');
+
+            expect(report.overlaps).toEqual([]);
+            expect(report.shadowedRules).toEqual([]);
+        });
+
+        it('should not report rows protected by stopProcessingOtherRules', async () => {
+            const report = await rulesEngine.analyzeOverlaps(MatchRuleFactory.createRules([
+                {ruleName: 'john', priority: 1, match: {email: '^john'}, apply: {status: 'john'}, stopProcessingOtherRules: true},
+                {ruleName: 'everyone', priority: 2, match: {email: '@'}, apply: {status: 'all'}},
+                {ruleName: 'late', priority: 3, match: {email: '@'}, apply: {status: 'late'}},
+            ]), 'users_results');
+
+            expect(report.overlaps).toEqual([
+                {earlierRule: 'everyone', laterRule: 'late', columns: ['status'], overlapRows: 3},
+            ]);
+            expect(report.shadowedRules.map(r => r.ruleName)).toEqual(['everyone']);
+        });
+
+        it('should leave out rules that are inactive as of the given date', async () => {
             const rules = MatchRuleFactory.createRules([
-                {
-                    ruleName: 'update-john',
-                    match: {email: 'john@example.com'},
-                    apply: {name: 'John Modified'}
-                },
-                {
-                    ruleName: 'update-jane',
-                    match: {email: 'jane@example.com'},
-                    apply: {name: 'Jane Modified'}
-                },
+                {ruleName: 'j-users', priority: 1, match: {email: '^j'}, apply: {status: 'j'}},
+                {ruleName: 'november', priority: 2, match: {email: '^john'}, apply: {status: 'sale'}, validFrom: '2024-11-01', validTo: '2024-12-01'},
             ]);
 
-            const affectedRows = await rulesEngine.applyRules(rules, 'users_results');
+            const inNovember = await rulesEngine.analyzeOverlaps(rules, 'users_results', {asOf: new Date('2024-11-15T00:00:00Z')});
+            const inDecember = await rulesEngine.analyzeOverlaps(rules, 'users_results', {asOf: new Date('2024-12-15T00:00:00Z')});
 
-            expect(affectedRows).toBe(2);
+            expect(inNovember.overlaps).toEqual([{earlierRule: 'j-users', laterRule: 'november', columns: ['status'], overlapRows: 1}]);
+            expect(inDecember.overlaps).toEqual([]);
+        });
+    });
 
-            // Verify both updates were applied
-            const users = await db
-                .selectFrom('users_results')
-                .selectAll()
-                .where('email', 'in', ['john@example.com', 'jane@example.com'])
-                .execute();
+    describe('rule activation', () => {
+        const rules = MatchRuleFactory.createRules([
+            {ruleName: 'always', priority: 1, match: {email: '^john'}, apply: {status: 'always'}},
+            {ruleName: 'disabled', priority: 2, match: {email: '^john'}, apply: {role: 'disabled'}, enabled: false},
+            {ruleName: 'november', priority: 3, match: {email: '^john'}, apply: {name: 'November'}, validFrom: '2024-11-01', validTo: '2024-12-01'},
+        ]);
 
-            expect(users).toHaveLength(2);
-            expect(users.find((u: User) => u.email === 'john@example.com')?.name).toBe('John Modified');
-            expect(users.find((u: User) => u.email === 'jane@example.com')?.name).toBe('Jane Modified');
+        const activation = (report: RulesExecutionReport) => report.rules.map(r => [r.ruleName, r.status, r.skipReason]);
+
+        it('should skip disabled rules and rules outside their window', async () => {
+            const report = await rulesEngine.applyRules(rules, 'users_results', {asOf: new Date('2024-12-01T00:00:00Z')});
+
+            expect(activation(report)).toEqual([
+                ['always', 'applied', undefined],
+                ['disabled', 'skipped-disabled', 'Rule is disabled'],
+                ['november', 'skipped-inactive', 'Rule was valid until 2024-12-01T00:00:00.000Z'],
+            ]);
+            expect(report.skippedRules).toBe(2);
+            const john = await db.selectFrom('users_results').selectAll().where('email', '=', 'john@example.com').executeTakeFirst();
+            expect([john.status, john.role, john.name]).toEqual(['always', 'guest', 'John Doe']);
         });
 
-        it('should handle rules with multiple match conditions', async () => {
-            // First, update one user to have a specific name
-            await db
-                .updateTable('users_results')
-                .set({name: 'Target User'})
-                .where('email', '=', 'bob@example.com')
-                .execute();
+        it('should replay a run as of a date inside the window', async () => {
+            const report = await rulesEngine.applyRules(rules, 'users_results', {asOf: new Date('2024-11-15T00:00:00Z')});
 
-            const rule = MatchRuleFactory.create({
-                ruleName: 'update-specific-user',
-                match: {email: 'bob@example.com', name: 'Target User'},
-                apply: {name: 'Updated Target User'}
-            });
+            expect(activation(report)[2]).toEqual(['november', 'applied', undefined]);
+            const john = await db.selectFrom('users_results').selectAll().where('email', '=', 'john@example.com').executeTakeFirst();
+            expect(john.name).toBe('November');
+        });
 
-            const affectedRows = await rulesEngine.applyRules([rule], 'users_results');
+        it('should skip rules that are not valid yet', async () => {
+            const report = await rulesEngine.applyRules(rules, 'users_results', {asOf: new Date('2024-10-31T23:59:59Z')});
 
-            expect(affectedRows).toBe(1);
+            expect(activation(report)[2]).toEqual(['november', 'skipped-inactive', 'Rule is valid from 2024-11-01T00:00:00.000Z']);
+        });
 
-            const updatedUser = await db
-                .selectFrom('users_results')
-                .selectAll()
-                .where('email', '=', 'bob@example.com')
-                .executeTakeFirst();
+        it('should check the windows of all pipeline stages and previews against the "as of" date', async () => {
+            const pipeline = new RulePipeline([{name: 'seasonal', rules}]);
+            const asOf = new Date('2024-11-15T00:00:00Z');
 
-            expect(updatedUser.name).toBe('Updated Target User');
+            const previews = await rulesEngine.previewRules(rules, 'users_results', {asOf});
+            const report = await rulesEngine.applyPipeline(pipeline, 'users_results', {asOf});
+
+            expect(previews.map(preview => [preview.ruleName, preview.skipReason])).toEqual([
+                ['always', undefined],
+                ['disabled', 'Rule is disabled'],
+                ['november', undefined],
+            ]);
+            expect(activation(report.stages[0]).map(([, status]) => status)).toEqual(['applied', 'skipped-disabled', 'applied']);
         });
+    });
 
-        it('should return 0 when no rules match any records', async () => {
-            const rule = MatchRuleFactory.create({
-                ruleName: 'update-nonexistent',
-                match: {email: 'nonexistent@example.com'},
-                apply: {name: 'Should Not Update'}
+    describe('fixpoint mode', () => {
+        // "grant-permissions" runs first, but matches the role that "promote-j" sets afterwards
+        const chainedRules = MatchRuleFactory.createRules([
+            {ruleName: 'grant-permissions', priority: 1, match: {role: 'admin'}, apply: {status: 'all-permissions'}},
+            {ruleName: 'promote-j', priority: 2, match: {email: '^j'}, apply: {role: 'admin'}},
+        ]);
+
+        const selectUsers = (): Promise<Record<string, unknown>[]> => db.selectFrom('users_results')
+            .select(['email', 'role', 'status', 'applied_rules'])
+            .orderBy('email').execute()
+            .then((users: Record<string, unknown>[]) => users.map(user => ({
+                ...user,
+                applied_rules: typeof user.applied_rules === 'string' ? JSON.parse(user.applied_rules) : user.applied_rules,
+            })));
+
+        it('should miss chained rules in a single pass', async () => {
+            const report = await rulesEngine.applyRules(chainedRules, 'users_results');
+
+            expect(report.fixpoint).toBeUndefined();
+            expect((await selectUsers()).filter(u => u.status === 'all-permissions')).toHaveLength(0);
+        });
+
+        it('should re-run the rules until nothing changes', async () => {
+            const report = await rulesEngine.applyRules(chainedRules, 'users_results', {fixpoint: {}});
+
+            expect(report.fixpoint).toEqual({
+                iterations: 3,
+                converged: true,
+                iterationAffectedRows: [2, 2, 0],
+                unstableRules: [],
             });
+            expect(report.rules.map(r => [r.ruleName, r.status, r.affectedRows])).toEqual([
+                ['grant-permissions', 'applied', 2],
+                ['promote-j', 'applied', 2],
+            ]);
+            expect(report.totalAffectedRows).toBe(4);
+            expect((await selectUsers()).filter(u => u.role === 'admin')).toEqual([
+                {email: 'jane@example.com', role: 'admin', status: 'all-permissions', applied_rules: ['promote-j', 'grant-permissions']},
+                {email: 'john@example.com', role: 'admin', status: 'all-permissions', applied_rules: ['promote-j', 'grant-permissions']},
+            ]);
+        });
 
-            const affectedRows = await rulesEngine.applyRules([rule], 'users_results');
+        it('should track rules that match without changing values once', async () => {
+            await db.updateTable('users_results').set({role: 'admin'}).where('email', '=', 'john@example.com').execute();
 
-            expect(affectedRows).toBe(0);
+            const report = await rulesEngine.applyRules(chainedRules, 'users_results', {fixpoint: {}});
 
-            // Verify no users were changed
-            const allUsers = await db
-                .selectFrom('users_results')
-                .selectAll()
-                .execute();
+            expect(report.fixpoint?.converged).toBe(true);
+            const john = (await selectUsers()).find(u => u.email === 'john@example.com');
+            expect(john?.applied_rules).toEqual(['grant-permissions', 'promote-j']);
+        });
 
-            expect(allUsers).toHaveLength(4);
-            // @ts-ignore
-            expect(allUsers.every((u: User) => !u.name.includes('Should Not Update'))).toBe(true);
+        it('should report rules that undo each other as unstable', async () => {
+            const rules = MatchRuleFactory.createRules([
+                {ruleName: 'to-on', priority: 1, match: {email: '^john', status: {not: 'on'}}, apply: {status: 'on'}},
+                {ruleName: 'to-off', priority: 2, match: {status: 'on'}, apply: {status: 'off'}},
+                {ruleName: 'stable', priority: 3, match: {email: '^bob'}, apply: {role: 'bob'}},
+            ]);
+
+            const report = await rulesEngine.applyRules(rules, 'users_results', {fixpoint: {maxIterations: 4}});
+
+            expect(report.fixpoint).toEqual({
+                iterations: 4,
+                converged: false,
+                iterationAffectedRows: [3, 2, 2, 2],
+                unstableRules: ['to-on', 'to-off'],
+            });
+            const john = (await selectUsers()).find(u => u.email === 'john@example.com');
+            expect(john?.applied_rules).toEqual(['to-on', 'to-off']);
         });
 
-        it('should return 0 when given an empty rules array', async () => {
-            const affectedRows = await rulesEngine.applyRules([], 'users_results');
+        it('should report the rules of a chain that needs more passes as unstable', async () => {
+            const report = await rulesEngine.applyRules(chainedRules, 'users_results', {fixpoint: {maxIterations: 2}});
 
-            expect(affectedRows).toBe(0);
+            expect(report.fixpoint).toEqual({
+                iterations: 2,
+                converged: false,
+                iterationAffectedRows: [2, 2],
+                unstableRules: ['grant-permissions'],
+            });
         });
 
-        it('should skip rules with empty apply objects', async () => {
-            const rules = MatchRuleFactory.createRules([
+        it('should reject an invalid maximum number of passes', async () => {
+            await expect(rulesEngine.applyRules(chainedRules, 'users_results', {fixpoint: {maxIterations: 0}}))
+                .rejects.toThrow('fixpoint.maxIterations must be a positive integer');
+        });
+
+        it('should report the passes of every pipeline stage', async () => {
+            const pipeline = new RulePipeline([
+                {name: 'chained', rules: chainedRules},
                 {
-                    ruleName: 'empty-apply',
-                    match: {email: 'john@example.com'},
-                    apply: {}
+                    name: 'flag',
+                    rules: MatchRuleFactory.createRules([
+                        {ruleName: 'flag-admins', match: {status: 'all-permissions'}, apply: {name: 'Admin'}},
+                    ]),
                 },
+            ]);
+
+            const report = await rulesEngine.applyPipeline(pipeline, 'users_results', {fixpoint: {maxIterations: 5}});
+
+            expect(report.stages.map(stage => stage.fixpoint?.iterationAffectedRows)).toEqual([[2, 2, 0], [2, 0]]);
+            expect(report.fixpoint).toBeUndefined();
+        });
+    });
+
+    describe('applyPipeline', () => {
+        const selectUsers = (): Promise<Pick<User, 'email' | 'role' | 'status'>[]> => db.selectFrom('users_results')
+            .select(['email', 'role', 'status']).orderBy('email').execute();
+
+        it('should apply stages in order with priorities of their own and report every stage', async () => {
+            const pipeline = new RulePipeline([
                 {
-                    ruleName: 'valid-rule',
-                    match: {email: 'jane@example.com'},
-                    apply: {name: 'Jane Updated'}
+                    name: 'normalise',
+                    rules: MatchRuleFactory.createRules([
+                        {ruleName: 'all-active', priority: 5, match: {email: '@'}, apply: {status: 'active'}},
+                    ]),
+                },
+                {
+                    name: 'categorise',
+                    rules: MatchRuleFactory.createRules([
+                        {ruleName: 'j-staff', priority: 2, match: {email: '^j'}, apply: {role: 'staff'}},
+                        {ruleName: 'active-members', priority: 1, match: {status: 'active'}, apply: {role: 'member'}},
+                    ]),
                 },
             ]);
 
-            const affectedRows = await rulesEngine.applyRules(rules, 'users_results');
+            const report = await rulesEngine.applyPipeline(pipeline, 'users_results');
 
-            expect(affectedRows).toBe(1); // Only the valid rule should be applied
+            expect(report.stages.map(stage => [stage.stageName, stage.committed, stage.rules.map(r => [r.ruleName, r.affectedRows])])).toEqual([
+                ['normalise', true, [['all-active', 4]]],
+                ['categorise', true, [['active-members', 4], ['j-staff', 2]]],
+            ]);
+            expect(report.rules.map(r => r.ruleName)).toEqual(['all-active', 'active-members', 'j-staff']);
+            expect(report.totalAffectedRows).toBe(10);
+            expect(report.appliedRules).toBe(3);
+            expect((await selectUsers()).map(u => u.role)).toEqual(['member', 'member', 'staff', 'staff']);
+        });
 
-            // Verify only Jane was updated
-            const john = await db
-                .selectFrom('users_results')
-                .selectAll()
-                .where('email', '=', 'john@example.com')
-                .executeTakeFirst();
+        it('should stop processing other rules only within the stage', async () => {
+            const pipeline = new RulePipeline([
+                {
+                    name: 'first',
+                    rules: MatchRuleFactory.createRules([
+                        {ruleName: 'john-first', priority: 1, match: {email: '^john'}, apply: {status: 'john'}, stopProcessingOtherRules: true},
+                        {ruleName: 'others', priority: 2, match: {email: '@'}, apply: {status: 'other'}},
+                    ]),
+                },
+                {
+                    name: 'second',
+                    rules: MatchRuleFactory.createRules([
+                        {ruleName: 'everyone', match: {email: '@'}, apply: {role: 'checked'}},
+                    ]),
+                },
+            ]);
 
-            const jane = await db
-                .selectFrom('users_results')
-                .selectAll()
-                .where('email', '=', 'jane@example.com')
-                .executeTakeFirst();
+            const report = await rulesEngine.applyPipeline(pipeline, 'users_results');
 
-            expect(john.name).toBe('John Doe'); // Unchanged
-            expect(jane.name).toBe('Jane Updated'); // Changed
+            expect(report.stages.map(stage => stage.totalAffectedRows)).toEqual([4, 4]);
+            expect(await selectUsers()).toEqual([
+                {email: 'alice@example.com', role: 'checked', status: 'other'},
+                {email: 'bob@example.com', role: 'checked', status: 'other'},
+                {email: 'jane@example.com', role: 'checked', status: 'other'},
+                {email: 'john@example.com', role: 'checked', status: 'john'},
+            ]);
         });
 
-        it('should handle rules that update multiple fields', async () => {
-            const rule = MatchRuleFactory.create({
-                ruleName: 'update-multiple-fields',
-                match: {email: 'alice@example.com'},
-                apply: {
-                    name: 'Alice Updated',
-                    email: 'alice.updated@example.com'
-                }
-            });
+        it('should run the hooks of a stage around its rules', async () => {
+            const calls: string[] = [];
+            const pipeline = new RulePipeline([
+                {
+                    name: 'flag',
+                    before: async (trx, tableName) => {
+                        calls.push(`before ${tableName}`);
+                        await trx.updateTable(tableName).set({status: 'new'}).execute();
+                    },
+                    rules: MatchRuleFactory.createRules([
+                        {ruleName: 'flag-new', match: {status: 'new', email: '^a'}, apply: {role: 'flagged'}},
+                    ]),
+                    after: async (trx, tableName) => {
+                        const flagged = await trx.selectFrom(tableName).select('email').where('role', '=', 'flagged').execute();
+                        calls.push(`after ${flagged.length}`);
+                    },
+                },
+            ]);
 
-            const affectedRows = await rulesEngine.applyRules([rule], 'users_results');
+            await rulesEngine.applyPipeline(pipeline, 'users_results');
 
-            expect(affectedRows).toBe(1);
+            expect(calls).toEqual(['before users_results', 'after 1']);
+        });
 
-            // Verify both fields were updated
-            const updatedUser = await db
-                .selectFrom('users_results')
-                .selectAll()
-                .where('email', '=', 'alice.updated@example.com')
-                .executeTakeFirst();
+        const failingPipeline = (transaction: 'pipeline' | 'stage') => new RulePipeline([
+            {
+                name: 'normalise',
+                rules: MatchRuleFactory.createRules([
+                    {ruleName: 'all-active', match: {email: '@'}, apply: {status: 'active'}},
+                ]),
+            },
+            {
+                name: 'categorise',
+                rules: MatchRuleFactory.createRules([
+                    // passes validation, but violates the NOT NULL constraint
+                    {ruleName: 'broken-rule', match: {email: '^john'}, apply: {name: null}},
+                ]),
+            },
+            {
+                name: 'flag',
+                rules: MatchRuleFactory.createRules([
+                    {ruleName: 'never-executed', match: {email: '@'}, apply: {role: 'flagged'}},
+                ]),
+            },
+        ], {transaction});
+
+        it('should roll back all stages in the pipeline transaction mode', async () => {
+            const error = await rulesEngine.applyPipeline(failingPipeline('pipeline'), 'users_results').catch(e => e);
+
+            expect(error).toBeInstanceOf(RulesExecutionError);
+            expect(error.message).toContain('Stage "categorise" failed: Rule "broken-rule" failed');
+            expect(error.report.stages.map((stage: StageExecutionReport) => [stage.stageName, stage.committed, stage.failedRules])).toEqual([
+                ['normalise', false, 0],
+                ['categorise', false, 1],
+            ]);
+            expect(error.report.failedRules).toBe(1);
+            expect((await selectUsers()).every(u => u.status === null)).toBe(true);
+        });
 
-            expect(updatedUser).toBeDefined();
-            expect(updatedUser.name).toBe('Alice Updated');
-            expect(updatedUser.email).toBe('alice.updated@example.com');
+        it('should keep committed stages in the stage transaction mode', async () => {
+            const error = await rulesEngine.applyPipeline(failingPipeline('stage'), 'users_results').catch(e => e);
+
+            expect(error).toBeInstanceOf(RulesExecutionError);
+            expect(error.report.stages.map((stage: StageExecutionReport) => [stage.stageName, stage.committed])).toEqual([
+                ['normalise', true],
+                ['categorise', false],
+            ]);
+            expect((await selectUsers()).map(u => [u.status, u.role])).toEqual(Array(4).fill(['active', 'guest']));
         });
 
-        it('should maintain transaction integrity on error', async () => {
-            // Do not write this test.
+        it('should report the stage a transaction could not be started for', async () => {
+            const connectionError = new Error('connection lost');
+            const failedTransaction = {execute: () => Promise.reject(connectionError)};
+            const realTransaction = db.transaction.bind(db);
+            const transaction = jest.spyOn(db, 'transaction');
+
+            transaction.mockReturnValueOnce(failedTransaction);
+            const pipelineError = await rulesEngine.applyPipeline(failingPipeline('pipeline'), 'users_results').catch(e => e);
+
+            transaction.mockImplementationOnce(realTransaction).mockReturnValueOnce(failedTransaction);
+            const stageError = await rulesEngine.applyPipeline(failingPipeline('stage'), 'users_results').catch(e => e);
+            transaction.mockRestore();
+
+            expect(pipelineError.message).toBe('Stage "normalise" failed: connection lost');
+            expect(pipelineError.cause).toBe(connectionError);
+            expect(pipelineError.report.stages).toEqual([]);
+            expect(stageError.message).toBe('Stage "categorise" failed: connection lost');
+            expect(stageError.report.stages.map((stage: StageExecutionReport) => [stage.stageName, stage.committed])).toEqual([['normalise', true]]);
         });
 
-        it('should apply rules in priority order (lower priority first)', async () => {
-            // Jane will be updated twice, but the lower priority rule should apply first
-            const rules = MatchRuleFactory.createRules([
-                {
-                    ruleName: 'priority-2',
-                    match: {email: 'jane@example.com'},
-                    apply: {name: 'Jane Priority 2'},
-                    priority: 2
-                },
-                {
-                    ruleName: 'priority-0',
-                    match: {email: 'jane@example.com'},
-                    apply: {name: 'Jane Priority 0'},
-                    priority: 0
-                },
+        it('should report failed hooks with the original error as cause', async () => {
+            const hookError = new Error('hook exploded');
+            const pipeline = new RulePipeline([
                 {
-                    ruleName: 'priority-1',
-                    match: {email: 'jane@example.com'},
-                    apply: {name: 'Jane Priority 1'},
-                    priority: 1
+                    name: 'normalise',
+                    rules: MatchRuleFactory.createRules([
+                        {ruleName: 'all-active', match: {email: '@'}, apply: {status: 'active'}},
+                    ]),
+                    after: async () => {
+                        throw hookError;
+                    },
                 },
             ]);
-            await rulesEngine.applyRules(rules, 'users_results');
-            const updatedUser = await db
-                .selectFrom('users_results')
-                .selectAll()
-                .where('email', '=', 'jane@example.com')
-                .executeTakeFirst();
-            expect(updatedUser.name).toBe('Jane Priority 2'); // Last rule applied (highest priority number)
+
+            const error = await rulesEngine.applyPipeline(pipeline, 'users_results').catch(e => e);
+
+            expect(error).toBeInstanceOf(RulesExecutionError);
+            expect(error.message).toBe('Stage "normalise" failed: after hook failed: hook exploded');
+            expect(error.cause).toBe(hookError);
+            expect(error.report.stages[0].rules.map((r: RuleExecutionResult) => [r.ruleName, r.affectedRows])).toEqual([['all-active', 4]]);
+            expect((await selectUsers()).every(u => u.status === null)).toBe(true);
         });
 
-        it('should default priority to 0 if not specified', async () => {
-            const rules = MatchRuleFactory.createRules([
+        it('should validate the rules of all stages before the first stage', async () => {
+            const pipeline = new RulePipeline([
                 {
-                    ruleName: 'default-priority',
-                    match: {email: 'bob@example.com'},
-                    apply: {name: 'Bob Default Priority'}
+                    name: 'normalise',
+                    rules: MatchRuleFactory.createRules([
+                        {ruleName: 'all-active', match: {email: '@'}, apply: {status: 'active'}},
+                    ]),
                 },
                 {
-                    ruleName: 'explicit-priority-1',
-                    match: {email: 'bob@example.com'},
-                    apply: {name: 'Bob Priority 1'},
-                    priority: 1
+                    name: 'categorise',
+                    rules: MatchRuleFactory.createRules([
+                        {ruleName: 'unknown-column', match: {email: '@'}, apply: {nickname: 'x'}},
+                    ]),
                 },
-            ]);
+            ], {transaction: 'stage'});
+
+            await expect(rulesEngine.applyPipeline(pipeline, 'users_results')).rejects.toThrow(RuleValidationError);
+            expect((await selectUsers()).every(u => u.status === null)).toBe(true);
+        });
+    });
+
+    describe('getCoverageReport', () => {
+        const rules = MatchRuleFactory.createRules([
+            {ruleName: 'j-users', priority: 1, match: {email: '^j'}, apply: {status: 'j'}},
+            {ruleName: 'john', priority: 2, match: {email: '^john'}, apply: {role: 'john'}},
+            {ruleName: 'nobody', priority: 3, match: {email: '^nobody'}, apply: {status: 'nobody'}},
+        ]);
+
+        it('should report unmatched rows, rows per rule and dead rules', async () => {
             await rulesEngine.applyRules(rules, 'users_results');
-            const updatedUser = await db
-                .selectFrom('users_results')
-                .selectAll()
-                .where('email', '=', 'bob@example.com')
-                .executeTakeFirst();
-            expect(updatedUser.name).toBe('Bob Priority 1'); // Last rule applied (priority 1)
+
+            const report = await rulesEngine.getCoverageReport(rules, 'users_results', {sampleSize: 1});
+
+            expect(report).toMatchObject({
+                totalRows: 4,
+                matchedRows: 2,
+                unmatchedRows: 2,
+                rowCoverage: 0.5,
+                rules: [
+                    {ruleName: 'j-users', matchedRows: 2, rowShare: 0.5},
+                    {ruleName: 'john', matchedRows: 1, rowShare: 0.25},
+                    {ruleName: 'nobody', matchedRows: 0, rowShare: 0},
+                ],
+                deadRules: ['nobody'],
+                skippedRules: [],
+                rulesPerRow: {0: 2, 1: 1, 2: 1},
+                thresholdViolations: [],
+                passed: true,
+            });
+            expect(report.unmatchedSamples).toEqual([expect.objectContaining({email: 'bob@example.com'})]);
+        });
+
+        it('should report exceeded thresholds', async () => {
+            await rulesEngine.applyRules(rules, 'users_results');
+
+            const report = await rulesEngine.getCoverageReport(rules, 'users_results', {
+                thresholds: {minRowCoverage: 0.9, maxUnmatchedRows: 0, maxDeadRules: 0}
+            });
+
+            expect(report.passed).toBe(false);
+            expect(report.thresholdViolations).toEqual([
+                'Row coverage 50.0% is below the minimum of 90.0%',
+                '2 unmatched rows exceed the maximum of 0',
+                '1 dead rules exceed the maximum of 0: nobody',
+            ]);
+        });
+
+        it('should report rules skipped as of the given date separately from dead rules', async () => {
+            const seasonalRules = MatchRuleFactory.createRules([
+                ...rules,
+                {ruleName: 'disabled', priority: 4, match: {email: '@'}, apply: {status: 'disabled'}, enabled: false},
+                {ruleName: 'november', priority: 5, match: {email: '@'}, apply: {role: 'sale'}, validFrom: '2024-11-01', validTo: '2024-12-01'},
+            ]);
+            const asOf = new Date('2024-12-15T00:00:00Z');
+            await rulesEngine.applyRules(seasonalRules, 'users_results', {asOf});
+
+            const report = await rulesEngine.getCoverageReport(seasonalRules, 'users_results', {asOf, thresholds: {maxDeadRules: 1}});
+
+            expect(report.deadRules).toEqual(['nobody']);
+            expect(report.skippedRules).toEqual(['disabled', 'november']);
+            expect(report.passed).toBe(true);
+            expect((await rulesEngine.getCoverageReport(seasonalRules, 'users_results', {asOf: new Date('2024-11-15T00:00:00Z')})).deadRules)
+                .toEqual(['nobody', 'november']);
+        });
+
+        it('should require applied rules tracking', async () => {
+            const service = new RulesExecutionService(db, {appliedRulesField: false});
+
+            await expect(service.getCoverageReport(rules, 'users_results'))
+                .rejects.toThrow('Applied rules tracking is turned off. Set the appliedRulesField option to use getCoverageReport.');
         });
     });
 
@@ -433,8 +1914,8 @@ describe('PgRulesEngine', () => {
             ]);
 
             // Apply both rules in a single transaction
-            const affectedRows = await rulesEngine.applyRules(rules, 'users_results');
-            expect(affectedRows).toBe(2);
+            const report = await rulesEngine.applyRules(rules, 'users_results');
+            expect(report.totalAffectedRows).toBe(2);
 
             // Verify both rules were tracked
             const johnUsers = await rulesEngine.getRowsWithAppliedRules('users_results', {email: 'john@example.com'});
@@ -456,8 +1937,8 @@ describe('PgRulesEngine', () => {
                 apply: {name: 'Alice No Tracking'}
             });
 
-            const affectedRows = await basicEngine.applyRules([rule], 'users_results');
-            expect(affectedRows).toBe(1);
+            const report = await basicEngine.applyRules([rule], 'users_results');
+            expect(report.totalAffectedRows).toBe(1);
 
             // Verify the rule was applied but no tracking occurred
             const user = await db
@@ -498,9 +1979,9 @@ describe('PgRulesEngine', () => {
                 }
             ])[0];
 
-            const affectedRows = await rulesEngine.applyRules([rule], 'users_results');
+            const report = await rulesEngine.applyRules([rule], 'users_results');
 
-            expect(affectedRows).toBe(2); // Should match 2 users (admin and moderator)
+            expect(report.totalAffectedRows).toBe(2); // Should match 2 users (admin and moderator)
 
             // Verify only the matching users were updated
             const updatedUsers = await db
@@ -523,9 +2004,9 @@ describe('PgRulesEngine', () => {
                 }
             ])[0];
 
-            const affectedRows = await rulesEngine.applyRules([rule], 'users_results');
+            const report = await rulesEngine.applyRules([rule], 'users_results');
 
-            expect(affectedRows).toBe(1); // Should match exactly one user
+            expect(report.totalAffectedRows).toBe(1); // Should match exactly one user
 
             const updatedUser = await db
                 .selectFrom('users_results')
@@ -550,9 +2031,9 @@ describe('PgRulesEngine', () => {
                 }
             ])[0];
 
-            const affectedRows = await rulesEngine.applyRules([rule], 'users_results');
+            const report = await rulesEngine.applyRules([rule], 'users_results');
 
-            expect(affectedRows).toBe(2); // Should match 2 users (active and pending)
+            expect(report.totalAffectedRows).toBe(2); // Should match 2 users (active and pending)
 
             const updatedUsers = await db
                 .selectFrom('users_results')
@@ -578,9 +2059,9 @@ describe('PgRulesEngine', () => {
                 }
             ])[0];
 
-            const affectedRows = await rulesEngine.applyRules([rule], 'users_results');
+            const report = await rulesEngine.applyRules([rule], 'users_results');
 
-            expect(affectedRows).toBe(1); // Should match only one user (exact case)
+            expect(report.totalAffectedRows).toBe(1); // Should match only one user (exact case)
 
             const updatedUser = await db
                 .selectFrom('users_results')
@@ -608,9 +2089,9 @@ describe('PgRulesEngine', () => {
                 }
             ])[0];
 
-            const affectedRows = await rulesEngine.applyRules([rule], 'users_results');
+            const report = await rulesEngine.applyRules([rule], 'users_results');
 
-            expect(affectedRows).toBe(2); // Should match 2 users with age=25 AND isVerified=true
+            expect(report.totalAffectedRows).toBe(2); // Should match 2 users with age=25 AND isVerified=true
 
             const updatedUsers = await db
                 .selectFrom('users_results')
@@ -639,9 +2120,9 @@ describe('PgRulesEngine', () => {
                 }
             ])[0];
 
-            const affectedRows = await rulesEngine.applyRules([rule], 'users_results');
+            const report = await rulesEngine.applyRules([rule], 'users_results');
 
-            expect(affectedRows).toBe(2); // Should match users with (admin OR user) AND priority=1
+            expect(report.totalAffectedRows).toBe(2); // Should match users with (admin OR user) AND priority=1
 
             const updatedUsers = await db
                 .selectFrom('users_results')
@@ -663,9 +2144,9 @@ describe('PgRulesEngine', () => {
                 }
             ])[0];
 
-            const affectedRows = await rulesEngine.applyRules([rule], 'users_results');
+            const report = await rulesEngine.applyRules([rule], 'users_results');
 
-            expect(affectedRows).toBe(0);
+            expect(report.totalAffectedRows).toBe(0);
 
             // Verify no users were updated
             const updatedUsers = await db
@@ -687,9 +2168,9 @@ describe('PgRulesEngine', () => {
                 }
             ])[0];
 
-            const affectedRows = await rulesEngine.applyRules([rule], 'users_results');
+            const report = await rulesEngine.applyRules([rule], 'users_results');
 
-            expect(affectedRows).toBe(1);
+            expect(report.totalAffectedRows).toBe(1);
 
             const updatedUser = await db
                 .selectFrom('users_results')
@@ -715,9 +2196,9 @@ describe('PgRulesEngine', () => {
                 }
             ])[0];
 
-            const affectedRows = await rulesEngine.applyRules([rule], 'users_results');
+            const report = await rulesEngine.applyRules([rule], 'users_results');
 
-            expect(affectedRows).toBe(4); // Should match all phone numbers containing 555 and 123
+            expect(report.totalAffectedRows).toBe(4); // Should match all phone numbers containing 555 and 123
 
             const updatedUsers = await db
                 .selectFrom('users_results')
@@ -727,5 +2208,52 @@ describe('PgRulesEngine', () => {
 
             expect(updatedUsers).toHaveLength(4);
         });
+
+        describe('regex options', () => {
+            beforeEach(async () => {
+                await db.updateTable('users_results').set({status: 'Groceries and food'}).where('email', '=', 'john@example.com').execute();
+                await db.updateTable('users_results').set({status: 'groceries'}).where('email', '=', 'jane@example.com').execute();
+                await db.updateTable('users_results').set({status: 'supergroceries'}).where('email', '=', 'bob@example.com').execute();
+            });
+
+            it('should match patterns case-sensitively by default', async () => {
+                expect(await applyAndGetEmails({status: {pattern: '^groceries'}})).toEqual(['jane@example.com']);
+            });
+
+            it('should ignore case with caseInsensitive', async () => {
+                expect(await applyAndGetEmails({status: {pattern: '^groceries', caseInsensitive: true}}))
+                    .toEqual(['jane@example.com', 'john@example.com']);
+            });
+
+            it('should match whole words only with wholeWord', async () => {
+                expect(await applyAndGetEmails({status: {pattern: 'groceries|food', wholeWord: true, caseInsensitive: true}}))
+                    .toEqual(['jane@example.com', 'john@example.com']);
+            });
+
+            it('should escape regex metacharacters with literal', async () => {
+                await db.updateTable('users_results').set({phone: '555.123'}).where('email', '=', 'john@example.com').execute();
+                await db.updateTable('users_results').set({phone: '5551123'}).where('email', '=', 'jane@example.com').execute();
+
+                expect(await applyAndGetEmails({phone: {pattern: '555.1', literal: true}})).toEqual(['john@example.com']);
+            });
+
+            it('should match parentheses literally', async () => {
+                await db.updateTable('users_results').set({phone: '(555) 123'}).where('email', '=', 'bob@example.com').execute();
+
+                expect(await applyAndGetEmails({phone: {pattern: '(555)', literal: true}})).toEqual(['bob@example.com']);
+            });
+
+            it('should combine literal and wholeWord', async () => {
+                expect(await applyAndGetEmails({name: {pattern: 'User T', literal: true, wholeWord: true}})).toEqual([]);
+                expect(await applyAndGetEmails({name: {pattern: 'Bob', literal: true, wholeWord: true}})).toEqual(['bob@example.com']);
+            });
+
+            it('should apply options to negated patterns', async () => {
+                expect(await applyAndGetEmails({
+                    email: '@example\\.com$',
+                    status: {not: 'GROCERIES', caseInsensitive: true, wholeWord: true}
+                })).toEqual(['alice@example.com', 'bob@example.com']);
+            });
+        });
     });
 });
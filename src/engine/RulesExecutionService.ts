@@ -1,163 +1,941 @@
-import {Kysely, sql} from 'kysely';
+import {randomUUID} from 'crypto';
+import {
+    ColumnDefinitionBuilder,
+    Expression,
+    ExpressionBuilder,
+    Kysely,
+    RawBuilder,
+    sql,
+    SqlBool
+} from 'kysely';
 import {MatchRule} from "@/entities/MatchRule";
+import {MatchConditionBuilder} from "@/engine/MatchConditionBuilder";
+import {ApplyValueBuilder} from "@/engine/ApplyValueBuilder";
+import {TableInspector} from "@/engine/TableInspector";
+import {IncrementalOptions, IncrementalSyncResult, RowScope} from "@/engine/IncrementalSync";
+import {ApplyRulesOptions} from "@/engine/ApplyRulesOptions";
+import {ColumnTypeMismatch, ResultsTableSchemaError, ResultsTableSchemaSync} from "@/engine/ResultsTableSchema";
+import {AppliedRulesStorage, RulesExecutionOptions} from "@/engine/RulesExecutionOptions";
+import {RuleSchemaValidator} from "@/engine/RuleSchemaValidator";
+import {RuleSchemaProblem, RuleValidationError} from "@/engine/RuleSchemaValidation";
+import {PreviewOptions, RulePreview} from "@/engine/RulePreview";
+import {RuleOverlapAnalyzer} from "@/engine/RuleOverlapAnalyzer";
+import {OverlapOptions, RuleOverlapReport} from "@/engine/RuleOverlapReport";
+import {CoverageOptions, CoverageReport} from "@/engine/CoverageReport";
+import {RulesDialect} from "@/engine/dialect/RulesDialect";
+import {RulesDialects} from "@/engine/dialect/RulesDialects";
+import {getSkipStatus, sortRules} from "@/engine/RuleSelection";
+import {RulePipeline, RuleStage} from "@/entities/RulePipeline";
+import {
+    createExecutionReport,
+    createPipelineReport,
+    PipelineExecutionReport,
+    RuleExecutionResult,
+    RulesExecutionError,
+    FixpointReport,
+    RulesExecutionReport,
+    StageExecutionReport
+} from "@/engine/RulesExecutionReport";
 
 /**
- * PostgreSQL based rule engine that applies match rules to database tables.
- * applyRules is the main method to apply multiple rules in a single transaction.
+ * Column of the results table that holds the hash of the copied source row, see syncResultsTable
+ */
+const SOURCE_ROW_HASH_COLUMN = 'source_row_hash';
+
+/**
+ * Rule engine that applies match rules to database tables, database specific SQL comes from a RulesDialect.
+ * applyRules is the main method to apply multiple rules in a single transaction,
+ * applyPipeline applies stages of rules one after another.
  * applyRules always applied given rules without considering previously applied rules.
  */
 export class RulesExecutionService {
 
     /**
-     * Additional field name in the target table to track applied rules.
-     * For example, appliedRulesField can be set to "applied_rules TEXT[]", then applied rule
-     * will be added to the JSON array in this field. Specified "appliedRules TEXT[]" must be a PostgreSQL TEXT array type.
-     *
-     * @private
+     * Column of the results table that tracks applied rules, false if tracking is turned off.
+     * The names of applied rules are appended to the array stored in this column.
      */
-    private appliedRulesField: string = "applied_rules";
+    private readonly appliedRulesField: string | false;
+
+    private readonly appliedRulesStorage: AppliedRulesStorage;
 
-    private readonly isPostgres: boolean;
+    private readonly resultsTableNamePattern: string;
+
+    private readonly schema?: string;
+
+    private readonly dialect: RulesDialect;
 
     private readonly db: Kysely<any>;
 
-    constructor(db: Kysely<any>) {
+    private readonly matchConditionBuilder: MatchConditionBuilder;
+
+    private readonly applyValueBuilder: ApplyValueBuilder;
+
+    private readonly tableInspector: TableInspector;
+
+    /**
+     * @param db Kysely database instance
+     * @param options Tracking column, results table naming and schema
+     */
+    constructor(db: Kysely<any>, options: RulesExecutionOptions = {}) {
         if (!db) {
             throw new Error('Database connection is required');
         }
-        this.db = db;
 
-        const adapterName = (db as any).getExecutor().adapter.constructor.name;
-        this.isPostgres = adapterName === 'PostgresAdapter';
-        if (!this.isPostgres) {
-            console.warn('Using regexp_like for string matching for ${adapterName}. This may affect performance.');
+        this.dialect = options.dialect ?? RulesDialects.forDatabase(db);
+        this.appliedRulesField = options.appliedRulesField ?? 'applied_rules';
+        this.appliedRulesStorage = options.appliedRulesStorage ?? 'jsonb';
+        this.resultsTableNamePattern = options.resultsTableName ?? '{table}_results';
+
+        if (this.appliedRulesField === '') {
+            throw new Error('appliedRulesField must be a non-empty column name or false');
+        }
+        if (!this.resultsTableNamePattern.includes('{table}')) {
+            throw new Error('resultsTableName must contain the "{table}" placeholder');
+        }
+        if (!this.dialect.supportsAppliedRulesStorage(this.appliedRulesStorage)) {
+            throw new Error(`appliedRulesStorage "${this.appliedRulesStorage}" is not supported by the ${this.dialect.name} dialect`);
+        }
+
+        this.schema = options.schema;
+        // The schema plugin qualifies tables of query builders, raw queries use qualifiedTable
+        this.db = options.schema ? db.withSchema(options.schema) : db;
+        this.matchConditionBuilder = new MatchConditionBuilder(this.dialect);
+        this.applyValueBuilder = new ApplyValueBuilder(this.dialect);
+        this.tableInspector = new TableInspector(db, this.dialect, options.schema);
+        // Services created with a transaction belong to a run whose service logged the notice already
+        if (this.dialect.usageNotice && !db.isTransaction) {
+            console.warn(this.dialect.usageNotice);
         }
     }
 
+    /**
+     * @returns Name of the results table of the target table, see RulesExecutionOptions.resultsTableName
+     */
+    getResultsTableName(targetTableName: string): string {
+        return this.resultsTableNamePattern.split('{table}').join(targetTableName);
+    }
+
+    /**
+     * Create or update the results table and replace its rows with a copy of the target table
+     * @returns Name of the results table
+     * @throws ResultsTableSchemaError if the results table has columns with a different type
+     */
     async resetResultsTableIfExists(targetTableName: string): Promise<string> {
-        const resultsTableName = `${targetTableName}_results`;
+        const resultsTableName = this.getResultsTableName(targetTableName);
 
-        // Use the proper data initialization method that handles identity columns
+        await this.ensureResultsTable(targetTableName);
         await this.initialiseResultsTableData(targetTableName, resultsTableName);
 
         return resultsTableName;
     }
 
+    /**
+     * Create the results table from the columns of the target table plus the applied rules tracking column,
+     * or add columns the target table gained since the results table was created.
+     * Nothing is changed if a column exists in both tables with a different type.
+     * @param incremental Options of incremental runs, adds the "source_row_hash" column syncResultsTable needs
+     *                    without a change column
+     * @throws ResultsTableSchemaError listing all columns with different types
+     */
+    async ensureResultsTable(targetTableName: string, incremental?: IncrementalOptions): Promise<ResultsTableSchemaSync> {
+        const resultsTableName = this.getResultsTableName(targetTableName);
+
+        const targetColumns = await this.tableInspector.getColumns(targetTableName);
+        if (targetColumns.length === 0) {
+            throw new Error(`Table "${targetTableName}" does not exist`);
+        }
+        const resultsColumns = await this.tableInspector.getColumns(resultsTableName);
+        const hashColumn = incremental && !incremental.changeColumn
+        && !targetColumns.some(column => column.name === SOURCE_ROW_HASH_COLUMN) ? SOURCE_ROW_HASH_COLUMN : undefined;
+
+        if (resultsColumns.length === 0) {
+            let createTable = this.db.schema.createTable(resultsTableName);
+            for (const column of targetColumns) {
+                createTable = createTable.addColumn(column.name, sql.raw(column.columnType));
+            }
+            if (this.appliedRulesField && !targetColumns.some(column => column.name === this.appliedRulesField)) {
+                createTable = createTable.addColumn(this.appliedRulesField, this.trackingColumnType(), col => this.trackingColumnDefault(col));
+            }
+            if (hashColumn) {
+                createTable = createTable.addColumn(hashColumn, 'text');
+            }
+            await createTable.execute();
+            return {resultsTableName, created: true, addedColumns: []};
+        }
+
+        const mismatches: ColumnTypeMismatch[] = [];
+        const missingColumns = targetColumns.filter(column => {
+            const resultsColumn = resultsColumns.find(candidate => candidate.name === column.name);
+            if (resultsColumn && resultsColumn.columnType.toLowerCase() !== column.columnType.toLowerCase()) {
+                mismatches.push({column: column.name, targetType: column.columnType, resultsType: resultsColumn.columnType});
+            }
+            return !resultsColumn;
+        });
+        if (mismatches.length > 0) {
+            throw new ResultsTableSchemaError(targetTableName, resultsTableName, mismatches);
+        }
+
+        for (const column of missingColumns) {
+            await this.db.schema.alterTable(resultsTableName)
+                .addColumn(column.name, sql.raw(column.columnType))
+                .execute();
+        }
+        if (this.appliedRulesField && !resultsColumns.some(column => column.name === this.appliedRulesField)) {
+            await this.db.schema.alterTable(resultsTableName)
+                .addColumn(this.appliedRulesField, this.trackingColumnType(), col => this.trackingColumnDefault(col))
+                .execute();
+        }
+        if (hashColumn && !resultsColumns.some(column => column.name === hashColumn)) {
+            await this.db.schema.alterTable(resultsTableName).addColumn(hashColumn, 'text').execute();
+        }
+
+        return {resultsTableName, created: false, addedColumns: missingColumns.map(column => column.name)};
+    }
+
+    private trackingColumnType(): RawBuilder<unknown> {
+        return this.dialect.appliedRulesType(this.appliedRulesStorage);
+    }
+
+    private trackingColumnDefault(col: ColumnDefinitionBuilder): ColumnDefinitionBuilder {
+        return col.defaultTo(this.emptyAppliedRules());
+    }
+
+    /**
+     * Empty array literal of the tracking column type
+     */
+    private emptyAppliedRules(): RawBuilder<unknown> {
+        return this.dialect.emptyAppliedRules(this.appliedRulesStorage);
+    }
+
     /**
      * Reset the results table and copy data from the original table.
+     * Keys are copied as well, so results rows can be joined with the target table.
      */
     private async initialiseResultsTableData(targetTableName: string, resultsTableName: string): Promise<void> {
-        await sql`TRUNCATE
-        ${sql.ref(resultsTableName)}`.execute(this.db);
-
-        if (this.isPostgres) {
-            // PostgreSQL: Exclude identity columns when copying data
-            // Get all non-identity columns from the source table
-            const sourceColumns = await sql<{ column_name: string }>`
-                SELECT column_name
-                FROM information_schema.columns
-                WHERE table_name = ${targetTableName}
-                  AND table_schema = current_schema()
-                  AND is_identity = 'NO'
-                ORDER BY ordinal_position
-            `.execute(this.db);
-
-            const columnNames = sourceColumns.rows.map(row => row.column_name);
-
-            // Insert data excluding identity columns (PostgreSQL will auto-generate IDs)
-            await this.db.insertInto(resultsTableName)
-                .columns(columnNames)
-                .expression(
-                    this.db.selectFrom(targetTableName).select(columnNames)
-                )
-                .execute();
-        } else {
-            // SQLite: Use the original approach (works fine with autoincrement)
-            await this.db.insertInto(resultsTableName).expression(
-                this.db.selectFrom(targetTableName).selectAll()
-            ).execute();
+        await this.dialect.truncate(this.qualifiedTable(resultsTableName)).execute(this.db);
+
+        const columnNames = (await this.tableInspector.getColumns(targetTableName)).map(column => column.name);
+        await this.copyRows(this.db, targetTableName, resultsTableName, columnNames, sql`TRUE`);
+    }
+
+    /**
+     * Incrementally synchronise the results table with the target table instead of copying all rows.
+     * New rows and rows whose change column differs are replaced by a fresh copy of the source row,
+     * rows that no longer exist in the target table are deleted.
+     * Without a change column, a hash of the source row is stored with the copy in the "source_row_hash" column,
+     * so rows changed by rules are not copied again. Rows copied by resetResultsTableIfExists have no hash and are
+     * copied again by the first incremental sync.
+     * The service must be created with a transaction and the returned scope passed to applyRules in that transaction,
+     * so the copies are only committed together with the results of the rules. Keys of the copied rows are kept in
+     * a temporary table of the run, drop it with releaseScope on the same connection once the transaction has ended.
+     * On MySQL call ensureResultsTable with the options before the transaction, DDL commits transactions there.
+     * @param targetTableName Name of the source table
+     * @param options Key column and change marker column
+     * @returns Counts of copied and deleted rows and the scope of the copied rows for applyRules
+     * @throws Error if the service was not created with a transaction
+     */
+    async syncResultsTable(targetTableName: string, options: IncrementalOptions): Promise<IncrementalSyncResult> {
+        if (!this.db.isTransaction) {
+            throw new Error('syncResultsTable must run in a transaction, create the RulesExecutionService with one');
         }
+        const resultsTableName = this.getResultsTableName(targetTableName);
+        const {keyColumn, changeColumn} = options;
+
+        const sourceColumns = await this.tableInspector.getColumns(targetTableName);
+        const key = sourceColumns.find(column => column.name === keyColumn);
+        if (!key) {
+            throw new Error(`Key column "${keyColumn}" does not exist in table "${targetTableName}"`);
+        }
+        if (changeColumn && !sourceColumns.some(column => column.name === changeColumn)) {
+            throw new Error(`Change column "${changeColumn}" does not exist in table "${targetTableName}"`);
+        }
+        const columnNames = sourceColumns.map(column => column.name);
+        const hashColumn = changeColumn ? undefined : SOURCE_ROW_HASH_COLUMN;
+        if (hashColumn && columnNames.includes(hashColumn)) {
+            throw new Error(`Table "${targetTableName}" has a "${hashColumn}" column, pass a change column instead`);
+        }
+        await this.ensureResultsTable(targetTableName, options);
+
+        // A temporary table per run, so concurrent runs never share keys.
+        // Unlike CREATE TABLE, it does not commit the transaction implicitly on MySQL.
+        const scope: RowScope = {keyColumn, keysTable: `${resultsTableName}_keys_${randomUUID().slice(0, 8)}`};
+        await sql`CREATE TEMPORARY TABLE ${sql.id(scope.keysTable)} (${sql.ref(keyColumn)} ${sql.raw(key.columnType)} PRIMARY KEY)`
+            .execute(this.db);
+
+        // Keys of new rows and rows whose compared columns differ from the results copy
+        const source = (column: string) => sql.ref(`source.${column}`);
+        const unchanged = changeColumn
+            ? this.dialect.isNotDistinctFrom(sql.ref(`result.${changeColumn}`), source(changeColumn))
+            : this.dialect.isNotDistinctFrom(sql.ref(`result.${hashColumn}`), this.dialect.rowHash(columnNames.map(source)));
+        await sql`
+            INSERT INTO ${sql.id(scope.keysTable)} (${sql.ref(keyColumn)})
+            SELECT ${source(keyColumn)}
+            FROM ${this.qualifiedTable(targetTableName)} AS source
+                     LEFT JOIN ${this.qualifiedTable(resultsTableName)} AS result ON ${sql.ref(`result.${keyColumn}`)} = ${source(keyColumn)}
+            WHERE ${source(keyColumn)} IS NOT NULL
+              AND (${sql.ref(`result.${keyColumn}`)} IS NULL OR NOT ${unchanged})
+        `.execute(this.db);
+
+        // Remove rows deleted from the source first, so they can not conflict with copied rows
+        const deleted = await this.db.deleteFrom(resultsTableName)
+            .where(eb => eb.not(eb.exists(eb.selectFrom(`${targetTableName} as source`)
+                .select(sql.lit(1).as('found'))
+                .whereRef(`source.${keyColumn}`, '=', `${resultsTableName}.${keyColumn}`))))
+            .executeTakeFirst();
+
+        await this.db.deleteFrom(resultsTableName)
+            .where(this.inScope(scope))
+            .execute();
+        const inserted = await this.copyRows(this.db, targetTableName, resultsTableName, columnNames, this.inScope(scope), hashColumn);
+
+        return {
+            resultsTableName,
+            changedRows: inserted,
+            deletedRows: Number(deleted.numDeletedRows),
+            scope,
+        };
     }
 
     /**
-     * Apply multiple rules to a target table's results copy in a single transaction
+     * Drop the keys table of a scope returned by syncResultsTable
+     * @param db Connection the scope was created on, temporary tables only exist there. Default is the service database.
+     */
+    async releaseScope(scope: RowScope, db: Kysely<any> = this.db): Promise<void> {
+        await sql`DROP TABLE IF EXISTS ${sql.id(scope.keysTable)}`.execute(db);
+    }
+
+    /**
+     * Condition for rows whose key is in the keys table of the scope
+     */
+    private inScope(scope: RowScope): RawBuilder<SqlBool> {
+        // The keys table is referenced without schema, temporary tables live in a schema of their own
+        return sql<SqlBool>`${sql.ref(scope.keyColumn)} IN (SELECT ${sql.ref(scope.keyColumn)} FROM ${sql.id(scope.keysTable)})`;
+    }
+
+    /**
+     * Copy rows including their keys, the dialect may require a clause to write identity columns
+     * @param hashColumn Column of the copy that receives the hash of the copied columns
+     * @returns Number of copied rows
+     */
+    private async copyRows(trx: Kysely<any>,
+                           fromTableName: string,
+                           toTableName: string,
+                           columnNames: string[],
+                           condition: RawBuilder<unknown>,
+                           hashColumn?: string): Promise<number> {
+        const columnRefs = columnNames.map(name => sql.ref(name));
+        const columns = sql.join(columnRefs);
+        const targetColumns = hashColumn ? sql.join([...columnRefs, sql.ref(hashColumn)]) : columns;
+        const values = hashColumn ? sql.join([...columnRefs, this.dialect.rowHash(columnRefs)]) : columns;
+        const overriding = this.dialect.identityInsertClause();
+        const result = await sql`
+            INSERT INTO ${this.qualifiedTable(toTableName)} (${targetColumns}) ${overriding}
+            SELECT ${values} FROM ${this.qualifiedTable(fromTableName)} WHERE ${condition}
+        `.execute(trx);
+        return Number(result.numAffectedRows ?? 0);
+    }
+
+    private qualifiedTable(tableName: string): RawBuilder<unknown> {
+        return this.schema ? sql`${sql.id(this.schema, tableName)}` : sql.table(tableName);
+    }
+
+    /**
+     * Apply multiple rules to a target table's results copy in a single transaction,
+     * or in the transaction the service was created with
      * @param rules Array of MatchRule objects to apply
      * @param resultsTableName Name of the table to apply rules to
-     * @returns Promise that resolves to the total number of affected rows
+     * @param options Optional scope that restricts the rows rules are applied to, fixpoint mode and "as of" date
+     * @returns Promise that resolves to a report with one entry per rule and run-level totals
+     * @throws RuleValidationError if the rules do not fit the columns of the table, nothing is changed then
+     * @throws RulesExecutionError if a rule fails, all changes are rolled back
      */
-    async applyRules<T>(rules: MatchRule<T>[], resultsTableName: string): Promise<number> {
+    async applyRules<T>(rules: MatchRule<T>[],
+                        resultsTableName: string,
+                        options: ApplyRulesOptions = {}): Promise<RulesExecutionReport> {
+        const startedAt = Date.now();
+        const results: RuleExecutionResult[] = [];
+
         if (!rules.length) {
-            return 0;
+            return createExecutionReport(results, 0);
         }
 
-        // Sort rules by priority (ascending)
-        const sortedRules = [...rules].sort((a, b) => a.priority - b.priority);
+        const sortedRules = sortRules(rules);
+        RulesExecutionService.assertValidFixpoint(options);
+        if (!options.validated) {
+            await this.assertValidRules(sortedRules, resultsTableName);
+        }
 
-        return await this.db.transaction().execute(async (trx) => {
-            let totalAffectedRows = 0;
+        const fixpoint = await this.inTransaction(trx =>
+            this.executeRules(trx, sortedRules, resultsTableName, results, startedAt, {...options, asOf: options.asOf ?? new Date(startedAt)})
+        );
 
-            for (const rule of sortedRules) {
-                // Build the update query
-                let query = trx.updateTable(resultsTableName);
+        return createExecutionReport(results, Date.now() - startedAt, fixpoint);
+    }
 
-                // Add SET clause from apply object
-                const applyEntries = Object.entries(rule.apply);
-                if (applyEntries.length === 0) {
-                    console.warn(`Rule "${rule.ruleName}" has no apply changes, skipping...`);
-                    continue; // Skip rules with no apply changes
-                }
+    /**
+     * Apply the stages of a pipeline one after another, see RulePipeline for the stage semantics.
+     * All rules are validated before the first stage, so invalid rules leave the table untouched.
+     * @param pipeline Stages and transaction mode of the run
+     * @param resultsTableName Name of the table to apply rules to
+     * @param options Optional scope that restricts the rows rules are applied to, fixpoint mode and "as of" date,
+     * used by all stages
+     * @returns Promise that resolves to a report per stage and run-level totals
+     * @throws RuleValidationError if the rules do not fit the columns of the table, nothing is changed then
+     * @throws RulesExecutionError with the pipeline report if a rule or hook fails. The failed stage is rolled back,
+     * earlier stages only in the "pipeline" transaction mode. If the service was created with a transaction,
+     * all stages run in that transaction.
+     */
+    async applyPipeline<T>(pipeline: RulePipeline<T>,
+                           resultsTableName: string,
+                           options: ApplyRulesOptions = {}): Promise<PipelineExecutionReport> {
+        const startedAt = Date.now();
+        const stages: StageExecutionReport[] = [];
 
-                // Start with the apply object changes
-                const updateObject: Record<string, any> = {...rule.apply};
-
-                // Add appliedRulesField tracking if configured
-                if (this.appliedRulesField) {
-                    if (this.isPostgres) {
-                        // PostgreSQL: Use jsonb operations with explicit type casting
-                        // @formatter:off
-                        /*language=TEXT*/
-                        updateObject[this.appliedRulesField] = sql`COALESCE(${sql.ref(this.appliedRulesField)}, '[]'::jsonb) || ${sql.val(JSON.stringify([rule.ruleName]))}::jsonb`;
-                        // @formatter:on
-                    } else {
-                        // SQLite: Use JSON_ARRAY_APPEND function (mocked in test setup)
-                        // @formatter:off
-                        /*language=TEXT*/
-                        updateObject[this.appliedRulesField] = sql`JSON_ARRAY_APPEND(COALESCE(${sql.ref(this.appliedRulesField)}, JSON_ARRAY()), '$', ${rule.ruleName})`;
-                        // @formatter:on
-                    }
-                }
+        RulesExecutionService.assertValidFixpoint(options);
+        if (!options.validated) {
+            await this.assertValidRules(pipeline.rules, resultsTableName);
+        }
+        // All stages check the activation windows against the same date
+        options = {...options, asOf: options.asOf ?? new Date(startedAt)};
+
+        // Set before a stage starts, so errors of the transaction itself are reported for the stage it was opened for
+        let currentStage = pipeline.stages[0].name;
+        const fail = (error: unknown): never => {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new RulesExecutionError(
+                `Stage "${currentStage}" failed: ${message}`,
+                createPipelineReport(stages, Date.now() - startedAt),
+                error instanceof RulesExecutionError ? error.cause : error
+            );
+        };
+
+        if (pipeline.transaction === 'stage') {
+            for (const stage of pipeline.stages) {
+                currentStage = stage.name;
+                await this.inTransaction(trx => this.executeStage(trx, stage, resultsTableName, stages, options))
+                    .catch(fail);
+                stages[stages.length - 1] = {...stages[stages.length - 1], committed: true};
+            }
+            return createPipelineReport(stages, Date.now() - startedAt);
+        }
+
+        await this.inTransaction(async (trx) => {
+            for (const stage of pipeline.stages) {
+                currentStage = stage.name;
+                await this.executeStage(trx, stage, resultsTableName, stages, options);
+            }
+        }).catch(fail);
+
+        return createPipelineReport(stages.map(stage => ({...stage, committed: true})), Date.now() - startedAt);
+    }
+
+    /**
+     * Run the callback in a new transaction, or in the transaction the service was created with
+     */
+    private async inTransaction<R>(callback: (trx: Kysely<any>) => Promise<R>): Promise<R> {
+        return this.db.isTransaction ? callback(this.db) : this.db.transaction().execute(callback);
+    }
 
-                query = query.set(updateObject);
+    /**
+     * Run the hooks and rules of a stage and add its report to the stage reports, also if it fails
+     * @throws RulesExecutionError if a rule or hook fails
+     */
+    private async executeStage<T>(trx: Kysely<any>,
+                                  stage: RuleStage<T>,
+                                  resultsTableName: string,
+                                  stages: StageExecutionReport[],
+                                  options: ApplyRulesOptions): Promise<void> {
+        const startedAt = Date.now();
+        const results: RuleExecutionResult[] = [];
+        let fixpoint: FixpointReport | undefined;
+        try {
+            await this.runStageHook(trx, stage, 'before', resultsTableName, results, startedAt);
+            fixpoint = await this.executeRules(trx, sortRules(stage.rules), resultsTableName, results, startedAt, options);
+            await this.runStageHook(trx, stage, 'after', resultsTableName, results, startedAt);
+        } finally {
+            stages.push({
+                ...createExecutionReport(results, Date.now() - startedAt, fixpoint),
+                stageName: stage.name,
+                committed: false,
+            });
+        }
+    }
+
+    /**
+     * @throws RulesExecutionError with the hook error as cause
+     */
+    private async runStageHook<T>(trx: Kysely<any>,
+                                  stage: RuleStage<T>,
+                                  hook: 'before' | 'after',
+                                  resultsTableName: string,
+                                  results: RuleExecutionResult[],
+                                  startedAt: number): Promise<void> {
+        try {
+            await stage[hook]?.(trx, resultsTableName);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new RulesExecutionError(
+                `${hook} hook failed: ${message}`,
+                createExecutionReport(results, Date.now() - startedAt),
+                error
+            );
+        }
+    }
+
+    /**
+     * @throws Error if the maximum number of fixpoint passes is not a positive integer
+     */
+    private static assertValidFixpoint(options: ApplyRulesOptions): void {
+        const maxIterations = options.fixpoint?.maxIterations;
+        if (maxIterations !== undefined && (!Number.isInteger(maxIterations) || maxIterations < 1)) {
+            throw new Error('fixpoint.maxIterations must be a positive integer');
+        }
+    }
 
-                const matchEntries = Object.entries(rule.match);
-                if (matchEntries.length === 0) {
-                    console.warn(`Rule "${rule.ruleName}" has no match conditions, skipping...`);
+    /**
+     * Execute sorted rules in the transaction and add a result per rule, in fixpoint mode until a pass changes nothing
+     * @returns Passes of the fixpoint mode, undefined for a single pass
+     * @throws RulesExecutionError if a rule fails, the report covers the results since startedAt
+     */
+    private async executeRules<T>(trx: Kysely<any>,
+                                  sortedRules: MatchRule<T>[],
+                                  resultsTableName: string,
+                                  results: RuleExecutionResult[],
+                                  startedAt: number,
+                                  options: ApplyRulesOptions): Promise<FixpointReport | undefined> {
+        if (!options.fixpoint) {
+            await this.executeRulePass(trx, sortedRules, resultsTableName, results, startedAt, false, options);
+            return undefined;
+        }
+
+        const maxIterations = options.fixpoint.maxIterations ?? 10;
+        const iterationAffectedRows: number[] = [];
+        let changingRules: string[] = [];
+
+        while (iterationAffectedRows.length < maxIterations) {
+            const pass: RuleExecutionResult[] = [];
+            try {
+                await this.executeRulePass(trx, sortedRules, resultsTableName, pass, startedAt, true, options);
+            } catch (error) {
+                RulesExecutionService.addPass(results, pass);
+                const {message, cause} = error as RulesExecutionError;
+                throw new RulesExecutionError(message, createExecutionReport(results, Date.now() - startedAt), cause);
+            }
+            RulesExecutionService.addPass(results, pass);
+
+            iterationAffectedRows.push(pass.reduce((total, rule) => total + rule.affectedRows, 0));
+            changingRules = pass.filter(rule => rule.affectedRows > 0).map(rule => rule.ruleName);
+            if (changingRules.length === 0) {
+                return {iterations: iterationAffectedRows.length, converged: true, iterationAffectedRows, unstableRules: []};
+            }
+        }
+
+        return {iterations: maxIterations, converged: false, iterationAffectedRows, unstableRules: changingRules};
+    }
+
+    /**
+     * Add the results of a fixpoint pass to the results of the earlier passes, rules are in the same order in every pass
+     */
+    private static addPass(results: RuleExecutionResult[], pass: RuleExecutionResult[]): void {
+        pass.forEach((result, index) => {
+            const previous = results[index];
+            results[index] = previous === undefined ? result : {
+                ...result,
+                affectedRows: previous.affectedRows + result.affectedRows,
+                durationMs: previous.durationMs + result.durationMs,
+            };
+        });
+    }
+
+    /**
+     * Execute every rule once and add a result per rule.
+     * stopProcessingOtherRules applies to the given rules only.
+     * @param onlyChanges Update only rows the rule changes, see buildChangesRow
+     * @param options Scope of the rows and "as of" date of the activation windows
+     * @throws RulesExecutionError if a rule fails, the report covers the results since startedAt
+     */
+    private async executeRulePass<T>(trx: Kysely<any>,
+                                     sortedRules: MatchRule<T>[],
+                                     resultsTableName: string,
+                                     results: RuleExecutionResult[],
+                                     startedAt: number,
+                                     onlyChanges: boolean,
+                                     options: ApplyRulesOptions): Promise<void> {
+        // Names of already executed rules that have stopProcessingOtherRules set
+        const stoppingRuleNames: string[] = [];
+
+        for (const rule of sortedRules) {
+            const ruleStartedAt = Date.now();
+
+            const skip = getSkipStatus(rule, options.asOf);
+            if (skip) {
+                results.push({
+                    ruleName: rule.ruleName,
+                    priority: rule.priority,
+                    status: skip.status,
+                    affectedRows: 0,
+                    durationMs: 0,
+                    skipReason: skip.reason,
+                });
+                continue;
+            }
+
+            try {
+                const result = await trx.updateTable(resultsTableName)
+                    .set(this.buildUpdateObject(rule, onlyChanges))
+                    .where(this.buildRuleCondition(rule, stoppingRuleNames, options.scope, onlyChanges))
+                    .execute();
+                this.registerStoppingRule(rule, stoppingRuleNames);
+
+                results.push({
+                    ruleName: rule.ruleName,
+                    priority: rule.priority,
+                    status: 'applied',
+                    // Kysely's execute() returns UpdateResult[], we need the first result's numUpdatedRows
+                    affectedRows: Number(result[0]?.numUpdatedRows || 0),
+                    durationMs: Date.now() - ruleStartedAt,
+                });
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                results.push({
+                    ruleName: rule.ruleName,
+                    priority: rule.priority,
+                    status: 'failed',
+                    affectedRows: 0,
+                    durationMs: Date.now() - ruleStartedAt,
+                    error: message,
+                });
+                throw new RulesExecutionError(
+                    `Rule "${rule.ruleName}" failed: ${message}`,
+                    createExecutionReport(results, Date.now() - startedAt),
+                    error
+                );
+            }
+        }
+    }
+
+    /**
+     * Run the rules like applyRules, but roll back all changes at the end.
+     * Rules are executed in priority order, so every rule sees the effects of the rules before it.
+     * @param rules Array of MatchRule objects to preview
+     * @param resultsTableName Name of the table to preview the rules on
+     * @param options Sample size and key column used to pair before and after rows
+     * @returns Promise that resolves to one preview per rule in execution order
+     * @throws RuleValidationError if the rules do not fit the columns of the table or the key column does not exist
+     */
+    async previewRules<T>(rules: MatchRule<T>[],
+                          resultsTableName: string,
+                          options: PreviewOptions = {}): Promise<RulePreview<T>[]> {
+        const sampleSize = options.sampleSize ?? 5;
+        const keyColumn = options.keyColumn ?? 'id';
+        const previews: RulePreview<T>[] = [];
+
+        await this.assertValidRules(rules, resultsTableName);
+        const columns = await this.tableInspector.getColumns(resultsTableName);
+        if (!columns.some(column => column.name === keyColumn)) {
+            throw new RuleValidationError(resultsTableName, rules.map(rule => ({
+                ruleName: rule.ruleName,
+                code: 'unknown-column',
+                path: 'keyColumn',
+                column: keyColumn,
+                message: `Rule "${rule.ruleName}" pairs its samples by unknown column "${keyColumn}" in keyColumn`,
+            })));
+        }
+
+        const trx = await this.db.startTransaction().execute();
+        try {
+            const stoppingRuleNames: string[] = [];
+
+            for (const rule of sortRules(rules)) {
+                const preview: RulePreview<T> = {
+                    ruleName: rule.ruleName,
+                    priority: rule.priority,
+                    matchedRows: 0,
+                    changedRows: 0,
+                    samples: [],
+                };
+                previews.push(preview);
+
+                const skip = getSkipStatus(rule, options.asOf);
+                if (skip) {
+                    preview.skipReason = skip.reason;
                     continue;
                 }
 
-                for (const [key, value] of matchEntries) {
-                    if (typeof value === 'string') {
-                        if (this.isPostgres) {
-                            query = query.where(sql.ref(key), '~', sql.val(value));
-                        } else {
-                            query = query.where(sql<boolean>`regexp_like(
-                            ${sql.ref(key)},
-                            ${sql.val(value)}
-                            )`)
-                        }
-                    } else {
-                        query = query.where(sql.ref(key), '=', value);
-                    }
+                const condition = this.buildRuleCondition(rule, stoppingRuleNames);
+
+                const matched = await trx.selectFrom(resultsTableName)
+                    .select(eb => eb.fn.countAll().as('count'))
+                    .where(condition)
+                    .executeTakeFirstOrThrow();
+                preview.matchedRows = Number(matched.count);
+
+                const changed = await trx.selectFrom(resultsTableName)
+                    .select(eb => eb.fn.countAll().as('count'))
+                    .where(condition)
+                    .where(eb => eb.not(this.matchConditionBuilder.buildValuesEqual(eb, this.applyValueBuilder.build(rule.apply))))
+                    .executeTakeFirstOrThrow();
+                preview.changedRows = Number(changed.count);
+
+                const before = sampleSize > 0 ? await trx.selectFrom(resultsTableName)
+                    .selectAll()
+                    .where(condition)
+                    .orderBy(sql.ref(keyColumn))
+                    .limit(sampleSize)
+                    .execute() : [];
+
+                await trx.updateTable(resultsTableName)
+                    .set(this.buildUpdateObject(rule))
+                    .where(condition)
+                    .execute();
+                this.registerStoppingRule(rule, stoppingRuleNames);
+
+                if (before.length > 0) {
+                    const after = await trx.selectFrom(resultsTableName)
+                        .selectAll()
+                        .where(sql.ref(keyColumn), 'in', before.map(row => row[keyColumn]))
+                        .execute();
+                    preview.samples = before.map(row => ({
+                        before: row as T,
+                        after: after.find(afterRow => afterRow[keyColumn] === row[keyColumn]) as T,
+                    }));
                 }
+            }
+        } finally {
+            await trx.rollback().execute();
+        }
 
-                // Execute the query and get affected row count
-                const result = await query.execute();
-                // Kysely's execute() returns UpdateResult[], we need the first result's numUpdatedRows
-                totalAffectedRows += Number(result[0]?.numUpdatedRows || 0);
+        return previews;
+    }
+
+    /**
+     * Find rules that write the same columns of the same rows and rules whose values are always overwritten.
+     * Rows are matched as they are in the table, nothing is changed.
+     * @param rules Rules to analyze, skipped rules are ignored
+     * @param tableName Name of the table the rules are matched against, e.g. the results table
+     * @param options "As of" date of the activation windows
+     * @returns Overlapping rule pairs with shared columns and overlap counts, and fully shadowed rules
+     * @throws RuleValidationError if the rules do not fit the columns of the table
+     */
+    async analyzeOverlaps<T>(rules: MatchRule<T>[], tableName: string, options: OverlapOptions = {}): Promise<RuleOverlapReport> {
+        await this.assertValidRules(rules, tableName);
+        const executableRules = sortRules(rules).filter(rule => !getSkipStatus(rule, options.asOf));
+        return new RuleOverlapAnalyzer(this.db, this.matchConditionBuilder).analyze(executableRules, tableName);
+    }
+
+    /**
+     * Check the rules against the live columns and types of the table without executing them
+     * @param rules Rules to check
+     * @param tableName Name of the table the rules would be applied to
+     * @param sourceTableName Table a results table was copied from. Results tables are created without identity columns,
+     *                        writes to the identity columns of the source table are reported as well.
+     * @returns Every problem of the whole rule set, an empty array if the rules can be executed
+     */
+    async validateRules<T>(rules: MatchRule<T>[], tableName: string, sourceTableName?: string): Promise<RuleSchemaProblem[]> {
+        let columns = await this.tableInspector.getColumns(tableName);
+        if (columns.length === 0) {
+            throw new Error(`Table "${tableName}" does not exist`);
+        }
+        if (sourceTableName) {
+            const identityColumns = (await this.tableInspector.getColumns(sourceTableName))
+                .filter(column => column.isIdentity)
+                .map(column => column.name);
+            columns = columns.map(column => identityColumns.includes(column.name) ? {...column, isIdentity: true} : column);
+        }
+        return new RuleSchemaValidator(columns, this.dialect.sequentialAssignments).validate(rules);
+    }
+
+    /**
+     * Check the rules like applyRules does before any data is changed
+     * @throws Error if a rule uses stopProcessingOtherRules while tracking is turned off
+     * @param sourceTableName Table a results table was copied from, see validateRules
+     * @throws RuleValidationError if validateRules reports problems
+     */
+    async assertValidRules<T>(rules: MatchRule<T>[], tableName: string, sourceTableName?: string): Promise<void> {
+        const stoppingRule = rules.find(rule => rule.stopProcessingOtherRules);
+        if (stoppingRule && !this.appliedRulesField) {
+            throw new Error(`Rule "${stoppingRule.ruleName}" uses stopProcessingOtherRules, which requires the appliedRulesField option`);
+        }
+        const problems = await this.validateRules(rules, tableName, sourceTableName);
+        if (problems.length > 0) {
+            throw new RuleValidationError(tableName, problems);
+        }
+    }
+
+    /**
+     * Build the SET clause from the apply object and add the applied rules tracking
+     * @param onceOnly Append the rule name only if the tracking column does not contain it yet
+     */
+    private buildUpdateObject<T>(rule: MatchRule<T>, onceOnly = false): Record<string, unknown> {
+        // Start with the apply object changes
+        const updateObject = this.applyValueBuilder.build(rule.apply);
+
+        // Add appliedRulesField tracking if configured
+        if (this.appliedRulesField) {
+            const appended = this.appendAppliedRule(this.appliedRulesField, rule.ruleName);
+            updateObject[this.appliedRulesField] = onceOnly
+                ? sql`CASE WHEN ${this.notAppliedAnyOf([rule.ruleName])} THEN ${appended} ELSE ${sql.ref(this.appliedRulesField)} END`
+                : appended;
+        }
+
+        return updateObject;
+    }
+
+    /**
+     * Expression that appends the rule name to the tracking column
+     */
+    private appendAppliedRule(field: string, ruleName: string): RawBuilder<unknown> {
+        return this.dialect.appendAppliedRule(sql.ref(field), ruleName, this.appliedRulesStorage);
+    }
+
+    /**
+     * Build the WHERE clause of the rule: match conditions and exclusion of rows already hit by a stopping rule
+     */
+    private buildRuleCondition<T>(rule: MatchRule<T>, stoppingRuleNames: string[], scope?: RowScope, onlyChanges = false) {
+        const stoppedBy = [...stoppingRuleNames];
+        return <DB, TB extends keyof DB>(eb: ExpressionBuilder<DB, TB>): Expression<SqlBool> => {
+            const conditions = [this.matchConditionBuilder.build(eb, rule.match)];
+            if (onlyChanges) {
+                conditions.push(this.buildChangesRow(eb, rule));
+            }
+            if (scope) {
+                conditions.push(this.inScope(scope));
+            }
+            // Skip rows that were already hit by a stopping rule
+            if (stoppedBy.length > 0) {
+                conditions.push(this.notAppliedAnyOf(stoppedBy));
             }
+            return eb.and(conditions);
+        };
+    }
+
+    /**
+     * Condition for rows the rule changes: an apply column gets a different value or the rule is not tracked yet.
+     * Rows that already have the values of the rule are left alone, so a fixpoint pass without changes updates nothing.
+     */
+    private buildChangesRow<T, DB, TB extends keyof DB>(eb: ExpressionBuilder<DB, TB>, rule: MatchRule<T>): Expression<SqlBool> {
+        const changes: Expression<SqlBool>[] = Object.entries(this.applyValueBuilder.build(rule.apply))
+            .map(([column, value]) => eb.not(this.dialect.isNotDistinctFrom(sql.ref(column), value)));
+        if (this.appliedRulesField) {
+            changes.push(this.notAppliedAnyOf([rule.ruleName]));
+        }
+        return eb.or(changes);
+    }
 
-            return totalAffectedRows;
+    /**
+     * Tracking is required for stopping rules, see assertValidRules
+     */
+    private registerStoppingRule<T>(rule: MatchRule<T>, stoppingRuleNames: string[]): void {
+        if (rule.stopProcessingOtherRules) {
+            stoppingRuleNames.push(rule.ruleName);
+        }
+    }
+
+    /**
+     * Build a condition that is true for rows whose applied rules tracking field
+     * does not contain any of the given rule names.
+     */
+    private notAppliedAnyOf(ruleNames: string[]): RawBuilder<SqlBool> {
+        return this.dialect.notAppliedAnyOf(sql.ref(this.appliedRulesField as string), ruleNames, this.appliedRulesStorage);
+    }
+
+    /**
+     * Aggregate the applied rules tracking column of the results table after a run
+     * @param rules Rules of the run, executed rules that matched no row are reported as dead rules
+     * @param resultsTableName Name of the results table
+     * @param options Sample size, sample order, "as of" date of the run and thresholds
+     * @returns Unmatched rows, rows per rule, dead and skipped rules and the outcome of the threshold checks
+     */
+    async getCoverageReport<T>(rules: MatchRule<T>[],
+                               resultsTableName: string,
+                               options: CoverageOptions = {}): Promise<CoverageReport<T>> {
+        if (!this.appliedRulesField) {
+            throw new Error('Applied rules tracking is turned off. Set the appliedRulesField option to use getCoverageReport.');
+        }
+        const sampleSize = options.sampleSize ?? 5;
+        const keyColumn = options.keyColumn ?? 'id';
+        const table = this.qualifiedTable(resultsTableName);
+        const appliedCount = this.appliedRulesCount(this.appliedRulesField);
+
+        const histogram = await sql<{ rules: number | string, count: number | string }>`
+            SELECT applied.rules, COUNT(*) AS count
+            FROM (SELECT ${appliedCount} AS rules FROM ${table}) applied
+            GROUP BY applied.rules
+        `.execute(this.db);
+        const rulesPerRow: Record<number, number> = {};
+        for (const row of histogram.rows) {
+            rulesPerRow[Number(row.rules)] = Number(row.count);
+        }
+
+        const trackingColumn = sql.ref(`${resultsTableName}.${this.appliedRulesField}`);
+        const matchedByRule = await sql<{ rule_name: string, count: number | string }>`
+            SELECT applied.value AS rule_name, COUNT(*) AS count
+            FROM ${table} CROSS JOIN ${this.appliedRulesElements(trackingColumn)}
+            GROUP BY applied.value
+        `.execute(this.db);
+        const matchedRowsByRule = new Map(matchedByRule.rows.map(row => [row.rule_name, Number(row.count)]));
+
+        const unmatchedSamples = sampleSize > 0 ? await this.db.selectFrom(resultsTableName)
+            .selectAll()
+            .where(sql<SqlBool>`${appliedCount} = 0`)
+            .orderBy(sql.ref(keyColumn))
+            .limit(sampleSize)
+            .execute() : [];
+
+        const totalRows = Object.values(rulesPerRow).reduce((sum, count) => sum + count, 0);
+        const unmatchedRows = rulesPerRow[0] ?? 0;
+        const sortedRules = sortRules(rules);
+        const ruleCoverage = sortedRules.map(rule => {
+            const matchedRows = matchedRowsByRule.get(rule.ruleName) ?? 0;
+            return {ruleName: rule.ruleName, matchedRows, rowShare: totalRows > 0 ? matchedRows / totalRows : 0};
         });
+        const skippedRules = sortedRules.filter(rule => getSkipStatus(rule, options.asOf)).map(rule => rule.ruleName);
+        const deadRules = ruleCoverage
+            .filter(rule => rule.matchedRows === 0 && !skippedRules.includes(rule.ruleName))
+            .map(rule => rule.ruleName);
+        const rowCoverage = totalRows > 0 ? (totalRows - unmatchedRows) / totalRows : 1;
+
+        const thresholds = options.thresholds ?? {};
+        const thresholdViolations: string[] = [];
+        if (thresholds.minRowCoverage !== undefined && rowCoverage < thresholds.minRowCoverage) {
+            const percent = (share: number) => `${(share * 100).toFixed(1)}%`;
+            thresholdViolations.push(`Row coverage ${percent(rowCoverage)} is below the minimum of ${percent(thresholds.minRowCoverage)}`);
+        }
+        if (thresholds.maxUnmatchedRows !== undefined && unmatchedRows > thresholds.maxUnmatchedRows) {
+            thresholdViolations.push(`${unmatchedRows} unmatched rows exceed the maximum of ${thresholds.maxUnmatchedRows}`);
+        }
+        if (thresholds.maxDeadRules !== undefined && deadRules.length > thresholds.maxDeadRules) {
+            thresholdViolations.push(`${deadRules.length} dead rules exceed the maximum of ${thresholds.maxDeadRules}: ${deadRules.join(', ')}`);
+        }
+
+        return {
+            totalRows,
+            matchedRows: totalRows - unmatchedRows,
+            unmatchedRows,
+            rowCoverage,
+            unmatchedSamples: unmatchedSamples as T[],
+            rules: ruleCoverage,
+            deadRules,
+            skippedRules,
+            rulesPerRow,
+            thresholdViolations,
+            passed: thresholdViolations.length === 0,
+        };
+    }
+
+    /**
+     * Expression for the number of rule names in the tracking column
+     */
+    private appliedRulesCount(field: string): RawBuilder<number> {
+        return this.dialect.appliedRulesCount(sql.ref(field), this.appliedRulesStorage);
+    }
+
+    /**
+     * Table function with one row per rule name in the tracking column, aliased as applied(value)
+     * @param column Tracking column qualified with the table name
+     */
+    private appliedRulesElements(column: RawBuilder<unknown>): RawBuilder<unknown> {
+        return this.dialect.appliedRulesElements(column, this.appliedRulesStorage);
     }
 
     /**
@@ -168,17 +946,12 @@ export class RulesExecutionService {
      */
     async clearAppliedRules<T>(targetTable: string, whereConditions?: Partial<T>): Promise<number> {
         if (!this.appliedRulesField) {
-            throw new Error('appliedRulesField is not configured. Use setAppliedRulesField() first.');
+            throw new Error('Applied rules tracking is turned off. Set the appliedRulesField option to use clearAppliedRules.');
         }
 
-        const updateObject: Record<string, any> = {};
-        if (this.isPostgres) {
-            // PostgreSQL: Use empty JSON array
-            updateObject[this.appliedRulesField] = sql`'[]'::jsonb`;
-        } else {
-            // SQLite: Use JSON_ARRAY() function (mocked in test setup)
-            updateObject[this.appliedRulesField] = sql`JSON_ARRAY()`;
-        }
+        const updateObject: Record<string, unknown> = {
+            [this.appliedRulesField]: this.emptyAppliedRules(),
+        };
 
         let query = this.db.updateTable(targetTable).set(updateObject);
 
@@ -223,7 +996,7 @@ export class RulesExecutionService {
         applied_rules?: string[]
     })[]> {
         if (!this.appliedRulesField) {
-            throw new Error('appliedRulesField is not configured. Use setAppliedRulesField() first.');
+            throw new Error('Applied rules tracking is turned off. Set the appliedRulesField option to use getRowsWithAppliedRules.');
         }
 
         let query = this.db.selectFrom(targetTable).selectAll();
@@ -240,11 +1013,11 @@ export class RulesExecutionService {
 
         // Parse the applied rules JSON array for each row
         return rows.map(row => {
-            const appliedRulesValue = (row as any)[this.appliedRulesField!];
+            const appliedRulesValue = (row as any)[this.appliedRulesField as string];
             const parsedAppliedRules = this.normalizeAppliedRules(appliedRulesValue);
             return {
                 ...row,
-                [this.appliedRulesField!]: parsedAppliedRules,
+                [this.appliedRulesField as string]: parsedAppliedRules,
                 appliedRules: parsedAppliedRules,
             } as any;
         });
@@ -0,0 +1,58 @@
+import {Kysely} from 'kysely';
+import {RulesDialect} from "@/engine/dialect/RulesDialect";
+
+/**
+ * Column of a live database table
+ */
+export interface ColumnInfo {
+    name: string;
+
+    /**
+     * Data type as reported by the database, e.g. "integer" or "character varying"
+     */
+    dataType: string;
+
+    /**
+     * Full type declaration that can be used in DDL, e.g. "character varying(255)" or "integer[]"
+     */
+    columnType: string;
+
+    nullable: boolean;
+
+    /**
+     * True for PostgreSQL identity columns, which are generated by the database.
+     * SQLite has no identity columns, INTEGER PRIMARY KEY columns can be written.
+     */
+    isIdentity: boolean;
+}
+
+/**
+ * Reads table structure from the database catalog through the SQL dialect,
+ * e.g. information_schema on PostgreSQL and PRAGMA table_info on SQLite.
+ */
+export class TableInspector {
+
+    private readonly db: Kysely<any>;
+
+    private readonly dialect: RulesDialect;
+
+    private readonly schema?: string;
+
+    /**
+     * @param db Kysely database instance
+     * @param dialect SQL dialect of the database
+     * @param schema Schema of the inspected tables, default is the current schema (PostgreSQL) or "main" (SQLite)
+     */
+    constructor(db: Kysely<any>, dialect: RulesDialect, schema?: string) {
+        this.db = db;
+        this.dialect = dialect;
+        this.schema = schema;
+    }
+
+    /**
+     * @returns Columns in table order, or an empty array if the table does not exist
+     */
+    async getColumns(tableName: string): Promise<ColumnInfo[]> {
+        return this.dialect.getColumns(this.db, tableName, this.schema);
+    }
+}
@@ -0,0 +1,121 @@
+import {Kysely} from 'kysely';
+import {createTestDb} from '@/test/test-database';
+import {Database, User} from '@/test/database.types';
+import {MatchRuleFactory} from "@/entities/MatchRuleFactory";
+import {RulesService} from "@/RulesService";
+import {RulesExecutionService} from "@/engine/RulesExecutionService";
+
+const describeIfMysql = process.env.USE_MYSQL_TESTS ? describe : describe.skip;
+
+describeIfMysql('MysqlRulesDialect - Real Database Integration Tests', () => {
+    let db: Kysely<Database>;
+    let rulesService: RulesService;
+    let engine: RulesExecutionService;
+
+    beforeAll(async () => {
+        db = await createTestDb();
+        rulesService = new RulesService(db);
+        engine = new RulesExecutionService(db);
+    }, 30000);
+
+    afterAll(async () => {
+        await db.destroy();
+    });
+
+    beforeEach(async () => {
+        await db.deleteFrom('posts').execute();
+        await db.deleteFrom('users').execute();
+        await db.insertInto('users').values([
+            {email: 'john@example.com', name: 'John Doe', role: 'user', age: 30},
+            {email: 'Jane@Example.org', name: 'Jane Doe', role: 'admin', age: 25},
+            {email: 'bob@example.com', name: 'Bob Doerr', role: 'user', age: 35},
+        ]).execute();
+    });
+
+    const statusByEmail = async () => {
+        const rows = await db.selectFrom('users_results').select(['email', 'status']).orderBy('email').execute();
+        return Object.fromEntries(rows.map(row => [row.email, row.status]));
+    };
+
+    it('should initialise the results table with a copy of the target table', async () => {
+        await rulesService.processRules(MatchRuleFactory.createRules([
+            {ruleName: 'first', match: {role: 'user'}, apply: {status: 'first'}}
+        ]), 'users');
+        await db.deleteFrom('users').where('email', '=', 'bob@example.com').execute();
+
+        const report = await rulesService.processRules(MatchRuleFactory.createRules([
+            {ruleName: 'second', match: {role: 'admin'}, apply: {status: 'second'}}
+        ]), 'users');
+
+        expect(report.totalAffectedRows).toBe(1);
+        expect(await statusByEmail()).toEqual({'Jane@Example.org': 'second', 'john@example.com': null});
+    });
+
+    it('should match regular expressions case-sensitively unless requested', async () => {
+        await rulesService.processRules(MatchRuleFactory.createRules([
+            {ruleName: 'org', match: {email: 'example\\.org$'}, apply: {status: 'org'}},
+            {ruleName: 'jane', match: {email: {pattern: '^jane', caseInsensitive: true}}, apply: {role: 'jane'}},
+            {ruleName: 'doe', match: {name: {pattern: 'doe', caseInsensitive: true, wholeWord: true}}, apply: {phone: 'doe'}},
+        ]), 'users');
+
+        const rows = await db.selectFrom('users_results').select(['email', 'status', 'role', 'phone']).orderBy('email').execute();
+        expect(rows).toEqual([
+            {email: 'bob@example.com', status: null, role: 'user', phone: null},
+            {email: 'Jane@Example.org', status: null, role: 'jane', phone: 'doe'},
+            {email: 'john@example.com', status: null, role: 'user', phone: 'doe'},
+        ]);
+    });
+
+    it('should track applied rules and skip rows of stopping rules', async () => {
+        await rulesService.processRules(MatchRuleFactory.createRules([
+            {ruleName: 'admins', priority: 1, match: {role: 'admin'}, apply: {status: 'admin'}, stopProcessingOtherRules: true},
+            {ruleName: 'everyone', priority: 2, match: {age: {gte: 18}}, apply: {status: 'adult'}},
+            {ruleName: 'domain', priority: 3, match: {email: '@'}, apply: {phone: {extract: {from: 'email', pattern: '@(.+)$'}}}},
+        ]), 'users');
+
+        const rows = await engine.getRowsWithAppliedRules<User>('users_results');
+        const appliedByEmail = Object.fromEntries(rows.map(row => [row.email, row.appliedRules]));
+        expect(appliedByEmail).toEqual({
+            'Jane@Example.org': ['admins'],
+            'john@example.com': ['everyone', 'domain'],
+            'bob@example.com': ['everyone', 'domain'],
+        });
+        expect(rows.find(row => row.email === 'john@example.com')?.phone).toBe('example.com');
+
+        const coverage = await engine.getCoverageReport(MatchRuleFactory.createRules([
+            {ruleName: 'admins', match: {role: 'admin'}, apply: {status: 'admin'}},
+            {ruleName: 'nobody', match: {role: 'nobody'}, apply: {status: 'x'}},
+        ]), 'users_results');
+        expect(coverage.rulesPerRow).toEqual({1: 1, 2: 2});
+        expect(coverage.deadRules).toEqual(['nobody']);
+    });
+
+    it('should clear applied rules', async () => {
+        await rulesService.processRules(MatchRuleFactory.createRules([
+            {ruleName: 'everyone', match: {age: {gte: 18}}, apply: {status: 'adult'}},
+        ]), 'users');
+
+        const cleared = await engine.clearAppliedRules('users_results', {role: 'user'});
+
+        expect(cleared).toBe(2);
+        const rows = await engine.getRowsWithAppliedRules<User>('users_results');
+        expect(rows.map(row => [row.email, row.appliedRules])).toEqual(expect.arrayContaining([
+            ['john@example.com', []],
+            ['bob@example.com', []],
+            ['Jane@Example.org', ['everyone']],
+        ]));
+    });
+
+    it('should compute values from the row as it was before the rule', async () => {
+        await rulesService.processRules(MatchRuleFactory.createRules([
+            {ruleName: 'double', match: {email: 'john'}, apply: {age: {multiply: 2}, priority: {ref: 'age', add: 1}}},
+        ]), 'users');
+
+        const john = await db.selectFrom('users_results').select(['age', 'priority']).where('email', '=', 'john@example.com').executeTakeFirst();
+        expect(john).toEqual({age: 60, priority: 31});
+
+        await expect(rulesService.processRules(MatchRuleFactory.createRules([
+            {ruleName: 'swap', match: {email: 'john'}, apply: {age: {ref: 'priority'}, priority: {ref: 'age'}}},
+        ]), 'users')).rejects.toThrow('Rule "swap" computes "age", "priority" from each other');
+    });
+});
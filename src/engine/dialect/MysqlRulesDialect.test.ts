@@ -0,0 +1,107 @@
+import {Kysely, MysqlDialect, sql} from 'kysely';
+import {MatchConditionBuilder} from "@/engine/MatchConditionBuilder";
+import {ApplyValueBuilder} from "@/engine/ApplyValueBuilder";
+import {RuleSchemaValidator} from "@/engine/RuleSchemaValidator";
+import {ColumnInfo} from "@/engine/TableInspector";
+import {MatchRuleFactory} from "@/entities/MatchRuleFactory";
+import {MysqlRulesDialect} from "./MysqlRulesDialect";
+import {RulesDialects} from "./RulesDialects";
+
+/**
+ * Compiles queries without a connection, see MysqlRulesDialect.it.test.ts for queries against a MySQL server
+ */
+describe('MysqlRulesDialect', () => {
+    const db = new Kysely<any>({
+        dialect: new MysqlDialect({
+            pool: async () => {
+                throw new Error('Queries are only compiled');
+            }
+        })
+    });
+    const dialect = new MysqlRulesDialect();
+
+    const compileWhere = (match: Record<string, unknown>, rulesDialect = dialect) => db.selectFrom('users')
+        .select('id')
+        .where(eb => new MatchConditionBuilder(rulesDialect).build(eb, match))
+        .compile();
+
+    it('should be the default dialect of MySQL connections', () => {
+        expect(RulesDialects.forDatabase(db).name).toBe('MySQL');
+    });
+
+    it('should match regular expressions with explicit case sensitivity', () => {
+        const query = compileWhere({email: '^j', name: {pattern: 'doe', caseInsensitive: true, wholeWord: true}});
+
+        expect(query.sql).toBe('select `id` from `users` where (REGEXP_LIKE(`email`, ?, ?) and REGEXP_LIKE(`name`, ?, ?))');
+        expect(query.parameters).toEqual(['^j', 'c', '\\b(?:doe)\\b', 'i']);
+    });
+
+    it('should use inline regex flags on MariaDB', () => {
+        const query = compileWhere({email: '^j'}, new MysqlRulesDialect('mariadb'));
+
+        expect(query.sql).toBe('select `id` from `users` where `email` REGEXP ?');
+        expect(query.parameters).toEqual(['(?-i)^j']);
+    });
+
+    it('should compare LIKE patterns by case only for like', () => {
+        const query = compileWhere({email: {like: 'J%'}, name: {ilike: 'j%'}});
+
+        expect(query.sql).toBe('select `id` from `users` where (CONVERT(`email` USING utf8mb4) COLLATE utf8mb4_bin LIKE ? '
+            + 'and LOWER(`name`) LIKE LOWER(?))');
+    });
+
+    it('should append and look up applied rules in JSON arrays', () => {
+        const query = db.updateTable('users_results')
+            .set({applied_rules: dialect.appendAppliedRule(sql.ref('applied_rules'), 'adults')})
+            .where(dialect.notAppliedAnyOf(sql.ref('applied_rules'), ['stop-a', 'stop-b']))
+            .compile();
+
+        expect(query.sql).toBe('update `users_results` set `applied_rules` = JSON_ARRAY_APPEND(COALESCE(`applied_rules`, JSON_ARRAY()), \'$\', ?) '
+            + 'where NOT (JSON_CONTAINS(COALESCE(`applied_rules`, JSON_ARRAY()), JSON_ARRAY(?)) '
+            + 'OR JSON_CONTAINS(COALESCE(`applied_rules`, JSON_ARRAY()), JSON_ARRAY(?)))');
+        expect(query.parameters).toEqual(['adults', 'stop-a', 'stop-b']);
+    });
+
+    it('should concatenate templates and extract groups with MySQL functions', () => {
+        const values = new ApplyValueBuilder(dialect).build({
+            name: {template: '{name} <{email}>'},
+            status: {extract: {from: 'email', pattern: '@(.+)$'}},
+        });
+        const query = db.updateTable('users').set(values).compile();
+
+        expect(query.sql).toBe('update `users` set '
+            + '`name` = CONCAT(COALESCE(CAST(`name` AS CHAR), \'\'), CAST(? AS CHAR), COALESCE(CAST(`email` AS CHAR), \'\'), CAST(? AS CHAR)), '
+            + '`status` = COALESCE(CASE WHEN REGEXP_LIKE(CAST(`email` AS CHAR), ?, ?) '
+            + 'THEN REGEXP_REPLACE(CAST(`email` AS CHAR), ?, ?) END, `status`)');
+        expect(query.parameters).toEqual([' <', '>', '@(.+)$', 'c', '^[\\s\\S]*?(?:@(.+)$)[\\s\\S]*$', '$1']);
+    });
+
+    it('should compute values before the columns they read are assigned', () => {
+        const values = new ApplyValueBuilder(dialect).build({
+            age: {multiply: 2},
+            priority: {ref: 'priority', multiply: {ref: 'age'}},
+            status: 'checked',
+        });
+        const query = db.updateTable('users').set(values).compile();
+
+        expect(query.sql).toBe('update `users` set `priority` = (`priority` * `age`), `age` = (`age` * ?), `status` = ?');
+    });
+
+    it('should reject values that read each other\'s columns', () => {
+        const column = (name: string): ColumnInfo => ({name, dataType: 'int', columnType: 'int', nullable: true, isIdentity: false});
+        const validator = new RuleSchemaValidator([column('age'), column('priority')], dialect.sequentialAssignments);
+
+        const problems = validator.validate(MatchRuleFactory.createRules([
+            {ruleName: 'swap', match: {age: {gt: 0}}, apply: {age: {ref: 'priority'}, priority: {ref: 'age'}}},
+            {ruleName: 'chain', match: {age: {gt: 0}}, apply: {age: {add: 1}, priority: {ref: 'age', add: 1}}},
+        ]));
+
+        expect(problems).toEqual([{
+            ruleName: 'swap',
+            code: 'circular-assignment',
+            path: 'apply',
+            column: 'age',
+            message: 'Rule "swap" computes "age", "priority" from each other, which can not be assigned in one UPDATE of this database in apply',
+        }]);
+    });
+});
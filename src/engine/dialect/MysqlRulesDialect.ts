@@ -0,0 +1,163 @@
+import {Expression, Kysely, RawBuilder, sql, SqlBool} from 'kysely';
+import {AppliedRulesStorage} from "@/engine/RulesExecutionOptions";
+import {ColumnInfo} from "@/engine/TableInspector";
+import {RulesDialect} from "@/engine/dialect/RulesDialect";
+
+/**
+ * MySQL 8 and MariaDB: ICU / PCRE regular expressions, JSON tracking columns and information_schema introspection.
+ * DatabaseRuleStorage is not supported.
+ * Both use the Kysely MysqlAdapter, the MySQL flavour is registered by default.
+ * MariaDB has no REGEXP_LIKE and uses \1 instead of $1 for groups in replacements,
+ * pass new MysqlRulesDialect('mariadb') as the dialect option or register it for MariaDB.
+ */
+export class MysqlRulesDialect implements RulesDialect {
+
+    readonly name: string;
+
+    readonly wordBoundary = '\\b';
+
+    /**
+     * Single-table UPDATE assigns from left to right, later values see the columns written before them
+     */
+    readonly sequentialAssignments = true;
+
+    private readonly flavour: 'mysql' | 'mariadb';
+
+    constructor(flavour: 'mysql' | 'mariadb' = 'mysql') {
+        this.flavour = flavour;
+        this.name = flavour === 'mysql' ? 'MySQL' : 'MariaDB';
+    }
+
+    toSqlValue(value: unknown): unknown {
+        return value;
+    }
+
+    /**
+     * Case sensitivity is always explicit, the default collations ignore case
+     */
+    regexMatch(column: Expression<unknown>, pattern: string, caseInsensitive: boolean): Expression<SqlBool> {
+        if (this.flavour === 'mariadb') {
+            return sql<SqlBool>`${column} REGEXP ${sql.val(`${caseInsensitive ? '(?i)' : '(?-i)'}${pattern}`)}`;
+        }
+        return sql<SqlBool>`REGEXP_LIKE(${column}, ${sql.val(pattern)}, ${caseInsensitive ? 'i' : 'c'})`;
+    }
+
+    /**
+     * REGEXP_SUBSTR returns the whole match, so the text around the first match is replaced by its first group
+     */
+    regexExtract(source: Expression<unknown>, pattern: string): Expression<unknown> {
+        const group = this.flavour === 'mysql' ? '$1' : '\\1';
+        const surrounded = `^[\\s\\S]*?(?:${pattern})[\\s\\S]*$`;
+        // @formatter:off
+        /*language=TEXT*/
+        return sql`CASE WHEN ${this.regexMatch(source, pattern, false)} THEN REGEXP_REPLACE(${source}, ${sql.val(surrounded)}, ${sql.val(group)}) END`;
+        // @formatter:on
+    }
+
+    isNotDistinctFrom(left: Expression<unknown>, right: unknown): Expression<SqlBool> {
+        return sql<SqlBool>`${left} <=> ${right}`;
+    }
+
+    castToText(value: Expression<unknown>): Expression<string> {
+        return sql<string>`CAST(${value} AS CHAR)`;
+    }
+
+    /**
+     * || is the logical OR operator in MySQL
+     */
+    concat(parts: Expression<unknown>[]): Expression<string> {
+        return sql<string>`CONCAT(${sql.join(parts)})`;
+    }
+
+    rowHash(values: Expression<unknown>[]): Expression<string> {
+        // CONCAT returns NULL for any NULL part, a JSON array keeps NULL values apart from text
+        return sql<string>`MD5(JSON_ARRAY(${sql.join(values)}))`;
+    }
+
+    like(column: Expression<unknown>, pattern: string): Expression<SqlBool> {
+        // LIKE follows the collation of the column, which usually ignores case
+        return sql<SqlBool>`CONVERT(${column} USING utf8mb4) COLLATE utf8mb4_bin LIKE ${sql.val(pattern)}`;
+    }
+
+    ilike(column: Expression<unknown>, pattern: string): Expression<SqlBool> {
+        return sql<SqlBool>`LOWER(${column}) LIKE LOWER(${sql.val(pattern)})`;
+    }
+
+    /**
+     * jsonb and json are both stored in a JSON column
+     */
+    supportsAppliedRulesStorage(storage: AppliedRulesStorage): boolean {
+        return storage !== 'text[]';
+    }
+
+    appliedRulesType(): RawBuilder<unknown> {
+        return sql.raw('json');
+    }
+
+    emptyAppliedRules(): RawBuilder<unknown> {
+        // JSON columns only accept expression defaults, which must be parenthesised
+        return sql`(JSON_ARRAY())`;
+    }
+
+    appendAppliedRule(column: Expression<unknown>, ruleName: string): RawBuilder<unknown> {
+        // @formatter:off
+        /*language=TEXT*/
+        return sql`JSON_ARRAY_APPEND(COALESCE(${column}, JSON_ARRAY()), '$', ${ruleName})`;
+        // @formatter:on
+    }
+
+    notAppliedAnyOf(column: Expression<unknown>, ruleNames: string[]): RawBuilder<SqlBool> {
+        const contained = ruleNames.map(ruleName => sql`JSON_CONTAINS(COALESCE(${column}, JSON_ARRAY()), JSON_ARRAY(${ruleName}))`);
+        return sql<SqlBool>`NOT (${sql.join(contained, sql` OR `)})`;
+    }
+
+    appliedRulesCount(column: Expression<unknown>): RawBuilder<number> {
+        return sql<number>`JSON_LENGTH(COALESCE(${column}, JSON_ARRAY()))`;
+    }
+
+    appliedRulesElements(column: Expression<unknown>): RawBuilder<unknown> {
+        // JSON_TABLE may reference columns of the tables before it
+        // @formatter:off
+        /*language=TEXT*/
+        return sql`JSON_TABLE(COALESCE(${column}, JSON_ARRAY()), '$[*]' COLUMNS (value VARCHAR(1024) PATH '$')) AS applied`;
+        // @formatter:on
+    }
+
+    async getColumns(db: Kysely<any>, tableName: string, schema?: string): Promise<ColumnInfo[]> {
+        // information_schema column names are upper case in MySQL
+        const result = await sql<{
+            column_name: string,
+            data_type: string,
+            column_type: string,
+            is_nullable: string
+        }>`
+            SELECT column_name AS column_name,
+                   data_type   AS data_type,
+                   column_type AS column_type,
+                   is_nullable AS is_nullable
+            FROM information_schema.columns
+            WHERE table_name = ${tableName}
+              AND table_schema = ${schema ? sql`${schema}` : sql`DATABASE()`}
+            ORDER BY ordinal_position
+        `.execute(db);
+
+        // AUTO_INCREMENT columns can be written, like INTEGER PRIMARY KEY columns of SQLite
+        return result.rows.map(row => ({
+            name: row.column_name,
+            // BOOLEAN columns are created as tinyint(1)
+            dataType: row.column_type.toLowerCase() === 'tinyint(1)' ? 'boolean' : row.data_type.toLowerCase(),
+            columnType: row.column_type,
+            nullable: row.is_nullable === 'YES',
+            isIdentity: false,
+        }));
+    }
+
+    identityInsertClause(): RawBuilder<unknown> {
+        return sql``;
+    }
+
+    truncate(table: RawBuilder<unknown>): RawBuilder<unknown> {
+        // TRUNCATE commits the current transaction implicitly, DELETE can be rolled back
+        return sql`DELETE FROM ${table}`;
+    }
+}
@@ -0,0 +1,185 @@
+import {ColumnDefinitionBuilder, Expression, Kysely, RawBuilder, sql, SqlBool} from 'kysely';
+import {AppliedRulesStorage} from "@/engine/RulesExecutionOptions";
+import {ColumnInfo} from "@/engine/TableInspector";
+import {RuleStorageDialect} from "@/engine/dialect/RulesDialect";
+
+/**
+ * PostgreSQL: POSIX regex operators, jsonb / json / text[] tracking columns and information_schema introspection
+ */
+export class PostgresRulesDialect implements RuleStorageDialect {
+
+    readonly name = 'PostgreSQL';
+
+    // PostgreSQL uses \y for word boundaries, \b is a backspace there
+    readonly wordBoundary = '\\y';
+
+    readonly jsonType = 'jsonb';
+
+    readonly timestampType = 'timestamptz';
+
+    toSqlValue(value: unknown): unknown {
+        // Parameters are untyped, so PostgreSQL would infer an integer type from an integer column
+        if (typeof value === 'number' && !Number.isInteger(value)) {
+            return sql`${value}::numeric`;
+        }
+        return value;
+    }
+
+    regexMatch(column: Expression<unknown>, pattern: string, caseInsensitive: boolean): Expression<SqlBool> {
+        const operator = caseInsensitive ? '~*' : '~';
+        return sql<SqlBool>`${column} ${sql.raw(operator)} ${sql.val(pattern)}`;
+    }
+
+    regexExtract(source: Expression<unknown>, pattern: string): Expression<unknown> {
+        // substring(... from pattern) returns the part matched by the first parenthesised subexpression
+        return sql`substring(${source} from ${sql.val(pattern)})`;
+    }
+
+    isNotDistinctFrom(left: Expression<unknown>, right: unknown): Expression<SqlBool> {
+        return sql<SqlBool>`${left} IS NOT DISTINCT FROM ${right}`;
+    }
+
+    castToText(value: Expression<unknown>): Expression<string> {
+        return sql<string>`CAST(${value} AS TEXT)`;
+    }
+
+    concat(parts: Expression<unknown>[]): Expression<string> {
+        return sql<string>`${sql.join(parts, sql` || `)}`;
+    }
+
+    rowHash(values: Expression<unknown>[]): Expression<string> {
+        // The text of a row value quotes empty strings and leaves NULL empty
+        return sql<string>`md5(CAST(ROW(${sql.join(values)}) AS TEXT))`;
+    }
+
+    like(column: Expression<unknown>, pattern: string): Expression<SqlBool> {
+        return sql<SqlBool>`${column} LIKE ${sql.val(pattern)}`;
+    }
+
+    ilike(column: Expression<unknown>, pattern: string): Expression<SqlBool> {
+        return sql<SqlBool>`${column} ILIKE ${sql.val(pattern)}`;
+    }
+
+    supportsAppliedRulesStorage(): boolean {
+        return true;
+    }
+
+    appliedRulesType(storage: AppliedRulesStorage): RawBuilder<unknown> {
+        return sql.raw(storage);
+    }
+
+    emptyAppliedRules(storage: AppliedRulesStorage): RawBuilder<unknown> {
+        switch (storage) {
+            case 'text[]':
+                return sql`'{}'::text[]`;
+            case 'json':
+                return sql`'[]'::json`;
+            default:
+                return sql`'[]'::jsonb`;
+        }
+    }
+
+    appendAppliedRule(column: Expression<unknown>, ruleName: string, storage: AppliedRulesStorage): RawBuilder<unknown> {
+        // @formatter:off
+        /*language=TEXT*/
+        switch (storage) {
+            case 'text[]':
+                return sql`array_append(COALESCE(${column}, '{}'::text[]), CAST(${sql.val(ruleName)} AS TEXT))`;
+            case 'json':
+                return sql`(COALESCE(${column}::jsonb, '[]'::jsonb) || ${sql.val(JSON.stringify([ruleName]))}::jsonb)::json`;
+            default:
+                return sql`COALESCE(${column}, '[]'::jsonb) || ${sql.val(JSON.stringify([ruleName]))}::jsonb`;
+        }
+        // @formatter:on
+    }
+
+    notAppliedAnyOf(column: Expression<unknown>, ruleNames: string[], storage: AppliedRulesStorage): RawBuilder<SqlBool> {
+        // @formatter:off
+        /*language=TEXT*/
+        switch (storage) {
+            case 'text[]':
+                return sql<SqlBool>`NOT (COALESCE(${column}, '{}'::text[]) && ${sql.val(ruleNames)}::text[])`;
+            case 'json':
+                return sql<SqlBool>`NOT (COALESCE(${column}::jsonb, '[]'::jsonb) ?| ${sql.val(ruleNames)}::text[])`;
+            default:
+                return sql<SqlBool>`NOT (COALESCE(${column}, '[]'::jsonb) ?| ${sql.val(ruleNames)}::text[])`;
+        }
+        // @formatter:on
+    }
+
+    appliedRulesCount(column: Expression<unknown>, storage: AppliedRulesStorage): RawBuilder<number> {
+        // @formatter:off
+        /*language=TEXT*/
+        switch (storage) {
+            case 'text[]':
+                return sql<number>`COALESCE(cardinality(${column}), 0)`;
+            case 'json':
+                return sql<number>`json_array_length(COALESCE(${column}, '[]'::json))`;
+            default:
+                return sql<number>`jsonb_array_length(COALESCE(${column}, '[]'::jsonb))`;
+        }
+        // @formatter:on
+    }
+
+    appliedRulesElements(column: Expression<unknown>, storage: AppliedRulesStorage): RawBuilder<unknown> {
+        // @formatter:off
+        /*language=TEXT*/
+        switch (storage) {
+            case 'text[]':
+                return sql`LATERAL unnest(${column}) AS applied(value)`;
+            case 'json':
+                return sql`LATERAL json_array_elements_text(COALESCE(${column}, '[]'::json)) AS applied(value)`;
+            default:
+                return sql`LATERAL jsonb_array_elements_text(COALESCE(${column}, '[]'::jsonb)) AS applied(value)`;
+        }
+        // @formatter:on
+    }
+
+    async getColumns(db: Kysely<any>, tableName: string, schema?: string): Promise<ColumnInfo[]> {
+        const result = await sql<{
+            column_name: string,
+            data_type: string,
+            column_type: string,
+            is_nullable: string,
+            is_identity: string
+        }>`
+            SELECT c.column_name,
+                   c.data_type,
+                   format_type(a.atttypid, a.atttypmod) AS column_type,
+                   c.is_nullable,
+                   c.is_identity
+            FROM information_schema.columns c
+                     JOIN pg_attribute a
+                          ON a.attrelid = format('%I.%I', c.table_schema, c.table_name)::regclass
+                              AND a.attname = c.column_name
+            WHERE c.table_name = ${tableName}
+              AND c.table_schema = ${schema ? sql`${schema}` : sql`current_schema()`}
+            ORDER BY c.ordinal_position
+        `.execute(db);
+
+        return result.rows.map(row => ({
+            name: row.column_name,
+            dataType: row.data_type,
+            columnType: row.column_type,
+            nullable: row.is_nullable === 'YES',
+            isIdentity: row.is_identity === 'YES',
+        }));
+    }
+
+    identityInsertClause(): RawBuilder<unknown> {
+        // GENERATED ALWAYS identity columns reject explicit values otherwise
+        return sql`OVERRIDING SYSTEM VALUE`;
+    }
+
+    identityColumn(col: ColumnDefinitionBuilder): ColumnDefinitionBuilder {
+        return col.primaryKey().generatedByDefaultAsIdentity();
+    }
+
+    truncate(table: RawBuilder<unknown>): RawBuilder<unknown> {
+        return sql`TRUNCATE ${table}`;
+    }
+
+    toTimestampValue(date: Date): unknown {
+        return date;
+    }
+}
@@ -0,0 +1,164 @@
+import {ColumnDataType, ColumnDefinitionBuilder, Expression, Kysely, RawBuilder, SqlBool} from 'kysely';
+import {AppliedRulesStorage} from "@/engine/RulesExecutionOptions";
+import {ColumnInfo} from "@/engine/TableInspector";
+
+/**
+ * SQL that differs between databases. RulesExecutionService and the condition and apply value builders
+ * only generate SQL through this interface, so other databases can be supported by registering an
+ * implementation with RulesDialects.register.
+ *
+ * Column arguments are references to columns of the current row, e.g. sql.ref('email').
+ */
+export interface RulesDialect {
+
+    /**
+     * Name used in error messages, e.g. "PostgreSQL"
+     */
+    readonly name: string;
+
+    /**
+     * Logged by RulesExecutionService when it is created, e.g. to point out emulated functions
+     */
+    readonly usageNotice?: string;
+
+    /**
+     * True if the assignments of UPDATE ... SET see the values written by the assignments before them, like in MySQL.
+     * Assignments are then ordered so values are computed from the row as it was before the rule,
+     * rules whose values read each other's columns in a cycle are rejected by validateRules.
+     */
+    readonly sequentialAssignments?: boolean;
+
+    /**
+     * Convert a JavaScript value from a rule into a value that can be bound as a parameter
+     */
+    toSqlValue(value: unknown): unknown;
+
+    /**
+     * Regex match of a column, the pattern is already adjusted to the regex flavour of the database
+     */
+    regexMatch(column: Expression<unknown>, pattern: string, caseInsensitive: boolean): Expression<SqlBool>;
+
+    /**
+     * Word boundary escape of the regex flavour, e.g. "\\b"
+     */
+    readonly wordBoundary: string;
+
+    /**
+     * Text of the first capture group of the pattern in source, NULL if the pattern does not match
+     */
+    regexExtract(source: Expression<unknown>, pattern: string): Expression<unknown>;
+
+    /**
+     * NULL-safe equality, true if both sides are NULL
+     */
+    isNotDistinctFrom(left: Expression<unknown>, right: unknown): Expression<SqlBool>;
+
+    /**
+     * Expression converted to text
+     */
+    castToText(value: Expression<unknown>): Expression<string>;
+
+    /**
+     * Concatenation of text expressions
+     */
+    concat(parts: Expression<unknown>[]): Expression<string>;
+
+    /**
+     * Text that changes whenever one of the values changes, NULL and empty text must give different results.
+     * Used to detect changed source rows, a hash where the database has a hash function.
+     */
+    rowHash(values: Expression<unknown>[]): Expression<string>;
+
+    /**
+     * Case-sensitive LIKE with "%", "_" and backslash escapes
+     */
+    like(column: Expression<unknown>, pattern: string): Expression<SqlBool>;
+
+    /**
+     * Case-insensitive LIKE with "%", "_" and backslash escapes
+     */
+    ilike(column: Expression<unknown>, pattern: string): Expression<SqlBool>;
+
+    supportsAppliedRulesStorage(storage: AppliedRulesStorage): boolean;
+
+    /**
+     * Column type of the applied rules tracking column
+     */
+    appliedRulesType(storage: AppliedRulesStorage): RawBuilder<unknown>;
+
+    /**
+     * Empty array literal of the tracking column type
+     */
+    emptyAppliedRules(storage: AppliedRulesStorage): RawBuilder<unknown>;
+
+    /**
+     * Tracking column value with the rule name appended
+     */
+    appendAppliedRule(column: Expression<unknown>, ruleName: string, storage: AppliedRulesStorage): RawBuilder<unknown>;
+
+    /**
+     * True for rows whose tracking column contains none of the rule names
+     */
+    notAppliedAnyOf(column: Expression<unknown>, ruleNames: string[], storage: AppliedRulesStorage): RawBuilder<SqlBool>;
+
+    /**
+     * Number of rule names in the tracking column, 0 for NULL
+     */
+    appliedRulesCount(column: Expression<unknown>, storage: AppliedRulesStorage): RawBuilder<number>;
+
+    /**
+     * Table function with one row per rule name in the tracking column, aliased as applied(value),
+     * used in a FROM clause after the table of the column
+     */
+    appliedRulesElements(column: Expression<unknown>, storage: AppliedRulesStorage): RawBuilder<unknown>;
+
+    /**
+     * Columns of a table in table order, an empty array if the table does not exist
+     * @param schema Schema of the table, default is the current schema of the connection
+     */
+    getColumns(db: Kysely<any>, tableName: string, schema?: string): Promise<ColumnInfo[]>;
+
+    /**
+     * Clause between the column list and SELECT of an INSERT that copies values into identity columns
+     */
+    identityInsertClause(): RawBuilder<unknown>;
+
+    /**
+     * Statement that deletes all rows of the table
+     */
+    truncate(table: RawBuilder<unknown>): RawBuilder<unknown>;
+}
+
+/**
+ * SQL of DatabaseRuleStorage, implemented by the dialects of databases the rule storage supports
+ */
+export interface RuleStorageDialect extends RulesDialect {
+
+    /**
+     * Make the column an integer primary key generated by the database, explicit values are allowed
+     */
+    identityColumn(col: ColumnDefinitionBuilder): ColumnDefinitionBuilder;
+
+    /**
+     * Column type for JSON documents
+     */
+    readonly jsonType: ColumnDataType;
+
+    /**
+     * Column type for points in time with millisecond precision
+     */
+    readonly timestampType: ColumnDataType;
+
+    /**
+     * Value of a timestampType column
+     */
+    toTimestampValue(date: Date): unknown;
+}
+
+/**
+ * Returns true if DatabaseRuleStorage can store rules with the dialect
+ */
+export function isRuleStorageDialect(dialect: RulesDialect): dialect is RuleStorageDialect {
+    return typeof (dialect as Partial<RuleStorageDialect>).identityColumn === 'function'
+        && typeof (dialect as Partial<RuleStorageDialect>).toTimestampValue === 'function';
+}
@@ -0,0 +1,126 @@
+import BetterSqlite3 from 'better-sqlite3';
+import {DialectAdapter, DialectAdapterBase, Expression, Kysely, SqlBool, SqliteAdapter, SqliteDialect} from 'kysely';
+import {createTestDb} from '@/test/test-database';
+import {Database} from '@/test/database.types';
+import {MatchRuleFactory} from "@/entities/MatchRuleFactory";
+import {RulesExecutionService} from "@/engine/RulesExecutionService";
+import {RulesDialect} from "./RulesDialect";
+import {RulesDialects} from "./RulesDialects";
+import {SqliteRulesDialect} from "./SqliteRulesDialect";
+
+class RenamedSqliteAdapter extends SqliteAdapter {
+}
+
+class UnknownAdapter extends DialectAdapterBase {
+    async acquireMigrationLock(): Promise<void> {
+    }
+
+    async releaseMigrationLock(): Promise<void> {
+    }
+}
+
+// Stands in for the SQLite adapter of another copy of Kysely, it has the name but not the class
+const ForeignSqliteAdapter = class SqliteAdapter extends UnknownAdapter {
+};
+
+class RenamedForeignSqliteAdapter extends ForeignSqliteAdapter {
+}
+
+/**
+ * Kysely instance on an in-memory SQLite database whose dialect uses the given adapter
+ */
+function createDb(createAdapter: () => DialectAdapter): Kysely<Database> {
+    const dialect = new SqliteDialect({database: new BetterSqlite3(':memory:')});
+    dialect.createAdapter = createAdapter;
+    return new Kysely<Database>({dialect});
+}
+
+describe('RulesDialects', () => {
+    afterEach(() => {
+        RulesDialects.reset();
+    });
+
+    it('should find the built-in dialect of subclassed adapters', async () => {
+        const db = createDb(() => new RenamedSqliteAdapter());
+
+        expect(RulesDialects.forDatabase(db).name).toBe('SQLite');
+        await db.destroy();
+    });
+
+    it('should find the built-in dialect of adapters of another Kysely copy by their exact class name', async () => {
+        const db = createDb(() => new ForeignSqliteAdapter());
+        const renamedDb = createDb(() => new RenamedForeignSqliteAdapter());
+
+        expect(RulesDialects.forDatabase(db).name).toBe('SQLite');
+        expect(() => RulesDialects.forDatabase(renamedDb)).toThrow('No rules dialect is registered for the database adapter RenamedForeignSqliteAdapter');
+        await db.destroy();
+        await renamedDb.destroy();
+    });
+
+    it('should not find registered dialects by the class name of their adapter', async () => {
+        const ForeignUnknownAdapter = class UnknownAdapter extends DialectAdapterBase {
+            async acquireMigrationLock(): Promise<void> {
+            }
+
+            async releaseMigrationLock(): Promise<void> {
+            }
+        };
+        RulesDialects.register(UnknownAdapter, new SqliteRulesDialect());
+        const db = createDb(() => new ForeignUnknownAdapter());
+
+        expect(() => RulesDialects.forDatabase(db)).toThrow('No rules dialect is registered for the database adapter UnknownAdapter');
+        await db.destroy();
+    });
+
+    it('should reject adapters without a registered dialect', async () => {
+        const db = createDb(() => new UnknownAdapter());
+
+        expect(() => RulesDialects.forDatabase(db)).toThrow('No rules dialect is registered for the database adapter UnknownAdapter. '
+            + 'Pass the dialect explicitly, e.g. {dialect: new PostgresRulesDialect()} in the options of RulesService, '
+            + 'or register one with RulesDialects.register.');
+        expect(() => new RulesExecutionService(db)).toThrow('No rules dialect is registered');
+        await db.destroy();
+    });
+
+    it('should prefer registered dialects over the built-in ones', async () => {
+        const custom = new SqliteRulesDialect();
+        RulesDialects.register(UnknownAdapter, custom);
+        RulesDialects.register(RenamedSqliteAdapter, custom);
+        const db = createDb(() => new RenamedSqliteAdapter());
+        const unknownDb = createDb(() => new UnknownAdapter());
+
+        expect(RulesDialects.forDatabase(db)).toBe(custom);
+        expect(RulesDialects.forDatabase(unknownDb)).toBe(custom);
+        RulesDialects.reset();
+        expect(RulesDialects.forDatabase(db)).not.toBe(custom);
+        await db.destroy();
+        await unknownDb.destroy();
+    });
+
+    it('should generate SQL with the dialect option', async () => {
+        const db = await createTestDb();
+        await db.insertInto('users_results').values([
+            {email: 'john@example.com', name: 'John Doe'},
+            {email: 'jane@example.net', name: 'Jane Smith'},
+        ]).execute();
+        const patterns: string[] = [];
+        // Delegates to the built-in dialect and records the regex patterns
+        const recording: RulesDialect = Object.create(RulesDialects.forDatabase(db), {
+            regexMatch: {
+                value(column: Expression<unknown>, pattern: string, caseInsensitive: boolean): Expression<SqlBool> {
+                    patterns.push(pattern);
+                    return Object.getPrototypeOf(this).regexMatch(column, pattern, caseInsensitive);
+                }
+            }
+        });
+        const engine = new RulesExecutionService(db, {dialect: recording});
+
+        const report = await engine.applyRules([
+            MatchRuleFactory.create({ruleName: 'com', match: {email: '\\.com$'}, apply: {status: 'com'}})
+        ], 'users_results');
+
+        expect(patterns).toEqual(['\\.com$']);
+        expect(report.totalAffectedRows).toBe(1);
+        await db.destroy();
+    });
+});
@@ -0,0 +1,70 @@
+import {DialectAdapter, Kysely, MysqlAdapter, PostgresAdapter, SqliteAdapter} from 'kysely';
+import {RulesDialect} from "@/engine/dialect/RulesDialect";
+import {PostgresRulesDialect} from "@/engine/dialect/PostgresRulesDialect";
+import {SqliteRulesDialect} from "@/engine/dialect/SqliteRulesDialect";
+import {MysqlRulesDialect} from "@/engine/dialect/MysqlRulesDialect";
+
+type AdapterClass = abstract new (...args: never[]) => DialectAdapter;
+
+interface DialectRegistration {
+    readonly adapterClass: AdapterClass;
+
+    readonly dialect: RulesDialect;
+}
+
+interface BuiltInDialect extends DialectRegistration {
+
+    /**
+     * Class name of the Kysely adapter, written out because the classes may be minified
+     */
+    readonly adapterName: string;
+}
+
+/**
+ * Registry that finds the RulesDialect of a Kysely instance by the class of its dialect adapter.
+ * Adapters are compared with instanceof, so subclasses of the Kysely adapters use the built-in dialects
+ * and class names may be changed by minification. Adapters of another copy of Kysely, e.g. a second version
+ * installed by the application, are no instances of these classes. They are only found if their class is named exactly
+ * like a Kysely adapter, otherwise the dialect has to be passed as an option.
+ */
+export class RulesDialects {
+
+    private static readonly builtIn: BuiltInDialect[] = [
+        {adapterClass: PostgresAdapter, adapterName: 'PostgresAdapter', dialect: new PostgresRulesDialect()},
+        {adapterClass: SqliteAdapter, adapterName: 'SqliteAdapter', dialect: new SqliteRulesDialect()},
+        {adapterClass: MysqlAdapter, adapterName: 'MysqlAdapter', dialect: new MysqlRulesDialect()},
+    ];
+
+    private static registered: DialectRegistration[] = [];
+
+    /**
+     * Use the dialect for Kysely instances whose adapter is an instance of adapterClass.
+     * Registered dialects take precedence over the built-in ones, later registrations over earlier ones.
+     */
+    static register(adapterClass: AdapterClass, dialect: RulesDialect): void {
+        RulesDialects.registered = [{adapterClass, dialect}, ...RulesDialects.registered];
+    }
+
+    /**
+     * Remove all registered dialects, the built-in dialects stay available
+     */
+    static reset(): void {
+        RulesDialects.registered = [];
+    }
+
+    /**
+     * @throws Error if no dialect is registered for the adapter of the database
+     */
+    static forDatabase(db: Kysely<any>): RulesDialect {
+        const adapter = db.getExecutor().adapter;
+        const candidates = [...RulesDialects.registered, ...RulesDialects.builtIn];
+        const registration = candidates.find(candidate => adapter instanceof candidate.adapterClass)
+            ?? RulesDialects.builtIn.find(candidate => candidate.adapterName === adapter.constructor.name);
+        if (!registration) {
+            throw new Error(`No rules dialect is registered for the database adapter ${adapter.constructor.name}. `
+                + 'Pass the dialect explicitly, e.g. {dialect: new PostgresRulesDialect()} in the options of RulesService, '
+                + 'or register one with RulesDialects.register.');
+        }
+        return registration.dialect;
+    }
+}
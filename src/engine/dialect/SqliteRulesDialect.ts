@@ -0,0 +1,169 @@
+import {ColumnDefinitionBuilder, Expression, Kysely, RawBuilder, sql, SqlBool} from 'kysely';
+import {AppliedRulesStorage} from "@/engine/RulesExecutionOptions";
+import {ColumnInfo} from "@/engine/TableInspector";
+import {RuleStorageDialect} from "@/engine/dialect/RulesDialect";
+
+/**
+ * SQLite: tracking columns are JSON arrays stored as text, introspection uses PRAGMA table_info.
+ * SQLite has no regex functions, the connection must provide regexp_like(text, pattern[, flags]),
+ * regexp_extract(text, pattern) and JSON_ARRAY_APPEND(json, path, value), e.g. as user-defined functions.
+ */
+export class SqliteRulesDialect implements RuleStorageDialect {
+
+    readonly name = 'SQLite';
+
+    readonly usageNotice = 'Using regexp_like for string matching for SQLite. This may affect performance.';
+
+    readonly wordBoundary = '\\b';
+
+    readonly jsonType = 'json';
+
+    readonly timestampType = 'text';
+
+    toSqlValue(value: unknown): unknown {
+        if (value instanceof Date) {
+            // SQLite stores CURRENT_TIMESTAMP as "YYYY-MM-DD HH:MM:SS" text
+            return value.toISOString().replace(/\.000Z$/, '').replace('T', ' ').replace('Z', '');
+        }
+        if (typeof value === 'boolean') {
+            return value ? 1 : 0;
+        }
+        return value;
+    }
+
+    regexMatch(column: Expression<unknown>, pattern: string, caseInsensitive: boolean): Expression<SqlBool> {
+        if (caseInsensitive) {
+            return sql<SqlBool>`regexp_like(${column}, ${sql.val(pattern)}, 'i')`;
+        }
+        return sql<SqlBool>`regexp_like(${column}, ${sql.val(pattern)})`;
+    }
+
+    regexExtract(source: Expression<unknown>, pattern: string): Expression<unknown> {
+        return sql`regexp_extract(${source}, ${sql.val(pattern)})`;
+    }
+
+    isNotDistinctFrom(left: Expression<unknown>, right: unknown): Expression<SqlBool> {
+        return sql<SqlBool>`${left} IS NOT DISTINCT FROM ${right}`;
+    }
+
+    castToText(value: Expression<unknown>): Expression<string> {
+        return sql<string>`CAST(${value} AS TEXT)`;
+    }
+
+    concat(parts: Expression<unknown>[]): Expression<string> {
+        return sql<string>`${sql.join(parts, sql` || `)}`;
+    }
+
+    rowHash(values: Expression<unknown>[]): Expression<string> {
+        // SQLite has no hash function, the quoted literals of the values identify the row as well
+        return sql<string>`${sql.join(values.map(value => sql`quote(${value})`), sql` || ',' || `)}`;
+    }
+
+    like(column: Expression<unknown>, pattern: string): Expression<SqlBool> {
+        // SQLite LIKE ignores case, GLOB is the case-sensitive equivalent
+        return sql<SqlBool>`${column} GLOB ${sql.val(SqliteRulesDialect.likeToGlob(pattern))}`;
+    }
+
+    ilike(column: Expression<unknown>, pattern: string): Expression<SqlBool> {
+        // Backslash is the default LIKE escape character in PostgreSQL but must be declared in SQLite
+        return sql<SqlBool>`${column} LIKE ${sql.val(pattern)} ESCAPE '\\'`;
+    }
+
+    /**
+     * jsonb and json are both stored as a JSON array in a json column
+     */
+    supportsAppliedRulesStorage(storage: AppliedRulesStorage): boolean {
+        return storage !== 'text[]';
+    }
+
+    appliedRulesType(): RawBuilder<unknown> {
+        return sql.raw('json');
+    }
+
+    emptyAppliedRules(): RawBuilder<unknown> {
+        return sql`'[]'`;
+    }
+
+    appendAppliedRule(column: Expression<unknown>, ruleName: string): RawBuilder<unknown> {
+        // @formatter:off
+        /*language=TEXT*/
+        return sql`JSON_ARRAY_APPEND(COALESCE(${column}, JSON_ARRAY()), '$', ${ruleName})`;
+        // @formatter:on
+    }
+
+    notAppliedAnyOf(column: Expression<unknown>, ruleNames: string[]): RawBuilder<SqlBool> {
+        // json_each is part of the built-in JSON1 extension
+        // @formatter:off
+        /*language=TEXT*/
+        return sql<SqlBool>`NOT EXISTS (SELECT 1 FROM json_each(COALESCE(${column}, '[]')) WHERE value IN (${sql.join(ruleNames)}))`;
+        // @formatter:on
+    }
+
+    appliedRulesCount(column: Expression<unknown>): RawBuilder<number> {
+        return sql<number>`json_array_length(COALESCE(${column}, '[]'))`;
+    }
+
+    appliedRulesElements(column: Expression<unknown>): RawBuilder<unknown> {
+        // json_each rows already have a value column
+        return sql`json_each(COALESCE(${column}, '[]')) AS applied`;
+    }
+
+    async getColumns(db: Kysely<any>, tableName: string, schema?: string): Promise<ColumnInfo[]> {
+        const result = await sql<{ name: string, type: string, notnull: number }>`
+            SELECT name, type, "notnull"
+            FROM pragma_table_info(${tableName}, ${schema ?? 'main'})
+            ORDER BY cid
+        `.execute(db);
+
+        // SQLite has no identity columns, INTEGER PRIMARY KEY columns can be written
+        return result.rows.map(row => ({
+            name: row.name,
+            dataType: row.type.toLowerCase(),
+            columnType: row.type,
+            nullable: !row.notnull,
+            isIdentity: false,
+        }));
+    }
+
+    identityInsertClause(): RawBuilder<unknown> {
+        return sql``;
+    }
+
+    identityColumn(col: ColumnDefinitionBuilder): ColumnDefinitionBuilder {
+        return col.primaryKey().autoIncrement();
+    }
+
+    truncate(table: RawBuilder<unknown>): RawBuilder<unknown> {
+        // SQLite has no TRUNCATE, DELETE without WHERE uses the truncate optimization
+        return sql`DELETE FROM ${table}`;
+    }
+
+    toTimestampValue(date: Date): unknown {
+        // SQLite can't bind Date objects, ISO strings keep the ordering
+        return date.toISOString();
+    }
+
+    /**
+     * Convert a LIKE pattern with backslash escapes into an equivalent GLOB pattern
+     */
+    private static likeToGlob(pattern: string): string {
+        let glob = '';
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern[i];
+            if (char === '\\' && i + 1 < pattern.length) {
+                glob += SqliteRulesDialect.escapeGlob(pattern[++i]);
+            } else if (char === '%') {
+                glob += '*';
+            } else if (char === '_') {
+                glob += '?';
+            } else {
+                glob += SqliteRulesDialect.escapeGlob(char);
+            }
+        }
+        return glob;
+    }
+
+    private static escapeGlob(char: string): string {
+        return ['*', '?', '['].includes(char) ? `[${char}]` : char;
+    }
+}
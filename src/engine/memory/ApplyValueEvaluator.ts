@@ -0,0 +1,115 @@
+import {
+    ARITHMETIC_OPERATORS,
+    ArithmeticExpression,
+    ArithmeticOperand,
+    CoalesceOperand,
+    isApplyExpression,
+    isColumnReference
+} from "@/entities/ApplyValue";
+import {isNull, toNumber, toText} from "@/engine/memory/RecordValues";
+import {IntegerDivision} from "@/engine/memory/RuleEvaluation";
+
+/**
+ * Computes the values of MatchRule apply objects for a plain record, the in-memory counterpart of ApplyValueBuilder.
+ * Like the SET clause of an UPDATE, all expressions see the values of the record before the rule.
+ */
+export class ApplyValueEvaluator {
+
+    private readonly integerDivision: IntegerDivision;
+
+    constructor(integerDivision: IntegerDivision = 'truncate') {
+        this.integerDivision = integerDivision;
+    }
+
+    /**
+     * Compute the new values by column name
+     */
+    evaluate(record: Record<string, unknown>, apply: Record<string, unknown>): Record<string, unknown> {
+        const values: Record<string, unknown> = {};
+        for (const [column, value] of Object.entries(apply)) {
+            values[column] = this.evaluateValue(record, column, value);
+        }
+        return values;
+    }
+
+    private evaluateValue(record: Record<string, unknown>, column: string, value: unknown): unknown {
+        if (!isApplyExpression(value)) {
+            return value;
+        }
+        if (isColumnReference(value)) {
+            return ApplyValueEvaluator.read(record, value.ref);
+        }
+        if ('template' in value) {
+            return this.evaluateTemplate(record, value.template);
+        }
+        if ('coalesce' in value) {
+            const operands = value.coalesce.map(operand => this.evaluateOperand(record, operand));
+            return operands.find(operand => !isNull(operand)) ?? null;
+        }
+        if ('extract' in value) {
+            return this.evaluateExtract(record, column, value.extract.from, value.extract.pattern);
+        }
+        return this.evaluateArithmetic(record, column, value);
+    }
+
+    /**
+     * Concatenate literal text and column values as text, NULL columns become empty text
+     */
+    private evaluateTemplate(record: Record<string, unknown>, template: string): string {
+        return template.replace(/\{\{|\}\}|\{([^{}]+)\}/g, (placeholder, name: string | undefined) => {
+            if (name === undefined) {
+                return placeholder[0];
+            }
+            const value = ApplyValueEvaluator.read(record, name.trim());
+            return isNull(value) ? '' : toText(value);
+        });
+    }
+
+    /**
+     * Text of the first capture group, the target column keeps its value if the pattern does not match
+     */
+    private evaluateExtract(record: Record<string, unknown>, column: string, from: string, pattern: string): unknown {
+        const source = ApplyValueEvaluator.read(record, from);
+        const captured = isNull(source) ? undefined : new RegExp(pattern).exec(toText(source))?.[1];
+        return captured ?? ApplyValueEvaluator.read(record, column);
+    }
+
+    /**
+     * Arithmetic with NULL is NULL. Integers are divided as configured, see IntegerDivision.
+     * @throws Error on division by zero, like PostgreSQL
+     */
+    private evaluateArithmetic(record: Record<string, unknown>, column: string, expression: ArithmeticExpression): number | null {
+        const operator = ARITHMETIC_OPERATORS.find(name => expression[name] !== undefined)!;
+        const base = toNumber(ApplyValueEvaluator.read(record, expression.ref ?? column));
+        const operand = toNumber(this.evaluateOperand(record, expression[operator] as ArithmeticOperand));
+        if (base === undefined || operand === undefined) {
+            return null;
+        }
+        switch (operator) {
+            case 'add':
+                return base + operand;
+            case 'subtract':
+                return base - operand;
+            case 'multiply':
+                return base * operand;
+            case 'divide':
+                if (operand === 0) {
+                    throw new Error('division by zero');
+                }
+                return this.integerDivision === 'truncate' && Number.isInteger(base) && Number.isInteger(operand)
+                    ? Math.trunc(base / operand)
+                    : base / operand;
+        }
+    }
+
+    private evaluateOperand(record: Record<string, unknown>, operand: CoalesceOperand | ArithmeticOperand): unknown {
+        return isColumnReference(operand) ? ApplyValueEvaluator.read(record, operand.ref) : operand;
+    }
+
+    /**
+     * Value of a column, missing properties are NULL
+     */
+    private static read(record: Record<string, unknown>, column: string): unknown {
+        return record[column] ?? null;
+    }
+}
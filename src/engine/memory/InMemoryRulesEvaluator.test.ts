@@ -0,0 +1,83 @@
+import {MatchRuleFactory} from "@/entities/MatchRuleFactory";
+import {InMemoryRulesEvaluator} from "./InMemoryRulesEvaluator";
+
+describe('InMemoryRulesEvaluator', () => {
+    const rules = MatchRuleFactory.createRules([
+        {ruleName: 'adult', priority: 1, match: {age: {gte: 18}}, apply: {status: 'adult'}},
+        {ruleName: 'senior', priority: 2, match: {age: {gte: 65}}, apply: {status: 'senior'}},
+        {ruleName: 'adult-admin', priority: 3, match: {status: 'adult', role: 'admin'}, apply: {priority: 10}},
+    ]);
+
+    it('should return the changed copy and the applied rule names', () => {
+        const record = {age: 30, role: 'admin', status: null, priority: 0};
+
+        const result = new InMemoryRulesEvaluator().evaluate(rules, record);
+
+        expect(result.appliedRules).toEqual(['adult', 'adult-admin']);
+        expect(result.record).toEqual({age: 30, role: 'admin', status: 'adult', priority: 10, applied_rules: ['adult', 'adult-admin']});
+        expect(record).toEqual({age: 30, role: 'admin', status: null, priority: 0});
+    });
+
+    it('should append to tracking stored as JSON text', () => {
+        const result = new InMemoryRulesEvaluator().evaluate(rules, {age: 70, applied_rules: '["imported"]'});
+
+        expect(result.appliedRules).toEqual(['adult', 'senior']);
+        expect(result.record).toEqual({age: 70, status: 'senior', applied_rules: ['imported', 'adult', 'senior']});
+    });
+
+    it('should not track applied rules when appliedRulesField is false', () => {
+        const result = new InMemoryRulesEvaluator({appliedRulesField: false}).evaluate(rules, {age: 20});
+
+        expect(result.appliedRules).toEqual(['adult']);
+        expect(result.record).toEqual({age: 20, status: 'adult'});
+    });
+
+    it('should use a custom tracking property', () => {
+        const result = new InMemoryRulesEvaluator({appliedRulesField: 'rules'}).evaluate(rules, {age: 20});
+
+        expect(result.record).toEqual({age: 20, status: 'adult', rules: ['adult']});
+    });
+
+    it('should reject an empty tracking property', () => {
+        expect(() => new InMemoryRulesEvaluator({appliedRulesField: ''})).toThrow('appliedRulesField must be a non-empty column name or false');
+    });
+
+    it('should require tracking for stopping rules', () => {
+        const stopping = MatchRuleFactory.createRules([
+            {ruleName: 'stop', match: {age: {gte: 18}}, apply: {status: 'adult'}, stopProcessingOtherRules: true},
+        ]);
+
+        expect(() => new InMemoryRulesEvaluator({appliedRulesField: false}).evaluate(stopping, {age: 20}))
+            .toThrow('Rule "stop" uses stopProcessingOtherRules, which requires the appliedRulesField option');
+    });
+
+    it('should skip rules outside their window as of the given date', () => {
+        const seasonal = MatchRuleFactory.createRules([
+            {ruleName: 'november', match: {age: {gte: 18}}, apply: {status: 'sale'}, validFrom: '2024-11-01', validTo: '2024-12-01'},
+        ]);
+
+        expect(new InMemoryRulesEvaluator({asOf: new Date('2024-11-30T23:59:59Z')}).evaluate(seasonal, {age: 20}).appliedRules)
+            .toEqual(['november']);
+        expect(new InMemoryRulesEvaluator({asOf: new Date('2024-12-01T00:00:00Z')}).evaluate(seasonal, {age: 20}).appliedRules)
+            .toEqual([]);
+    });
+
+    it('should divide integers as configured', () => {
+        const divide = MatchRuleFactory.createRules([
+            {ruleName: 'divide', match: {age: {gte: 18}}, apply: {age: {divide: 2}, priority: {ref: 'priority', divide: 2}}},
+        ]);
+
+        expect(new InMemoryRulesEvaluator().evaluate(divide, {age: 25, priority: 2.5}).record)
+            .toEqual({age: 12, priority: 1.25, applied_rules: ['divide']});
+        expect(new InMemoryRulesEvaluator({integerDivision: 'decimal'}).evaluate(divide, {age: 25, priority: 2.5}).record)
+            .toEqual({age: 12.5, priority: 1.25, applied_rules: ['divide']});
+    });
+
+    it('should fail on division by zero', () => {
+        const divide = MatchRuleFactory.createRules([
+            {ruleName: 'divide', match: {age: {gte: 18}}, apply: {age: {divide: {ref: 'priority'}}}},
+        ]);
+
+        expect(() => new InMemoryRulesEvaluator().evaluate(divide, {age: 20, priority: 0})).toThrow('division by zero');
+    });
+});
@@ -0,0 +1,96 @@
+import {MatchRule} from "@/entities/MatchRule";
+import {getSkipStatus, sortRules} from "@/engine/RuleSelection";
+import {MatchConditionEvaluator} from "@/engine/memory/MatchConditionEvaluator";
+import {ApplyValueEvaluator} from "@/engine/memory/ApplyValueEvaluator";
+import {RuleEvaluationOptions, RuleEvaluationResult} from "@/engine/memory/RuleEvaluation";
+
+/**
+ * Applies match rules to plain objects without a database, e.g. to classify a record before it is written.
+ * The semantics are the same as RulesExecutionService.applyRules on a table with a single row:
+ * rules run in priority order, every rule sees the changes of the rules before it,
+ * disabled or inactive rules and rules without match conditions or apply changes are skipped
+ * and stopping rules exclude the record from later rules.
+ */
+export class InMemoryRulesEvaluator {
+
+    private readonly appliedRulesField: string | false;
+
+    private readonly asOf?: Date;
+
+    private readonly matchConditionEvaluator = new MatchConditionEvaluator();
+
+    private readonly applyValueEvaluator: ApplyValueEvaluator;
+
+    /**
+     * @param options Tracking property of the records, "as of" date of the activation windows and integer division
+     */
+    constructor(options: RuleEvaluationOptions = {}) {
+        this.appliedRulesField = options.appliedRulesField ?? 'applied_rules';
+        this.asOf = options.asOf;
+        this.applyValueEvaluator = new ApplyValueEvaluator(options.integerDivision);
+
+        if (this.appliedRulesField === '') {
+            throw new Error('appliedRulesField must be a non-empty column name or false');
+        }
+    }
+
+    /**
+     * Apply the rules to a copy of the record
+     * @param rules Rules to apply
+     * @param record Record to classify, it is not changed
+     * @returns The changed copy and the names of the applied rules
+     * @throws Error if a stopping rule is used without tracking or an apply expression divides by zero
+     */
+    evaluate<T>(rules: MatchRule<T>[], record: T): RuleEvaluationResult<T> {
+        const current: Record<string, unknown> = {...record as Record<string, unknown>};
+        const appliedRules: string[] = [];
+        // Names of already executed rules that have stopProcessingOtherRules set
+        const stoppingRuleNames: string[] = [];
+        const asOf = this.asOf ?? new Date();
+
+        // Checked for all rules before the first one runs, like RulesExecutionService does
+        const stoppingRule = rules.find(rule => rule.stopProcessingOtherRules);
+        if (stoppingRule && !this.appliedRulesField) {
+            throw new Error(`Rule "${stoppingRule.ruleName}" uses stopProcessingOtherRules, which requires the appliedRulesField option`);
+        }
+
+        for (const rule of sortRules(rules)) {
+            if (getSkipStatus(rule, asOf)) {
+                continue;
+            }
+
+            const stopped = stoppingRuleNames.length > 0
+                && this.trackedRules(current).some(name => stoppingRuleNames.includes(name));
+            if (!stopped && this.matchConditionEvaluator.matches(current, rule.match)) {
+                // Tracking appends to the value before the rule, like the SET clause
+                const tracked = this.trackedRules(current);
+                Object.assign(current, this.applyValueEvaluator.evaluate(current, rule.apply));
+                if (this.appliedRulesField) {
+                    current[this.appliedRulesField] = [...tracked, rule.ruleName];
+                }
+                appliedRules.push(rule.ruleName);
+            }
+            if (rule.stopProcessingOtherRules) {
+                stoppingRuleNames.push(rule.ruleName);
+            }
+        }
+
+        return {record: current as T, appliedRules};
+    }
+
+    /**
+     * Rule names in the tracking property, which may hold an array or a JSON array text like the tracking column
+     */
+    private trackedRules(record: Record<string, unknown>): string[] {
+        const value = this.appliedRulesField ? record[this.appliedRulesField] : undefined;
+        if (typeof value === 'string') {
+            try {
+                const parsed = JSON.parse(value);
+                return Array.isArray(parsed) ? parsed.map(String) : [];
+            } catch {
+                return [];
+            }
+        }
+        return Array.isArray(value) ? value.map(String) : [];
+    }
+}
@@ -0,0 +1,193 @@
+import {
+    escapeRegex,
+    isMatchConditionGroup,
+    isMatchOperators,
+    MatchCondition,
+    MatchConditionGroup,
+    MatchOperators,
+    RegexOptions
+} from "@/entities/MatchCondition";
+import {compareValues, isNull, toText, valuesEqual} from "@/engine/memory/RecordValues";
+
+/**
+ * Result of a condition in SQL three-valued logic, null is UNKNOWN
+ */
+type Truth = boolean | null;
+
+/**
+ * Evaluates MatchRule match conditions against a plain record, the in-memory counterpart of MatchConditionBuilder.
+ * Conditions follow SQL semantics: comparisons with NULL are UNKNOWN and only conditions that are true match.
+ */
+export class MatchConditionEvaluator {
+
+    /**
+     * @returns True if the record matches the condition tree
+     */
+    matches(record: Record<string, unknown>, match: MatchCondition<unknown>): boolean {
+        return this.evaluate(record, match) === true;
+    }
+
+    private evaluate(record: Record<string, unknown>, match: MatchCondition<unknown>): Truth {
+        if (isMatchConditionGroup(match)) {
+            return this.evaluateGroup(record, match);
+        }
+        return MatchConditionEvaluator.and(Object.entries(match)
+            .map(([column, value]) => this.evaluateColumnCondition(record[column], value)));
+    }
+
+    private evaluateGroup(record: Record<string, unknown>, group: MatchConditionGroup<unknown>): Truth {
+        if ('all' in group) {
+            return MatchConditionEvaluator.and(group.all.map(condition => this.evaluate(record, condition)));
+        }
+        if ('any' in group) {
+            return MatchConditionEvaluator.or(group.any.map(condition => this.evaluate(record, condition)));
+        }
+        // NULL (unknown) results of the nested condition count as "not matched", so NOT includes them
+        return this.evaluate(record, group.not) !== true;
+    }
+
+    private evaluateColumnCondition(actual: unknown, value: unknown): Truth {
+        if (typeof value === 'string') {
+            return this.evaluateRegex(actual, value);
+        }
+        if (value === null) {
+            return isNull(actual);
+        }
+        if (isMatchOperators(value)) {
+            return this.evaluateOperators(actual, value);
+        }
+        return MatchConditionEvaluator.equal(actual, value);
+    }
+
+    private evaluateRegex(actual: unknown, pattern: string, options: RegexOptions = {}): Truth {
+        if (isNull(actual)) {
+            return null;
+        }
+        return this.toRegex(pattern, options).test(toText(actual));
+    }
+
+    /**
+     * Apply the literal and whole word options to the pattern, like MatchConditionBuilder
+     */
+    private toRegex(pattern: string, options: RegexOptions): RegExp {
+        let regex = options.literal ? escapeRegex(pattern) : pattern;
+        if (options.wholeWord) {
+            regex = `\\b(?:${regex})\\b`;
+        }
+        return new RegExp(regex, options.caseInsensitive ? 'i' : '');
+    }
+
+    private evaluateOperators(actual: unknown, operators: MatchOperators): Truth {
+        const conditions: Truth[] = [];
+        const compare = (expected: unknown, test: (order: number) => boolean): Truth =>
+            isNull(actual) ? null : test(compareValues(actual, expected));
+
+        if (operators.gt !== undefined) {
+            conditions.push(compare(operators.gt, order => order > 0));
+        }
+        if (operators.gte !== undefined) {
+            conditions.push(compare(operators.gte, order => order >= 0));
+        }
+        if (operators.lt !== undefined) {
+            conditions.push(compare(operators.lt, order => order < 0));
+        }
+        if (operators.lte !== undefined) {
+            conditions.push(compare(operators.lte, order => order <= 0));
+        }
+        if (operators.between !== undefined) {
+            const [from, to] = operators.between;
+            conditions.push(MatchConditionEvaluator.and([
+                compare(from, order => order >= 0),
+                compare(to, order => order <= 0),
+            ]));
+        }
+        if (operators.in !== undefined) {
+            conditions.push(MatchConditionEvaluator.or(operators.in.map(value => MatchConditionEvaluator.equal(actual, value))));
+        }
+        if (operators.notIn !== undefined) {
+            conditions.push(isNull(actual) || !operators.notIn.some(value => valuesEqual(actual, value)));
+        }
+        if (operators.isNull !== undefined) {
+            conditions.push(isNull(actual) === operators.isNull);
+        }
+        if (operators.isNotNull !== undefined) {
+            conditions.push(isNull(actual) !== operators.isNotNull);
+        }
+        if (operators.not !== undefined) {
+            conditions.push(this.evaluateNot(actual, operators.not, operators));
+        }
+        if (operators.pattern !== undefined) {
+            conditions.push(this.evaluateRegex(actual, operators.pattern, operators));
+        }
+        if (operators.like !== undefined) {
+            conditions.push(MatchConditionEvaluator.like(actual, operators.like, false));
+        }
+        if (operators.ilike !== undefined) {
+            conditions.push(MatchConditionEvaluator.like(actual, operators.ilike, true));
+        }
+
+        return MatchConditionEvaluator.and(conditions);
+    }
+
+    /**
+     * Negated regex or equality. NULL values are included, because they match neither.
+     */
+    private evaluateNot(actual: unknown, value: unknown, options: RegexOptions): Truth {
+        if (value === null) {
+            return !isNull(actual);
+        }
+        if (isNull(actual)) {
+            return true;
+        }
+        return typeof value === 'string'
+            ? !this.evaluateRegex(actual, value, options)
+            : !valuesEqual(actual, value);
+    }
+
+    private static equal(actual: unknown, expected: unknown): Truth {
+        return isNull(actual) ? null : valuesEqual(actual, expected);
+    }
+
+    /**
+     * LIKE pattern with "%", "_" and backslash escapes, matched against the whole value
+     */
+    private static like(actual: unknown, pattern: string, caseInsensitive: boolean): Truth {
+        if (isNull(actual)) {
+            return null;
+        }
+        let regex = '';
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern[i];
+            if (char === '\\' && i + 1 < pattern.length) {
+                regex += escapeRegex(pattern[++i]);
+            } else if (char === '%') {
+                regex += '[\\s\\S]*';
+            } else if (char === '_') {
+                regex += '[\\s\\S]';
+            } else {
+                regex += escapeRegex(char);
+            }
+        }
+        return new RegExp(`^${regex}$`, caseInsensitive ? 'iu' : 'u').test(toText(actual));
+    }
+
+    /**
+     * SQL AND: false wins over UNKNOWN, an empty list is true
+     */
+    private static and(values: Truth[]): Truth {
+        if (values.includes(false)) {
+            return false;
+        }
+        return values.includes(null) ? null : true;
+    }
+
+    /**
+     * SQL OR: true wins over UNKNOWN, an empty list is false
+     */
+    private static or(values: Truth[]): Truth {
+        if (values.includes(true)) {
+            return true;
+        }
+        return values.includes(null) ? null : false;
+    }
+}
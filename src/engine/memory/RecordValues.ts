@@ -0,0 +1,70 @@
+/**
+ * Value conversions of the in-memory evaluator. Records hold driver values, so the same column can be
+ * a Date or an ISO string, a boolean or 0 / 1, and a number or a numeric string (PostgreSQL numeric).
+ */
+
+/**
+ * SQL NULL, missing properties are NULL as well
+ */
+export function isNull(value: unknown): value is null | undefined {
+    return value === null || value === undefined;
+}
+
+/**
+ * Text of a value like CAST(value AS TEXT), dates are written as ISO strings
+ */
+export function toText(value: unknown): string {
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (value !== null && typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+    return String(value);
+}
+
+/**
+ * Number of a numeric value, booleans are 0 and 1 like in SQLite, undefined for other values
+ */
+export function toNumber(value: unknown): number | undefined {
+    if (typeof value === 'number' || typeof value === 'bigint') {
+        return Number(value);
+    }
+    if (typeof value === 'boolean') {
+        return value ? 1 : 0;
+    }
+    if (typeof value === 'string' && /^\s*[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?\s*$/.test(value)) {
+        return Number(value);
+    }
+    return undefined;
+}
+
+/**
+ * Compare two non NULL values: dates by time, numbers numerically and everything else as text
+ * @returns A negative number, 0 or a positive number like Array.sort comparators
+ */
+export function compareValues(actual: unknown, expected: unknown): number {
+    if (actual instanceof Date || expected instanceof Date) {
+        return toTime(actual) - toTime(expected);
+    }
+    const actualNumber = toNumber(actual);
+    const expectedNumber = toNumber(expected);
+    if (actualNumber !== undefined && expectedNumber !== undefined
+        && (typeof actual !== 'string' || typeof expected !== 'string')) {
+        return actualNumber - expectedNumber;
+    }
+    const actualText = toText(actual);
+    const expectedText = toText(expected);
+    return actualText < expectedText ? -1 : actualText > expectedText ? 1 : 0;
+}
+
+/**
+ * Equality of two non NULL values with the conversions of compareValues
+ */
+export function valuesEqual(actual: unknown, expected: unknown): boolean {
+    return compareValues(actual, expected) === 0;
+}
+
+function toTime(value: unknown): number {
+    return value instanceof Date ? value.getTime() : Date.parse(toText(value));
+}
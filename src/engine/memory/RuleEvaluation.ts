@@ -0,0 +1,45 @@
+/**
+ * Division of two integers:
+ * - truncate: the remainder is dropped, like PostgreSQL
+ * - decimal: the remainder is kept, like MySQL and MariaDB
+ */
+export type IntegerDivision = 'truncate' | 'decimal';
+
+/**
+ * Options of InMemoryRulesEvaluator
+ */
+export interface RuleEvaluationOptions {
+
+    /**
+     * Property of the record that tracks the names of applied rules, default "applied_rules" like
+     * RulesExecutionOptions.appliedRulesField. false turns tracking off, which also rules out stopProcessingOtherRules.
+     */
+    readonly appliedRulesField?: string | false;
+
+    /**
+     * Date the activation windows of the rules are checked against, defaults to the time of each evaluation
+     */
+    readonly asOf?: Date;
+
+    /**
+     * Defaults to "truncate". SQLite keeps the remainder for numbers given in the rule and drops it for integer
+     * columns, so neither mode agrees with it unless the division is exact.
+     */
+    readonly integerDivision?: IntegerDivision;
+}
+
+/**
+ * Outcome of evaluating rules against a single record
+ */
+export interface RuleEvaluationResult<T> {
+
+    /**
+     * Copy of the record with the changes of all applied rules and the updated tracking property
+     */
+    readonly record: T;
+
+    /**
+     * Names of the rules applied to the record in execution order
+     */
+    readonly appliedRules: string[];
+}
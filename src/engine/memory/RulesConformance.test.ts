@@ -0,0 +1,196 @@
+import {Kysely} from 'kysely';
+import {createTestDb} from '@/test/test-database';
+import {Database, NewUser} from '@/test/database.types';
+import {MatchRuleFactory} from "@/entities/MatchRuleFactory";
+import {RulesExecutionService} from "@/engine/RulesExecutionService";
+import {RulesDialects} from "@/engine/dialect/RulesDialects";
+import {InMemoryRulesEvaluator} from "./InMemoryRulesEvaluator";
+
+const USERS: NewUser[] = [
+    {email: 'john@example.com', name: 'John Doe', role: 'user', status: 'active', age: 30, priority: 1, isVerified: true, phone: '+1234567890'},
+    {email: 'Jane@Example.org', name: 'Jane Smith', role: 'admin', age: 25, priority: 2, isVerified: false},
+    {email: 'bob.art@example.com', name: 'Bob Artist', role: 'user', status: 'inactive', priority: 3, isVerified: true, phone: '+4412345'},
+    {email: 'party_alice@test.net', name: 'Alice 100%', role: 'moderator', status: 'pending', age: 41, priority: 0, isVerified: false, phone: '+1999'},
+    {email: 'charlie@example.com', name: 'Charlie', role: 'guest', age: 17, priority: 5, isVerified: true},
+];
+
+const COLUMNS = ['id', 'email', 'name', 'role', 'status', 'age', 'priority', 'isVerified', 'phone', 'applied_rules'] as const;
+
+/**
+ * Rule sets that both engines must apply with the same outcome.
+ * Every case runs against all users, so NULL values and non-matching rows are covered as well.
+ */
+const CASES: { name: string, rules: unknown[] }[] = [
+    {
+        name: 'regex and equality',
+        rules: [{ruleName: 'com-30', match: {email: 'example\\.com$', age: 30}, apply: {status: 'matched'}}],
+    },
+    {
+        name: 'regex options',
+        rules: [
+            {ruleName: 'case', match: {email: {pattern: '^jane', caseInsensitive: true}}, apply: {status: 'case'}},
+            {ruleName: 'word', match: {email: {pattern: 'art', wholeWord: true}}, apply: {role: 'word'}},
+            {ruleName: 'literal', match: {name: {pattern: '100%', literal: true}}, apply: {phone: 'literal'}},
+        ],
+    },
+    {
+        name: 'comparison and set operators',
+        rules: [
+            {ruleName: 'gt', match: {age: {gt: 25}}, apply: {status: 'gt'}},
+            {ruleName: 'between', match: {age: {between: [17, 25]}}, apply: {role: 'between'}},
+            {ruleName: 'in', match: {priority: {in: [0, 5]}}, apply: {phone: 'in'}},
+            {ruleName: 'not-in', match: {age: {notIn: [30, 41]}}, apply: {name: 'not-in'}},
+        ],
+    },
+    {
+        name: 'null operators and negation',
+        rules: [
+            {ruleName: 'is-null', match: {status: {isNull: true}}, apply: {role: 'no-status'}},
+            {ruleName: 'is-not-null', match: {phone: {isNotNull: true}}, apply: {priority: 9}},
+            {ruleName: 'not-regex', match: {phone: {not: '^\\+1'}}, apply: {name: 'not-us'}},
+            {ruleName: 'not-value', match: {age: {not: 30}}, apply: {status: 'not-30'}},
+            {ruleName: 'not-null', match: {age: {not: null}}, apply: {isVerified: true}},
+        ],
+    },
+    {
+        name: 'like and ilike',
+        rules: [
+            {ruleName: 'like', match: {email: {like: '%@example.com'}}, apply: {status: 'like'}},
+            {ruleName: 'like-case', match: {email: {like: 'jane%'}}, apply: {role: 'like-case'}},
+            {ruleName: 'ilike', match: {email: {ilike: 'JANE%'}}, apply: {phone: 'ilike'}},
+            {ruleName: 'escaped', match: {email: {like: 'party\\_%'}}, apply: {name: 'escaped'}},
+        ],
+    },
+    {
+        name: 'condition groups with NULL values',
+        rules: [
+            {ruleName: 'any', match: {any: [{age: {gt: 35}}, {phone: '^\\+44'}]}, apply: {status: 'any'}},
+            {ruleName: 'all', match: {all: [{role: 'user'}, {age: {lt: 40}}]}, apply: {role: 'all'}},
+            {ruleName: 'not', match: {not: {age: {lt: 30}}}, apply: {phone: 'not'}},
+            {ruleName: 'nested', match: {not: {any: [{status: 'active'}, {all: [{isVerified: false}, {age: {gte: 40}}]}]}}, apply: {name: 'nested'}},
+        ],
+    },
+    {
+        name: 'booleans and null matches',
+        rules: [
+            {ruleName: 'verified', match: {isVerified: true}, apply: {status: 'verified'}},
+            {ruleName: 'no-phone', match: {phone: null}, apply: {isVerified: false}},
+        ],
+    },
+    {
+        name: 'priority order with chained rules',
+        rules: [
+            {ruleName: 'second', priority: 2, match: {status: 'adult'}, apply: {role: 'adult-user'}},
+            {ruleName: 'first', priority: 1, match: {age: {gte: 18}}, apply: {status: 'adult'}},
+            {ruleName: 'third', priority: 3, match: {role: 'adult-user'}, apply: {priority: {add: 10}}},
+        ],
+    },
+    {
+        name: 'stopProcessingOtherRules',
+        rules: [
+            {ruleName: 'admins', priority: 1, match: {role: 'admin|moderator'}, apply: {status: 'staff'}, stopProcessingOtherRules: true},
+            {ruleName: 'everyone', priority: 2, match: {email: '@'}, apply: {status: 'member'}},
+            {ruleName: 'minors', priority: 2, match: {age: {lt: 18}}, apply: {role: 'minor'}, stopProcessingOtherRules: true},
+            {ruleName: 'late', priority: 3, match: {email: '@'}, apply: {phone: 'late'}},
+        ],
+    },
+    {
+        name: 'skipped rules',
+        rules: [
+            {ruleName: 'no-match', match: {}, apply: {status: 'no-match'}},
+            {ruleName: 'no-apply', match: {email: '@'}, apply: {}},
+            {ruleName: 'runs', match: {email: '@'}, apply: {status: 'runs'}},
+        ],
+    },
+    {
+        name: 'computed apply values',
+        rules: [{
+            ruleName: 'computed',
+            match: {email: '@'},
+            apply: {
+                name: {template: '{name} <{email}> {{{status}}}'},
+                status: {coalesce: [{ref: 'status'}, {ref: 'phone'}, 'unknown']},
+                phone: {extract: {from: 'email', pattern: '^([a-z]+)@example\\.com$'}},
+                role: {ref: 'email'},
+                age: {multiply: 2},
+                priority: {ref: 'priority', multiply: {ref: 'age'}},
+            }
+        }],
+    },
+    {
+        name: 'null literals and arithmetic with NULL',
+        rules: [
+            {ruleName: 'clear', match: {status: 'active|inactive'}, apply: {status: null, age: {add: 1}}},
+            {ruleName: 'subtract', match: {status: null}, apply: {priority: {subtract: {ref: 'age'}}}},
+        ],
+    },
+    {
+        name: 'disabled and inactive rules',
+        rules: [
+            {ruleName: 'disabled', match: {email: '@'}, apply: {status: 'disabled'}, enabled: false},
+            {ruleName: 'expired', match: {email: '@'}, apply: {role: 'expired'}, validTo: '2000-01-01'},
+            {ruleName: 'upcoming', match: {email: '@'}, apply: {role: 'upcoming'}, validFrom: '2999-01-01'},
+            {ruleName: 'active', match: {email: '@'}, apply: {phone: 'active'}, validFrom: '2000-01-01', validTo: '2999-01-01'},
+        ],
+    },
+    {
+        // Remainders depend on the database, see the division test below
+        name: 'division without remainder',
+        rules: [{ruleName: 'divide', match: {age: {in: [25, 30]}}, apply: {age: {divide: 5}, priority: {ref: 'age', divide: {ref: 'age'}}}}],
+    },
+];
+
+describe('rules conformance of SQL and in-memory evaluation', () => {
+    let db: Kysely<Database>;
+
+    beforeEach(async () => {
+        db = await createTestDb();
+        const dialect = RulesDialects.forDatabase(db);
+        await db.insertInto('users_results')
+            .values(USERS.map(user => ({...user, isVerified: dialect.toSqlValue(user.isVerified) as boolean})))
+            .execute();
+    });
+
+    afterEach(async () => {
+        await db.destroy();
+    });
+
+    /**
+     * Compared columns with driver specific values converted, e.g. SQLite booleans and JSON text
+     */
+    const readUsers = async () => {
+        const rows = await db.selectFrom('users_results').select([...COLUMNS]).orderBy('id').execute();
+        return rows.map(row => ({
+            ...row,
+            isVerified: row.isVerified === null ? null : Boolean(row.isVerified),
+            applied_rules: typeof row.applied_rules === 'string' ? JSON.parse(row.applied_rules) : row.applied_rules,
+        }));
+    };
+
+    it.each(CASES)('should apply "$name" the same way', async ({rules}) => {
+        const matchRules = MatchRuleFactory.createRules(rules);
+        const records = await readUsers();
+
+        await new RulesExecutionService(db).applyRules(matchRules, 'users_results');
+
+        const evaluator = new InMemoryRulesEvaluator();
+        expect(records.map(record => evaluator.evaluate(matchRules, record).record)).toEqual(await readUsers());
+    });
+
+    it('should differ from SQLite in divisions with a remainder', async () => {
+        const rules = MatchRuleFactory.createRules([
+            {ruleName: 'divide', match: {age: 25}, apply: {age: {divide: 2}, priority: {ref: 'age', divide: {ref: 'priority'}}}},
+        ]);
+        const findJane = async () => (await readUsers()).find(user => user.email === 'Jane@Example.org');
+        const jane = await findJane();
+        const evaluate = (integerDivision: 'truncate' | 'decimal') =>
+            new InMemoryRulesEvaluator({integerDivision}).evaluate(rules, jane).record;
+
+        await new RulesExecutionService(db).applyRules(rules, 'users_results');
+
+        // 25 / 2 and the columns 25 / 2: SQLite keeps the remainder of the number only
+        expect(await findJane()).toMatchObject({age: 12.5, priority: 12});
+        expect(evaluate('truncate')).toMatchObject({age: 12, priority: 12});
+        expect(evaluate('decimal')).toMatchObject({age: 12.5, priority: 12.5});
+    });
+});
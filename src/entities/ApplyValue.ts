@@ -0,0 +1,211 @@
+import {ScalarValue} from "@/entities/MatchCondition";
+
+/**
+ * Reference to another column of the same row, e.g. { "nickname": { "ref": "first_name" } }
+ * copies first_name into nickname.
+ */
+export interface ColumnReference {
+    ref: string;
+}
+
+/**
+ * Text built from literal text and column placeholders, e.g. { "template": "{first_name} {last_name}" }.
+ * NULL columns are rendered as empty text. Use "{{" and "}}" for literal braces.
+ */
+export interface TemplateExpression {
+    template: string;
+}
+
+export type ArithmeticOperand = number | ColumnReference;
+
+/**
+ * Arithmetic on the target column, e.g. { "score": { "add": 10 } } sets score = score + 10.
+ * If "ref" is given, the calculation is based on that column instead of the target column,
+ * e.g. { "total": { "ref": "price", "multiply": { "ref": "quantity" } } }.
+ * Exactly one operator must be given.
+ */
+export interface ArithmeticExpression {
+    ref?: string;
+    add?: ArithmeticOperand;
+    subtract?: ArithmeticOperand;
+    multiply?: ArithmeticOperand;
+    divide?: ArithmeticOperand;
+}
+
+export type CoalesceOperand = ScalarValue | null | ColumnReference;
+
+/**
+ * First non NULL operand, e.g. { "display_name": { "coalesce": [{ "ref": "nickname" }, { "ref": "name" }, "Unknown"] } }
+ */
+export interface CoalesceExpression {
+    coalesce: CoalesceOperand[];
+}
+
+/**
+ * Text captured by the first capture group of a regex pattern applied to a source column,
+ * e.g. { "domain": { "extract": { "from": "email", "pattern": "@(.+)$" } } }.
+ * The target column keeps its value if the pattern does not match.
+ */
+export interface ExtractExpression {
+    extract: {
+        from: string;
+        pattern: string;
+    };
+}
+
+export type ApplyExpression = ColumnReference
+    | TemplateExpression
+    | ArithmeticExpression
+    | CoalesceExpression
+    | ExtractExpression;
+
+/**
+ * A single apply value: a literal value or an expression computed from the row
+ */
+export type ApplyValue<V> = V | null | ApplyExpression;
+
+/**
+ * Changes to apply by column name
+ */
+export type ApplyValues<T> = {
+    [K in keyof T]?: ApplyValue<T[K]>;
+};
+
+export const ARITHMETIC_OPERATORS = ['add', 'subtract', 'multiply', 'divide'] as const;
+
+export const APPLY_EXPRESSION_KEYS = ['ref', 'template', 'coalesce', 'extract', ...ARITHMETIC_OPERATORS] as const;
+
+/**
+ * Key of an explicit literal apply value, e.g. { "meta": { "$literal": { "tier": "gold" } } } writes the
+ * JSON document { "tier": "gold" } even where expression objects are expected, see MatchRuleFactory.createRulesStrict
+ */
+export const LITERAL_KEY = '$literal';
+
+/**
+ * Explicit literal apply value, see LITERAL_KEY
+ */
+export interface LiteralValue {
+    [LITERAL_KEY]: unknown;
+}
+
+/**
+ * Returns true if the apply value is an expression. Other objects, e.g. JSON documents, are literal values.
+ */
+export function isApplyExpression(value: unknown): value is ApplyExpression {
+    return value !== null
+        && typeof value === 'object'
+        && !Array.isArray(value)
+        && !(value instanceof Date)
+        && Object.keys(value).some(key => (APPLY_EXPRESSION_KEYS as readonly string[]).includes(key));
+}
+
+export function isColumnReference(value: unknown): value is ColumnReference {
+    return value !== null
+        && typeof value === 'object'
+        && Object.keys(value).length === 1
+        && typeof (value as ColumnReference).ref === 'string';
+}
+
+export function isLiteralValue(value: unknown): value is LiteralValue {
+    return value !== null
+        && typeof value === 'object'
+        && !Array.isArray(value)
+        && Object.keys(value).length === 1
+        && LITERAL_KEY in value;
+}
+
+/**
+ * Replace explicit literal values with the values they contain
+ */
+export function unwrapLiterals<T>(apply: ApplyValues<T>): ApplyValues<T> {
+    if (!Object.values(apply).some(isLiteralValue)) {
+        return apply;
+    }
+    return Object.fromEntries(Object.entries(apply)
+        .map(([column, value]) => [column, isLiteralValue(value) ? value[LITERAL_KEY] : value])) as ApplyValues<T>;
+}
+
+/**
+ * Wrap objects and arrays that are literal values, e.g. JSON documents, in explicit literal values,
+ * so they can not be mistaken for expressions. Dates are kept.
+ */
+export function wrapLiterals(apply: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(apply).map(([column, value]) => {
+        const isObjectLiteral = value !== null && typeof value === 'object' && !(value instanceof Date) && !isApplyExpression(value);
+        return [column, isObjectLiteral ? {[LITERAL_KEY]: value} : value];
+    }));
+}
+
+/**
+ * Returns true if the apply value is an arithmetic expression, e.g. { "add": 10 } or { "ref": "price", "multiply": 2 }
+ */
+export function isArithmeticExpression(value: unknown): value is ArithmeticExpression {
+    return isApplyExpression(value) && ARITHMETIC_OPERATORS.some(operator => operator in value);
+}
+
+/**
+ * Column names referenced by an apply value
+ */
+export function getReferencedColumns(value: unknown): string[] {
+    if (!isApplyExpression(value)) {
+        return [];
+    }
+    if ('template' in value) {
+        return [...value.template.matchAll(/\{\{|\}\}|\{([^{}]+)\}/g)]
+            .filter(match => match[1] !== undefined)
+            .map(match => match[1].trim());
+    }
+    if ('coalesce' in value) {
+        return value.coalesce.filter(isColumnReference).map(operand => operand.ref);
+    }
+    if ('extract' in value) {
+        return [value.extract.from];
+    }
+
+    const columns: string[] = [];
+    const expression = value as ArithmeticExpression;
+    if (typeof expression.ref === 'string') {
+        columns.push(expression.ref);
+    }
+    for (const operator of ARITHMETIC_OPERATORS) {
+        const operand = expression[operator];
+        if (isColumnReference(operand)) {
+            columns.push(operand.ref);
+        }
+    }
+    return columns;
+}
+
+/**
+ * Returns true if the apply value reads the column it is written to, e.g. { "score": { "add": 10 } }.
+ * Extract expressions read it too, because the column keeps its value if the pattern does not match.
+ */
+export function readsTargetColumn(column: string, value: unknown): boolean {
+    if (!isApplyExpression(value)) {
+        return false;
+    }
+    if ('extract' in value) {
+        return true;
+    }
+    return (isArithmeticExpression(value) && value.ref === undefined) || getReferencedColumns(value).includes(column);
+}
+
+/**
+ * Order the columns of an apply object so that no column is written before a value that reads it is computed.
+ * Needed where the assignments of an UPDATE see the values written before them, e.g. in MySQL.
+ * @returns Column names in assignment order, undefined if the values read each other's columns in a cycle
+ */
+export function orderForSequentialAssignment(apply: Record<string, unknown>): string[] | undefined {
+    const remaining = Object.keys(apply);
+    const ordered: string[] = [];
+    while (remaining.length > 0) {
+        const next = remaining.find(column => !remaining.some(other =>
+            other !== column && getReferencedColumns(apply[other]).includes(column)));
+        if (next === undefined) {
+            return undefined;
+        }
+        ordered.push(next);
+        remaining.splice(remaining.indexOf(next), 1);
+    }
+    return ordered;
+}
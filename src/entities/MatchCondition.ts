@@ -0,0 +1,193 @@
+/**
+ * Value types that can be compared with range operators: integers, decimals and timestamps.
+ * Timestamps can be given as Date objects or as ISO formatted strings.
+ */
+export type ComparableValue = number | bigint | string | Date;
+
+/**
+ * Value types that can be used for equality and set membership.
+ */
+export type ScalarValue = ComparableValue | boolean;
+
+/**
+ * Options for regex patterns given with the "pattern" operator or as a string "not" operator
+ */
+export interface RegexOptions {
+    /**
+     * Ignore case, compiles to ~* on PostgreSQL
+     */
+    caseInsensitive?: boolean;
+
+    /**
+     * The pattern must match whole words, e.g. "art" matches "modern art" but not "party"
+     */
+    wholeWord?: boolean;
+
+    /**
+     * The pattern is an exact substring, regex metacharacters like "." are escaped
+     */
+    literal?: boolean;
+}
+
+/**
+ * Operator object used as a match value to express comparisons instead of regex or equality.
+ * All operators given in one object are combined with AND.
+ * For example, { age: { gt: 18, lte: 65 } } matches records where age > 18 AND age <= 65.
+ */
+export interface MatchOperators<V = ComparableValue> extends RegexOptions {
+    gt?: V;
+    gte?: V;
+    lt?: V;
+    lte?: V;
+
+    /**
+     * Inclusive range: [from, to]
+     */
+    between?: [V, V];
+
+    /**
+     * Value equals one of the given values. Strings are compared by equality, not as regex.
+     */
+    in?: ScalarValue[];
+
+    /**
+     * Value is NULL or does not equal any of the given values
+     */
+    notIn?: ScalarValue[];
+
+    /**
+     * true matches NULL values, false matches non NULL values
+     */
+    isNull?: boolean;
+
+    /**
+     * true matches non NULL values, false matches NULL values
+     */
+    isNotNull?: boolean;
+
+    /**
+     * Negated match: a string is a regex pattern that must NOT match, other values must NOT be equal.
+     * NULL values are matched by the negation, because they do not match the pattern or value.
+     */
+    not?: ScalarValue | null;
+
+    /**
+     * Regex pattern, the same as a string match value, but can be combined with regex options,
+     * e.g. { category: { pattern: "groceries", caseInsensitive: true, wholeWord: true } }
+     */
+    pattern?: string;
+
+    /**
+     * Case-sensitive SQL LIKE pattern, % matches any sequence and _ matches a single character
+     */
+    like?: string;
+
+    /**
+     * Case-insensitive SQL LIKE pattern
+     */
+    ilike?: string;
+}
+
+export const COMPARISON_OPERATORS = ['gt', 'gte', 'lt', 'lte'] as const;
+
+export const SET_OPERATORS = ['in', 'notIn'] as const;
+
+export const NULL_OPERATORS = ['isNull', 'isNotNull'] as const;
+
+export const PATTERN_OPERATORS = ['like', 'ilike'] as const;
+
+export const REGEX_OPTIONS = ['caseInsensitive', 'wholeWord', 'literal'] as const;
+
+export const MATCH_OPERATORS: ReadonlyArray<keyof MatchOperators> = [
+    ...COMPARISON_OPERATORS,
+    'between',
+    ...SET_OPERATORS,
+    ...NULL_OPERATORS,
+    'not',
+    'pattern',
+    ...PATTERN_OPERATORS,
+    ...REGEX_OPTIONS,
+];
+
+/**
+ * A single match value: a regex pattern for strings, a direct value for equality,
+ * null for IS NULL, or an operator object.
+ */
+export type MatchValue<V> = V | null | MatchOperators<V extends ComparableValue ? V : ComparableValue>;
+
+/**
+ * Match conditions by column name. All conditions are combined with AND.
+ */
+export type MatchConditions<T> = {
+    [K in keyof T]?: MatchValue<T[K]>;
+};
+
+/**
+ * All nested conditions must match
+ */
+export interface AllConditionGroup<T> {
+    all: MatchCondition<T>[];
+}
+
+/**
+ * At least one of the nested conditions must match
+ */
+export interface AnyConditionGroup<T> {
+    any: MatchCondition<T>[];
+}
+
+/**
+ * The nested condition must not match. Rows where the nested condition
+ * can not be evaluated because of NULL values are treated as not matching, so they are included.
+ */
+export interface NotConditionGroup<T> {
+    not: MatchCondition<T>;
+}
+
+export type MatchConditionGroup<T> = AllConditionGroup<T> | AnyConditionGroup<T> | NotConditionGroup<T>;
+
+/**
+ * A match condition is either a flat object of column conditions combined with AND,
+ * or a group that combines nested conditions. Groups can be nested to any depth, e.g.
+ * { any: [ { description: "LIDL" }, { all: [ { merchant: "MAXIMA" }, { amount: { lt: 100 } } ] } ] }
+ * The keys "all", "any" and "not" are reserved for groups and can not be used as column names.
+ */
+export type MatchCondition<T> = MatchConditions<T> | MatchConditionGroup<T>;
+
+export const GROUP_KEYS = ['all', 'any', 'not'] as const;
+
+/**
+ * Returns true if the condition object is a group. Validity of the group is checked by MatchRuleFactory.
+ */
+export function isMatchConditionGroup<T>(condition: MatchCondition<T>): condition is MatchConditionGroup<T> {
+    return Object.keys(condition).some(key => (GROUP_KEYS as readonly string[]).includes(key));
+}
+
+/**
+ * Returns true if the match value is an operator object rather than a direct value.
+ */
+export function isMatchOperators(value: unknown): value is MatchOperators {
+    return value !== null
+        && typeof value === 'object'
+        && !Array.isArray(value)
+        && !(value instanceof Date);
+}
+
+export function isComparableValue(value: unknown): value is ComparableValue {
+    return (typeof value === 'number' && Number.isFinite(value))
+        || typeof value === 'bigint'
+        || typeof value === 'string'
+        || (value instanceof Date && !isNaN(value.getTime()));
+}
+
+export function isScalarValue(value: unknown): value is ScalarValue {
+    return isComparableValue(value) || typeof value === 'boolean';
+}
+
+/**
+ * Escape regex metacharacters, so the text is matched literally.
+ * The escapes are understood by PostgreSQL advanced regular expressions and JavaScript.
+ */
+export function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
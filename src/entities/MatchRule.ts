@@ -1,3 +1,6 @@
+import {MatchCondition} from "@/entities/MatchCondition";
+import {ApplyValues} from "@/entities/ApplyValue";
+
 /**
  * Represents a match rule that can be applied to database records
  */
@@ -21,17 +24,51 @@ export interface MatchRule<T = any> {
      * Values will be matched as regex patterns if they are strings
      * and direct equality for other types.
      * For example, { "category": "Groceries|Food" } will match records where category is either "Groceries" or "Food".
+     * Operator objects can be used for comparisons, e.g. { "age": { "gt": 18, "lte": 65 } }
+     * or { "amount": { "between": [10, 100] } }.
+     * Conditions can be combined into nested "all", "any" and "not" groups.
      */
-    readonly match: Partial<T>;
+    readonly match: MatchCondition<T>;
 
     /**
      * Changes to apply to matched records.
      * This object will be used in the SET clause of the SQL UPDATE statement.
+     * Values can be computed from other columns of the row, e.g. { "nickname": { "ref": "name" } },
+     * { "label": { "template": "{name} ({role})" } }, { "score": { "add": 10 } }
+     * or { "phone": { "coalesce": [{ "ref": "phone" }, "unknown"] } }.
      */
-    readonly apply: Partial<T>;
+    readonly apply: ApplyValues<T>;
 
     /**
-     * No further rules will be applied if this rule result is true.
+     * If true, rows matched by this rule are excluded from all rules with a higher priority number
+     * (first-match-wins per row). Requires applied rules tracking, because the tracking field is
+     * used to recognise rows that were already hit by a stopping rule.
      */
     readonly stopProcessingOtherRules: boolean;
+
+    /**
+     * False to keep the rule without applying it, rules are enabled if not set
+     */
+    readonly enabled?: boolean;
+
+    /**
+     * Start of the activation window, inclusive. Runs as of an earlier date skip the rule.
+     */
+    readonly validFrom?: Date;
+
+    /**
+     * End of the activation window, exclusive. Runs as of this date or later skip the rule.
+     */
+    readonly validTo?: Date;
+}
+
+/**
+ * Activation properties of a rule object, dates may be ISO 8601 strings
+ */
+export interface RuleActivationDefinition {
+    readonly enabled?: boolean;
+
+    readonly validFrom?: Date | string;
+
+    readonly validTo?: Date | string;
 }
@@ -105,6 +105,300 @@ describe('MatchRuleFactory', () => {
     });
   });
 
+  describe('match operators', () => {
+    it('should accept comparison and between operators', () => {
+      const match = {
+        age: { gt: 18, lte: 65 },
+        amount: { between: [10.5, 100] },
+        created_at: { gte: '2024-01-01', lt: new Date('2025-01-01') }
+      };
+
+      const rule = MatchRuleFactory.create({ ruleName: 'operators', match, apply: { status: 'x' } });
+
+      expect(rule.match).toEqual(match);
+    });
+
+    it('should round-trip set, null and negation operators from JSON', () => {
+      const match = {
+        status: { in: ['active', 'pending'], not: 'test' },
+        role: { notIn: ['guest'] },
+        phone: { isNull: true },
+        email: { isNotNull: true, like: '%@example.com', ilike: '%@EXAMPLE.COM' },
+        name: null,
+        age: { not: 30 }
+      };
+
+      const rule = MatchRuleFactory.create(JSON.parse(JSON.stringify({ ruleName: 'ops', match, apply: { status: 'x' } })));
+
+      expect(rule.match).toEqual(match);
+    });
+
+    it('should throw error for invalid set, null and negation operands', () => {
+      const create = (match: unknown) => () => MatchRuleFactory.create({ ruleName: 'r', match, apply: { status: 'x' } });
+
+      expect(create({ status: { in: [] } })).toThrow('Invalid match condition "status.in": expected a non-empty array of values');
+      expect(create({ status: { notIn: 'active' } })).toThrow('Invalid match condition "status.notIn"');
+      expect(create({ status: { isNull: 'yes' } })).toThrow('Invalid match condition "status.isNull": expected a boolean');
+      expect(create({ status: { not: ['a'] } })).toThrow('Invalid match condition "status.not"');
+      expect(create({ status: { like: 5 } })).toThrow('Invalid match condition "status.like": expected a LIKE pattern string');
+    });
+
+    it('should accept regex options for patterns and negated patterns', () => {
+      const match = {
+        category: { pattern: 'groceries', caseInsensitive: true, wholeWord: true },
+        email: { pattern: 'john@example.com', literal: true },
+        status: { not: 'test', caseInsensitive: true }
+      };
+
+      expect(MatchRuleFactory.create({ ruleName: 'r', match, apply: { status: 'x' } }).match).toEqual(match);
+    });
+
+    it('should throw error for invalid regex options', () => {
+      const create = (match: unknown) => () => MatchRuleFactory.create({ ruleName: 'r', match, apply: { status: 'x' } });
+
+      expect(create({ status: { pattern: 5 } })).toThrow('Invalid match condition "status.pattern": expected a regex pattern string');
+      expect(create({ status: { pattern: 'a', literal: 'yes' } })).toThrow('Invalid match condition "status.literal": expected a boolean');
+      expect(create({ age: { gt: 5, caseInsensitive: true } }))
+        .toThrow('Invalid match condition "age.caseInsensitive": regex options require a "pattern" or a string "not" operator');
+      expect(create({ age: { not: 5, wholeWord: true } }))
+        .toThrow('Invalid match condition "age.wholeWord": regex options require a "pattern" or a string "not" operator');
+    });
+
+    it('should throw error for unknown operators', () => {
+      const json = { ruleName: 'test-rule', match: { age: { greater: 18 } }, apply: { status: 'x' } };
+
+      expect(() => MatchRuleFactory.create(json)).toThrow('Invalid match condition "age.greater": unknown operator "greater"');
+    });
+
+    it('should throw error for empty operator objects', () => {
+      const json = { ruleName: 'test-rule', match: { age: {} }, apply: { status: 'x' } };
+
+      expect(() => MatchRuleFactory.create(json)).toThrow('Invalid match condition "age": operator object must not be empty');
+    });
+
+    it('should throw error for match values that are not values or operator objects', () => {
+      expect(() => MatchRuleFactory.create({ ruleName: 'list', match: { age: [1, 2] }, apply: {} }))
+        .toThrow('Invalid match condition "age": expected a regex pattern, a value, null or an operator object');
+    });
+
+    it('should throw error for non-comparable operator values', () => {
+      const json = { ruleName: 'test-rule', match: { age: { gt: true } }, apply: { status: 'x' } };
+
+      expect(() => MatchRuleFactory.create(json)).toThrow('Invalid match condition "age.gt": expected a number, string or Date');
+    });
+
+    it('should throw error for invalid between ranges', () => {
+      expect(() => MatchRuleFactory.create({ ruleName: 'r', match: { age: { between: [1] } }, apply: { status: 'x' } }))
+        .toThrow('Invalid match condition "age.between"');
+      expect(() => MatchRuleFactory.create({ ruleName: 'r', match: { age: { between: 5 } }, apply: { status: 'x' } }))
+        .toThrow('Invalid match condition "age.between"');
+      expect(() => MatchRuleFactory.create({ ruleName: 'r', match: { age: { between: [1, null] } }, apply: { status: 'x' } }))
+        .toThrow('Invalid match condition "age.between"');
+    });
+  });
+
+  describe('condition groups', () => {
+    const create = (match: unknown) => () => MatchRuleFactory.create({ ruleName: 'r', match, apply: { status: 'x' } });
+
+    it('should accept nested all, any and not groups', () => {
+      const match = {
+        any: [
+          { description: 'LIDL' },
+          { all: [{ merchant: 'MAXIMA' }, { not: { amount: { gt: 100 } } }] }
+        ]
+      };
+
+      expect(create(match)().match).toEqual(match);
+    });
+
+    it('should reject groups mixed with other keys', () => {
+      expect(create({ any: [{ a: 1 }], status: 'x' }))
+        .toThrow('Invalid match condition "match": group must contain exactly one of "all", "any" or "not"');
+      expect(create({ all: [{ not: { a: 1 }, b: 2 }] }))
+        .toThrow('Invalid match condition "all[0]": group must contain exactly one of "all", "any" or "not"');
+    });
+
+    it('should reject empty or non-array all and any groups', () => {
+      expect(create({ any: [] })).toThrow('Invalid match condition "any": expected a non-empty array of conditions');
+      expect(create({ all: { a: 1 } })).toThrow('Invalid match condition "all": expected a non-empty array of conditions');
+    });
+
+    it('should reject invalid nested conditions with a path to the bad node', () => {
+      expect(create({ any: [{ a: 1 }, 'oops'] }))
+        .toThrow('Invalid match condition "any[1]": expected a non-empty condition object');
+      expect(create({ any: [{ a: 1 }, { all: [{ age: { gt: [] } }] }] }))
+        .toThrow('Invalid match condition "any[1].all[0].age.gt": expected a number, string or Date');
+      expect(create({ not: [{ a: 1 }] }))
+        .toThrow('Invalid match condition "not": expected a condition object');
+      expect(create({ not: { any: [{ age: { unknown: 1 } }] } }))
+        .toThrow('Invalid match condition "not.any[0].age.unknown": unknown operator "unknown"');
+    });
+  });
+
+  describe('computed apply values', () => {
+    const create = (apply: unknown) => () => MatchRuleFactory.create({ ruleName: 'computed', match: { id: 1 }, apply });
+
+    it('should accept references, templates, arithmetic and coalesce', () => {
+      const apply = {
+        nickname: { ref: 'name' },
+        label: { template: '{name} {{{role}}}' },
+        score: { add: 10 },
+        total: { ref: 'price', multiply: { ref: 'quantity' } },
+        phone: { coalesce: [{ ref: 'phone' }, null, 'unknown'] },
+        domain: { extract: { from: 'email', pattern: '@(?:mail\\.)?(.+)$' } }
+      };
+
+      expect(create(apply)().apply).toEqual(apply);
+    });
+
+    it('should keep objects without expression keys as literal values', () => {
+      expect(create({ settings: { theme: 'dark' } })().apply).toEqual({ settings: { theme: 'dark' } });
+    });
+
+    it('should unwrap explicit literal values', () => {
+      expect(create({ settings: { $literal: { ref: 'not-a-column' } }, tags: { $literal: ['a'] } })().apply)
+        .toEqual({ settings: { ref: 'not-a-column' }, tags: ['a'] });
+    });
+
+    it('should reject invalid expressions with a path to the bad value', () => {
+      expect(create({ name: { ref: '' } }))
+        .toThrow('Invalid apply value "name.ref": expected a non-empty column name');
+      expect(create({ name: { ref: 'a', extra: 1 } }))
+        .toThrow('Invalid apply value "name.extra": unknown expression key "extra"');
+      expect(create({ score: { add: 'ten' } }))
+        .toThrow('Invalid apply value "score.add": expected a number or column reference');
+      expect(create({ score: { add: 1, subtract: 2 } }))
+        .toThrow('Invalid apply value "score": expected exactly one of "add", "subtract", "multiply", "divide"');
+      expect(create({ label: { template: 'x', ref: 'name' } }))
+        .toThrow('Invalid apply value "label": "template" can not be combined with other expression keys');
+      expect(create({ label: { template: 42 } }))
+        .toThrow('Invalid apply value "label.template": expected a template string');
+      expect(create({ label: { template: '{name' } }))
+        .toThrow('Invalid apply value "label.template": unbalanced braces');
+      expect(create({ label: { template: '{ }' } }))
+        .toThrow('Invalid apply value "label.template": placeholder must contain a column name');
+      expect(create({ phone: { coalesce: [] } }))
+        .toThrow('Invalid apply value "phone.coalesce": expected a non-empty array of values or column references');
+      expect(create({ domain: { extract: { from: 'email', pattern: '@.+$' } } }))
+        .toThrow('Invalid apply value "domain.extract.pattern": pattern must contain a capture group');
+      expect(create({ domain: { extract: { from: 'email', pattern: '@(.+' } } }))
+        .toThrow('Invalid apply value "domain.extract.pattern": Invalid regular expression');
+      expect(create({ domain: { extract: { pattern: '(.+)' } } }))
+        .toThrow('Invalid apply value "domain.extract.from": expected a non-empty column name');
+      expect(create({ domain: { extract: { from: 'email', pattern: '(.+)', flags: 'i' } } }))
+        .toThrow('Invalid apply value "domain.extract.flags": unknown key "flags"');
+      expect(create({ phone: { coalesce: [{ template: '{x}' }] } }))
+        .toThrow('Invalid apply value "phone.coalesce": expected a non-empty array of values or column references');
+    });
+  });
+
+  describe('stopProcessingOtherRules', () => {
+    it('should default to false', () => {
+      const rule = MatchRuleFactory.create({
+        ruleName: 'test-rule',
+        match: { email: 'test@example.com' },
+        apply: { name: 'Updated Name' }
+      });
+
+      expect(rule.stopProcessingOtherRules).toBe(false);
+    });
+
+    it('should accept the flag from JSON', () => {
+      const rule = MatchRuleFactory.create({
+        ruleName: 'test-rule',
+        match: { email: 'test@example.com' },
+        apply: { name: 'Updated Name' },
+        stopProcessingOtherRules: true
+      });
+
+      expect(rule.stopProcessingOtherRules).toBe(true);
+    });
+
+    it('should throw error for non-boolean flag', () => {
+      const json = {
+        ruleName: 'test-rule',
+        match: { email: 'test@example.com' },
+        apply: { name: 'Updated Name' },
+        stopProcessingOtherRules: 'yes'
+      };
+
+      expect(() => MatchRuleFactory.create(json)).toThrow('stopProcessingOtherRules must be a boolean');
+    });
+  });
+
+  describe('activation', () => {
+    const json = { ruleName: 'seasonal', match: { email: '@' }, apply: { status: 'sale' } };
+
+    it('should leave the activation properties out if they are not set', () => {
+      const rule = MatchRuleFactory.create(json);
+
+      expect(Object.keys(rule)).toEqual(['priority', 'ruleName', 'match', 'apply', 'stopProcessingOtherRules']);
+    });
+
+    it('should parse the enabled state and ISO 8601 dates', () => {
+      const validTo = new Date('2024-12-01T00:00:00Z');
+      const rule = MatchRuleFactory.create({ ...json, enabled: false, validFrom: '2024-11-01', validTo });
+
+      expect(rule.enabled).toBe(false);
+      expect(rule.validFrom).toEqual(new Date('2024-11-01T00:00:00.000Z'));
+      expect(rule.validTo).toEqual(validTo);
+      expect(rule.validTo).not.toBe(validTo);
+    });
+
+    it('should read date-times without an offset as UTC in any time zone', () => {
+      // jest.config.js runs the tests outside UTC
+      expect(new Date('2024-11-01T08:00:00Z').getTimezoneOffset()).not.toBe(0);
+
+      const rule = MatchRuleFactory.create({ ...json, validFrom: '2024-11-01T08:00', validTo: '2024-12-01 00:00:00.5' });
+
+      expect(rule.validFrom).toEqual(new Date('2024-11-01T08:00:00Z'));
+      expect(rule.validTo).toEqual(new Date('2024-12-01T00:00:00.500Z'));
+      expect(MatchRuleFactory.create({ ...json, validFrom: '2024-11-01T08:00-05:00' }).validFrom)
+        .toEqual(new Date('2024-11-01T13:00:00Z'));
+    });
+
+    it('should throw error for invalid activation properties', () => {
+      expect(() => MatchRuleFactory.create({ ...json, enabled: 'no' })).toThrow('Invalid enabled: expected a boolean');
+      expect(() => MatchRuleFactory.create({ ...json, validFrom: 'next week' }))
+        .toThrow('Invalid validFrom: expected a date or an ISO 8601 date string');
+      expect(() => MatchRuleFactory.create({ ...json, validTo: new Date('invalid') }))
+        .toThrow('Invalid validTo: expected a date or an ISO 8601 date string');
+      expect(() => MatchRuleFactory.create({ ...json, validFrom: '2024-12-01', validTo: '2024-11-01' }))
+        .toThrow('Invalid validTo: expected a date after validFrom');
+    });
+
+    it('should accept the activation properties in strict mode', () => {
+      const result = MatchRuleFactory.createRulesStrict([
+        { ...json, enabled: true, validFrom: '2024-11-01T08:00:00+01:00', validTo: '2024-12-01T00:00:00Z' }
+      ]);
+
+      expect(result).toEqual({
+        valid: true,
+        rules: [{
+          ...json,
+          priority: 0,
+          stopProcessingOtherRules: false,
+          enabled: true,
+          validFrom: new Date('2024-11-01T07:00:00Z'),
+          validTo: new Date('2024-12-01T00:00:00Z')
+        }]
+      });
+    });
+
+    it('should report invalid activation properties in strict mode', () => {
+      const result = MatchRuleFactory.createRulesStrict([
+        { ...json, enabled: 1, validFrom: 20241101 },
+        { ...json, ruleName: 'reversed', validFrom: '2024-12-01', validTo: '2024-11-01' }
+      ]);
+
+      expect(!result.valid && result.problems).toEqual([
+        { ruleIndex: 0, ruleName: 'seasonal', path: 'enabled', message: 'expected a boolean' },
+        { ruleIndex: 0, ruleName: 'seasonal', path: 'validFrom', message: 'expected a date or an ISO 8601 date string' },
+        { ruleIndex: 1, ruleName: 'reversed', path: 'validTo', message: 'expected a date after validFrom' }
+      ]);
+    });
+  });
+
   describe('createRule', () => {
     it('should create a MatchRule with direct parameters', () => {
       const rule = MatchRuleFactory.createRule<User>(
@@ -169,4 +463,87 @@ describe('MatchRuleFactory', () => {
       expect(rule.apply).toEqual(apply);
     });
   });
+
+  describe('createRulesStrict', () => {
+    it('should create valid rules without defaults', () => {
+      const result = MatchRuleFactory.createRulesStrict<User>([
+        { ruleName: ' first ', match: { email: '@example' }, apply: { status: 'a' } },
+        { ruleName: 'second', priority: 2, match: { age: { gt: 18 } }, apply: { age: { add: 1 } }, stopProcessingOtherRules: true }
+      ]);
+
+      expect(result).toEqual({
+        valid: true,
+        rules: [
+          { ruleName: 'first', priority: 0, match: { email: '@example' }, apply: { status: 'a' }, stopProcessingOtherRules: false },
+          { ruleName: 'second', priority: 2, match: { age: { gt: 18 } }, apply: { age: { add: 1 } }, stopProcessingOtherRules: true }
+        ]
+      });
+    });
+
+    it('should collect all problems of all rules with index and path', () => {
+      const result = MatchRuleFactory.createRulesStrict([
+        { ruleName: 'a', priority: -1, match: { any: [{ age: { gt: [1] } }, { age: { between: [1] } }] }, apply: {} },
+        { ruleName: 'a', match: 'invalid', apply: { score: { add: 'x' } }, stopProcessingOtherRules: 'yes' },
+        { match: {}, apply: null, comment: 'unknown' },
+        'not a rule'
+      ]);
+
+      expect(result.valid).toBe(false);
+      expect(!result.valid && result.problems).toEqual([
+        { ruleIndex: 0, ruleName: 'a', path: 'priority', message: 'expected a non-negative integer' },
+        { ruleIndex: 0, ruleName: 'a', path: 'match.any[0].age.gt', message: 'expected a number, string or Date' },
+        { ruleIndex: 0, ruleName: 'a', path: 'match.any[1].age.between', message: 'expected an array of two numbers, strings or Dates' },
+        { ruleIndex: 1, ruleName: 'a', path: 'ruleName', message: 'duplicate rule name "a", already used by rule 0' },
+        { ruleIndex: 1, ruleName: 'a', path: 'stopProcessingOtherRules', message: 'expected a boolean' },
+        { ruleIndex: 1, ruleName: 'a', path: 'match', message: 'expected a condition object' },
+        { ruleIndex: 1, ruleName: 'a', path: 'apply.score.add', message: 'expected a number or column reference' },
+        { ruleIndex: 2, ruleName: undefined, path: 'ruleName', message: 'expected a non-empty string' },
+        { ruleIndex: 2, ruleName: undefined, path: 'comment', message: 'unknown property "comment"' },
+        { ruleIndex: 2, ruleName: undefined, path: 'apply', message: 'expected an object of column values' },
+        { ruleIndex: 3, ruleName: undefined, path: '', message: 'expected a rule object' }
+      ]);
+    });
+
+    it('should report every invalid operator of a condition', () => {
+      const result = MatchRuleFactory.createRulesStrict([
+        { ruleName: 'ops', match: { age: { gt: null, unknown: 1, isNull: 'yes' } }, apply: { status: { template: '{}' } } }
+      ]);
+
+      expect(!result.valid && result.problems.map(p => p.path)).toEqual([
+        'match.age.gt', 'match.age.unknown', 'match.age.isNull', 'apply.status.template'
+      ]);
+    });
+
+    it('should report match values and apply objects that are not values, operators or expressions', () => {
+      const result = MatchRuleFactory.createRulesStrict([
+        {
+          ruleName: 'shapes',
+          match: { all: [{ age: [1, 2], created_at: new Date('2024-01-01T00:00:00Z'), status: null }, { not: { email: undefined } }] },
+          apply: { status: { foo: 1 }, role: ['admin'], updated_at: new Date('2024-01-01T00:00:00Z'), phone: null }
+        }
+      ]);
+
+      expect(!result.valid && result.problems).toEqual([
+        { ruleIndex: 0, ruleName: 'shapes', path: 'match.all[0].age', message: 'expected a regex pattern, a value, null or an operator object' },
+        { ruleIndex: 0, ruleName: 'shapes', path: 'match.all[1].not.email', message: 'expected a regex pattern, a value, null or an operator object' },
+        { ruleIndex: 0, ruleName: 'shapes', path: 'apply.status', message: 'expected a value, null or an expression object, wrap JSON documents in {"$literal": ...}' },
+        { ruleIndex: 0, ruleName: 'shapes', path: 'apply.role', message: 'expected a value, null or an expression object, wrap JSON documents in {"$literal": ...}' }
+      ]);
+    });
+
+    it('should accept objects and arrays written as explicit literals', () => {
+      const result = MatchRuleFactory.createRulesStrict([
+        { ruleName: 'documents', match: {}, apply: { meta: { $literal: { tier: 'gold' } }, tags: { $literal: ['a', 'b'] } } }
+      ]);
+
+      expect(result.valid && result.rules[0].apply).toEqual({ meta: { tier: 'gold' }, tags: ['a', 'b'] });
+    });
+
+    it('should reject input that is not an array', () => {
+      expect(MatchRuleFactory.createRulesStrict({})).toEqual({
+        valid: false,
+        problems: [{ ruleIndex: -1, path: '', message: 'expected an array of rules' }]
+      });
+    });
+  });
 });
@@ -1,4 +1,32 @@
-import {MatchRule} from "@/entities/MatchRule";
+import {MatchRule, RuleActivationDefinition} from "@/entities/MatchRule";
+import {
+    COMPARISON_OPERATORS,
+    GROUP_KEYS,
+    isComparableValue,
+    isMatchConditionGroup,
+    isMatchOperators,
+    isScalarValue,
+    MATCH_OPERATORS,
+    MatchCondition,
+    MatchConditionGroup,
+    MatchOperators,
+    NULL_OPERATORS,
+    PATTERN_OPERATORS,
+    REGEX_OPTIONS,
+    SET_OPERATORS
+} from "@/entities/MatchCondition";
+import {
+    APPLY_EXPRESSION_KEYS,
+    ARITHMETIC_OPERATORS,
+    ApplyExpression,
+    ApplyValues,
+    isApplyExpression,
+    isColumnReference,
+    isLiteralValue,
+    LITERAL_KEY,
+    unwrapLiterals
+} from "@/entities/ApplyValue";
+import {RuleDefinitionProblem, RuleDefinitionResult} from "@/entities/RuleDefinitionValidation";
 
 export class MatchRuleFactory {
     /**
@@ -14,7 +42,9 @@ export class MatchRuleFactory {
             json.ruleName,
             json.match || {},
             json.apply || {},
-            json.priority || 0
+            json.priority || 0,
+            json.stopProcessingOtherRules ?? false,
+            {enabled: json.enabled, validFrom: json.validFrom, validTo: json.validTo}
         );
     }
 
@@ -23,25 +53,322 @@ export class MatchRuleFactory {
      * @param ruleName The name of the rule
      * @param match The conditions to match
      * @param apply The changes to apply
+     * @param priority The execution order, lower numbers are applied first
+     * @param stopProcessingOtherRules Whether rows matched by this rule are skipped by lower priority rules
+     * @param activation Enabled state and activation window, dates may be ISO 8601 strings
      * @returns A new MatchRule instance
      */
-    static createRule<T>(ruleName: string, match: Partial<T>, apply: Partial<T>, priority: number = 0): MatchRule<T> {
+    static createRule<T>(ruleName: string,
+                         match: MatchCondition<T>,
+                         apply: ApplyValues<T>,
+                         priority: number = 0,
+                         stopProcessingOtherRules: boolean = false,
+                         activation: RuleActivationDefinition = {}): MatchRule<T> {
         if (!ruleName || typeof ruleName !== 'string' || ruleName.trim() === '') {
             throw new Error('Rule name must be a non-empty string');
         }
+        if (typeof stopProcessingOtherRules !== 'boolean') {
+            throw new Error('stopProcessingOtherRules must be a boolean');
+        }
+        const activationFields = MatchRuleFactory.parseActivation(activation, (path, message) => {
+            throw new Error(`Invalid ${path}: ${message}`);
+        });
+        const report: ProblemReporter = (path, message) => {
+            throw new Error(MatchRuleFactory.formatProblem(path, message));
+        };
+        if (match && typeof match === 'object') {
+            MatchRuleFactory.validateMatch(match, 'match', report);
+        }
+        if (apply && typeof apply === 'object') {
+            MatchRuleFactory.validateApply(apply, report);
+        }
         return {
             priority: (priority && priority >= 0) ? priority : 0,
             ruleName: ruleName.trim(),
             match : (match && typeof match === 'object') ? match : {},
-            apply : (apply && typeof apply === 'object') ? apply : {},
-
-            // @Todo: not implemented yet
-            stopProcessingOtherRules: false
+            apply : (apply && typeof apply === 'object') ? unwrapLiterals(apply) : {},
+            stopProcessingOtherRules,
+            ...activationFields
         };
     }
 
     /**
-     * Creates an array of MatchRule instances from an array of rule objects
+     * Validates the enabled state and activation window, only properties that are set are returned
+     * @param report Receives every invalid property, validation continues if it returns
+     */
+    private static parseActivation(activation: { readonly [K in keyof RuleActivationDefinition]?: unknown },
+                                   report: ProblemReporter): Pick<MatchRule, 'enabled' | 'validFrom' | 'validTo'> {
+        const fields: { enabled?: boolean, validFrom?: Date, validTo?: Date } = {};
+        if (activation.enabled !== undefined) {
+            if (typeof activation.enabled === 'boolean') {
+                fields.enabled = activation.enabled;
+            } else {
+                report('enabled', 'expected a boolean');
+            }
+        }
+        for (const key of ['validFrom', 'validTo'] as const) {
+            if (activation[key] !== undefined) {
+                const date = MatchRuleFactory.parseDate(activation[key]);
+                if (date) {
+                    fields[key] = date;
+                } else {
+                    report(key, 'expected a date or an ISO 8601 date string');
+                }
+            }
+        }
+        if (fields.validFrom && fields.validTo && fields.validTo <= fields.validFrom) {
+            report('validTo', 'expected a date after validFrom');
+        }
+        return fields;
+    }
+
+    /**
+     * Date-times without an offset are UTC like dates without a time, so rules do not depend on the time zone of the server
+     * @returns A copy of a valid date or the date of an ISO 8601 string, undefined for other values
+     */
+    private static parseDate(value: unknown): Date | undefined {
+        let date: Date | undefined;
+        if (value instanceof Date) {
+            date = new Date(value);
+        } else if (typeof value === 'string') {
+            const iso = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(Z|[+-]\d{2}:?\d{2})?)?$/.exec(value);
+            if (iso) {
+                const [, day, time, offset] = iso;
+                date = new Date(time ? `${day}T${time}${offset ?? 'Z'}` : day);
+            }
+        }
+        return date && !isNaN(date.getTime()) ? date : undefined;
+    }
+
+    /**
+     * Keeps the messages of the lenient factory methods, e.g. 'Invalid match condition "age.gt": expected a number'
+     */
+    private static formatProblem(path: string, message: string): string {
+        const [section, ...rest] = path.split('.');
+        const kind = section === 'apply' ? 'apply value' : 'match condition';
+        return `Invalid ${kind} "${rest.length > 0 ? rest.join('.') : section}": ${message}`;
+    }
+
+    /**
+     * Validates the match condition tree: groups, operator objects and plain match values
+     * @param path Path of the condition, starting with "match", e.g. "match.any[1].all[0]"
+     * @param report Receives every invalid node, validation continues if it returns
+     */
+    private static validateMatch(match: MatchCondition<unknown>, path: string, report: ProblemReporter): void {
+        if (isMatchConditionGroup(match)) {
+            MatchRuleFactory.validateGroup(match, path, report);
+            return;
+        }
+        for (const [column, value] of Object.entries(match)) {
+            if (isMatchOperators(value)) {
+                MatchRuleFactory.validateOperators(`${path}.${column}`, value, report);
+            } else if (value !== null && !isScalarValue(value)) {
+                report(`${path}.${column}`, 'expected a regex pattern, a value, null or an operator object');
+            }
+        }
+    }
+
+    private static validateGroup(group: MatchConditionGroup<unknown>, path: string, report: ProblemReporter): void {
+        const keys = Object.keys(group);
+        if (keys.length !== 1) {
+            return report(path, 'group must contain exactly one of "all", "any" or "not"');
+        }
+
+        const key = keys[0] as typeof GROUP_KEYS[number];
+        const groupPath = `${path}.${key}`;
+        const nested: unknown = Object.values(group)[0];
+
+        if (key === 'not') {
+            if (!MatchRuleFactory.isConditionObject(nested)) {
+                return report(groupPath, 'expected a condition object');
+            }
+            MatchRuleFactory.validateMatch(nested, groupPath, report);
+            return;
+        }
+
+        if (!Array.isArray(nested) || nested.length === 0) {
+            return report(groupPath, 'expected a non-empty array of conditions');
+        }
+        nested.forEach((condition, index) => {
+            const conditionPath = `${groupPath}[${index}]`;
+            if (!MatchRuleFactory.isConditionObject(condition) || Object.keys(condition).length === 0) {
+                return report(conditionPath, 'expected a non-empty condition object');
+            }
+            MatchRuleFactory.validateMatch(condition, conditionPath, report);
+        });
+    }
+
+    private static isConditionObject(value: unknown): value is Record<string, unknown> {
+        return !!value && typeof value === 'object' && !Array.isArray(value);
+    }
+
+    private static validateOperators(columnPath: string, operators: MatchOperators, report: ProblemReporter): void {
+        const operands: [string, unknown][] = Object.entries(operators);
+        if (operands.length === 0) {
+            return report(columnPath, 'operator object must not be empty');
+        }
+
+        for (const [operator, operand] of operands) {
+            const path = `${columnPath}.${operator}`;
+
+            if (!MATCH_OPERATORS.includes(operator as keyof MatchOperators)) {
+                report(path, `unknown operator "${operator}"`);
+                continue;
+            }
+
+            if ((COMPARISON_OPERATORS as readonly string[]).includes(operator) && !isComparableValue(operand)) {
+                report(path, 'expected a number, string or Date');
+            }
+
+            if (operator === 'between') {
+                if (!Array.isArray(operand) || operand.length !== 2 || !operand.every(isComparableValue)) {
+                    report(path, 'expected an array of two numbers, strings or Dates');
+                }
+            }
+
+            if ((SET_OPERATORS as readonly string[]).includes(operator)) {
+                if (!Array.isArray(operand) || operand.length === 0 || !operand.every(isScalarValue)) {
+                    report(path, 'expected a non-empty array of values');
+                }
+            }
+
+            if ((NULL_OPERATORS as readonly string[]).includes(operator) && typeof operand !== 'boolean') {
+                report(path, 'expected a boolean');
+            }
+
+            if (operator === 'not' && operand !== null && !isScalarValue(operand)) {
+                report(path, 'expected a regex pattern, a value or null');
+            }
+
+            if ((PATTERN_OPERATORS as readonly string[]).includes(operator) && typeof operand !== 'string') {
+                report(path, 'expected a LIKE pattern string');
+            }
+
+            if (operator === 'pattern' && typeof operand !== 'string') {
+                report(path, 'expected a regex pattern string');
+            }
+
+            if ((REGEX_OPTIONS as readonly string[]).includes(operator)) {
+                if (typeof operand !== 'boolean') {
+                    report(path, 'expected a boolean');
+                } else if (operators.pattern === undefined && typeof operators.not !== 'string') {
+                    report(path, 'regex options require a "pattern" or a string "not" operator');
+                }
+            }
+        }
+    }
+
+    /**
+     * Validates computed apply values. Objects without expression keys are literal values, e.g. JSON documents,
+     * unless strict is set. Paths of invalid values start with "apply", e.g. "apply.score.add"
+     * @param strict Accept only values, null, expressions and explicit literals, see createRulesStrict
+     */
+    private static validateApply(apply: Record<string, unknown>, report: ProblemReporter, strict = false): void {
+        for (const [column, value] of Object.entries(apply)) {
+            if (isApplyExpression(value)) {
+                MatchRuleFactory.validateApplyExpression(`apply.${column}`, value, report);
+            } else if (strict && value !== null && !isScalarValue(value) && !isLiteralValue(value)) {
+                report(`apply.${column}`, `expected a value, null or an expression object, wrap JSON documents in {"${LITERAL_KEY}": ...}`);
+            }
+        }
+    }
+
+    private static validateApplyExpression(path: string, expression: ApplyExpression, report: ProblemReporter): void {
+        const keys = Object.keys(expression);
+        const unknownKey = keys.find(key => !(APPLY_EXPRESSION_KEYS as readonly string[]).includes(key));
+        if (unknownKey) {
+            return report(`${path}.${unknownKey}`, `unknown expression key "${unknownKey}"`);
+        }
+
+        const isReference = (operand: unknown) => isColumnReference(operand) && operand.ref.trim() !== '';
+        const value: Record<string, unknown> = {...expression};
+
+        const exclusiveKey = ['template', 'coalesce', 'extract'].find(key => key in expression);
+        if (exclusiveKey) {
+            if (keys.length !== 1) {
+                return report(path, `"${exclusiveKey}" can not be combined with other expression keys`);
+            }
+            if ('template' in expression) {
+                MatchRuleFactory.validateTemplate(`${path}.template`, value.template, report);
+                return;
+            }
+            if ('extract' in expression) {
+                MatchRuleFactory.validateExtract(`${path}.extract`, value.extract, report);
+                return;
+            }
+            if (!Array.isArray(value.coalesce) || value.coalesce.length === 0
+                || !value.coalesce.every((operand: unknown) => operand === null || isScalarValue(operand) || isReference(operand))) {
+                report(`${path}.coalesce`, 'expected a non-empty array of values or column references');
+            }
+            return;
+        }
+
+        const operators = ARITHMETIC_OPERATORS.filter(operator => operator in expression);
+        if (operators.length === 0) {
+            if (!isReference(expression)) {
+                report(`${path}.ref`, 'expected a non-empty column name');
+            }
+            return;
+        }
+        if (operators.length > 1) {
+            return report(path, `expected exactly one of "${ARITHMETIC_OPERATORS.join('", "')}"`);
+        }
+        if ('ref' in expression && (typeof value.ref !== 'string' || value.ref.trim() === '')) {
+            report(`${path}.ref`, 'expected a non-empty column name');
+        }
+        const operand = value[operators[0]];
+        if (!(typeof operand === 'number' && Number.isFinite(operand)) && !isReference(operand)) {
+            report(`${path}.${operators[0]}`, 'expected a number or column reference');
+        }
+    }
+
+    private static validateExtract(path: string, extract: unknown, report: ProblemReporter): void {
+        if (!MatchRuleFactory.isConditionObject(extract)) {
+            return report(path, 'expected an object with "from" and "pattern"');
+        }
+        const unknownKey = Object.keys(extract).find(key => key !== 'from' && key !== 'pattern');
+        if (unknownKey) {
+            report(`${path}.${unknownKey}`, `unknown key "${unknownKey}"`);
+        }
+        if (typeof extract.from !== 'string' || extract.from.trim() === '') {
+            report(`${path}.from`, 'expected a non-empty column name');
+        }
+        if (typeof extract.pattern !== 'string') {
+            return report(`${path}.pattern`, 'expected a regex pattern string');
+        }
+
+        let captureGroups: number;
+        try {
+            // The alternative matches the empty string, so the result contains one entry per capture group
+            captureGroups = new RegExp(`${extract.pattern}|`).exec('')!.length - 1;
+        } catch (error) {
+            return report(`${path}.pattern`, (error as Error).message);
+        }
+        if (captureGroups < 1) {
+            report(`${path}.pattern`, 'pattern must contain a capture group');
+        }
+    }
+
+    private static validateTemplate(path: string, template: unknown, report: ProblemReporter): void {
+        if (typeof template !== 'string') {
+            return report(path, 'expected a template string');
+        }
+        let emptyPlaceholder = false;
+        const rest = template.replace(/\{\{|\}\}|\{([^{}]+)\}/g, (placeholder, column) => {
+            emptyPlaceholder ||= column !== undefined && column.trim() === '';
+            return '';
+        });
+        if (emptyPlaceholder) {
+            report(path, 'placeholder must contain a column name');
+        } else if (/[{}]/.test(rest)) {
+            report(path, 'unbalanced braces, use "{{" and "}}" for literal braces');
+        }
+    }
+
+    /**
+     * Creates an array of MatchRule instances from an array of rule objects.
+     * Missing or invalid match and apply objects become {}, negative priorities become 0 and unknown
+     * properties are ignored. Throws on the first invalid rule, see createRulesStrict to get all problems.
      *
      * @param rules
      */
@@ -51,4 +378,89 @@ export class MatchRuleFactory {
         }
         return rules.map(rule => MatchRuleFactory.create<T>(rule));
     }
-}
\ No newline at end of file
+
+    /**
+     * Creates MatchRule instances only if every rule is valid, without defaults for invalid values.
+     * All problems of all rules are collected: invalid or missing properties, unknown properties,
+     * duplicate rule names and invalid match conditions or apply values. Apply objects without expression keys
+     * are rejected, unlike in createRules, JSON documents are written as explicit literals, e.g. {"$literal": {...}}.
+     * @param rules Rule objects, e.g. parsed from an imported file
+     */
+    static createRulesStrict<T>(rules: unknown): RuleDefinitionResult<T> {
+        if (!Array.isArray(rules)) {
+            return {valid: false, problems: [{ruleIndex: -1, path: '', message: 'expected an array of rules'}]};
+        }
+
+        const problems: RuleDefinitionProblem[] = [];
+        const created: MatchRule<T>[] = [];
+        const firstIndexByName = new Map<string, number>();
+
+        rules.forEach((json, ruleIndex) => {
+            let ruleName: string | undefined;
+            const report: ProblemReporter = (path, message) => problems.push({ruleIndex, ruleName, path, message});
+
+            if (!MatchRuleFactory.isConditionObject(json)) {
+                return report('', 'expected a rule object');
+            }
+            const rule = json;
+
+            if (typeof rule.ruleName !== 'string' || rule.ruleName.trim() === '') {
+                report('ruleName', 'expected a non-empty string');
+            } else {
+                ruleName = rule.ruleName.trim();
+                const firstIndex = firstIndexByName.get(ruleName!);
+                if (firstIndex !== undefined) {
+                    report('ruleName', `duplicate rule name "${ruleName}", already used by rule ${firstIndex}`);
+                } else {
+                    firstIndexByName.set(ruleName!, ruleIndex);
+                }
+            }
+
+            for (const key of Object.keys(rule).filter(key => !RULE_PROPERTIES.includes(key))) {
+                report(key, `unknown property "${key}"`);
+            }
+            if (rule.priority !== undefined && !(typeof rule.priority === 'number' && Number.isInteger(rule.priority) && rule.priority >= 0)) {
+                report('priority', 'expected a non-negative integer');
+            }
+            if (rule.stopProcessingOtherRules !== undefined && typeof rule.stopProcessingOtherRules !== 'boolean') {
+                report('stopProcessingOtherRules', 'expected a boolean');
+            }
+            const activationFields = MatchRuleFactory.parseActivation(rule, report);
+
+            if (!MatchRuleFactory.isConditionObject(rule.match)) {
+                report('match', 'expected a condition object');
+            } else {
+                MatchRuleFactory.validateMatch(rule.match, 'match', report);
+            }
+            let apply = rule.apply;
+            if (!MatchRuleFactory.isConditionObject(rule.apply)) {
+                report('apply', 'expected an object of column values');
+            } else {
+                MatchRuleFactory.validateApply(rule.apply, report, true);
+                apply = unwrapLiterals(rule.apply);
+            }
+
+            // Only returned if no problems were reported, the types are checked above
+            created.push({
+                priority: (rule.priority as number | undefined) ?? 0,
+                ruleName: ruleName!,
+                match: rule.match as MatchCondition<T>,
+                apply: apply as ApplyValues<T>,
+                stopProcessingOtherRules: (rule.stopProcessingOtherRules as boolean | undefined) ?? false,
+                ...activationFields
+            });
+        });
+
+        return problems.length > 0 ? {valid: false, problems} : {valid: true, rules: created};
+    }
+}
+
+/**
+ * Properties of a rule object accepted by createRulesStrict
+ */
+const RULE_PROPERTIES = ['ruleName', 'priority', 'match', 'apply', 'stopProcessingOtherRules', 'enabled', 'validFrom', 'validTo'];
+
+/**
+ * Receives an invalid node of a rule definition with its path, e.g. "match.any[1].age.gt"
+ */
+type ProblemReporter = (path: string, message: string) => void;
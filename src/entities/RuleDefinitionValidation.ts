@@ -0,0 +1,31 @@
+import {MatchRule} from "@/entities/MatchRule";
+
+/**
+ * An invalid node of a rule definition, found by MatchRuleFactory.createRulesStrict
+ */
+export interface RuleDefinitionProblem {
+
+    /**
+     * Position of the rule in the input array, -1 if the input is not an array
+     */
+    readonly ruleIndex: number;
+
+    /**
+     * Name of the rule, if it has a valid one
+     */
+    readonly ruleName?: string;
+
+    /**
+     * Path to the invalid node, e.g. "ruleName", "match.any[1].age.gt" or "apply.score.add"
+     */
+    readonly path: string;
+
+    readonly message: string;
+}
+
+/**
+ * Outcome of MatchRuleFactory.createRulesStrict: either all rules or all problems of all rules
+ */
+export type RuleDefinitionResult<T> =
+    | { readonly valid: true, readonly rules: MatchRule<T>[] }
+    | { readonly valid: false, readonly problems: RuleDefinitionProblem[] };
@@ -0,0 +1,33 @@
+import {MatchRuleFactory} from "./MatchRuleFactory";
+import {RulePipeline} from "./RulePipeline";
+
+describe('RulePipeline', () => {
+    const rule = (ruleName: string) => MatchRuleFactory.create({ruleName, match: {email: '@'}, apply: {status: ruleName}});
+
+    it('should list the rules of all stages in stage order', () => {
+        const pipeline = new RulePipeline([
+            {name: 'normalise', rules: [rule('b'), rule('a')]},
+            {name: 'flag', rules: [rule('c')]},
+        ]);
+
+        expect(pipeline.rules.map(r => r.ruleName)).toEqual(['b', 'a', 'c']);
+        expect(pipeline.transaction).toBe('pipeline');
+    });
+
+    it('should reject pipelines without stages', () => {
+        expect(() => new RulePipeline([])).toThrow('A rule pipeline needs at least one stage');
+    });
+
+    it('should reject empty and duplicate stage names', () => {
+        expect(() => new RulePipeline([{name: '', rules: []}])).toThrow('Rule stage names must be non-empty');
+        expect(() => new RulePipeline([{name: 'flag', rules: []}, {name: 'flag', rules: []}]))
+            .toThrow('Duplicate rule stage name "flag"');
+    });
+
+    it('should reject rule names used in several stages', () => {
+        expect(() => new RulePipeline([
+            {name: 'normalise', rules: [rule('a')]},
+            {name: 'flag', rules: [rule('a')]},
+        ])).toThrow('Rule "a" of stage "flag" is already used by stage "normalise"');
+    });
+});
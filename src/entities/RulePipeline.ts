@@ -0,0 +1,101 @@
+import {Kysely} from "kysely";
+import {MatchRule} from "@/entities/MatchRule";
+
+/**
+ * SQL executed before or after the rules of a stage, in the same transaction as the rules of the stage
+ * @param db Transaction of the stage
+ * @param resultsTableName Name of the results table the rules are applied to
+ */
+export type RuleStageHook = (db: Kysely<any>, resultsTableName: string) => Promise<void>;
+
+/**
+ * Phase of a pipeline, e.g. normalise, categorise or flag.
+ * Rules are ordered by priority within their stage and stopProcessingOtherRules only excludes rows from the
+ * later rules of the same stage, so the next stage sees all rows again.
+ */
+export interface RuleStage<T = unknown> {
+
+    /**
+     * Name of the stage, used in the report
+     */
+    readonly name: string;
+
+    readonly rules: MatchRule<T>[];
+
+    /**
+     * Executed before the first rule of the stage
+     */
+    readonly before?: RuleStageHook;
+
+    /**
+     * Executed after the last rule of the stage
+     */
+    readonly after?: RuleStageHook;
+}
+
+/**
+ * Transaction handling of a pipeline run:
+ * - pipeline: all stages run in a single transaction, a failure rolls back every stage
+ * - stage: every stage is committed on its own, a failure rolls back the failed stage and stops the run
+ */
+export type PipelineTransactionMode = 'pipeline' | 'stage';
+
+export interface RulePipelineOptions {
+
+    /**
+     * Defaults to "pipeline"
+     */
+    readonly transaction?: PipelineTransactionMode;
+}
+
+/**
+ * Stages of rules that are executed one after another
+ */
+export class RulePipeline<T = unknown> {
+
+    readonly stages: readonly RuleStage<T>[];
+
+    readonly transaction: PipelineTransactionMode;
+
+    /**
+     * @param stages Stages in execution order
+     * @param options Transaction handling of a run
+     * @throws Error if there are no stages, stage names are empty or not unique, or rule names are used in several stages
+     */
+    constructor(stages: RuleStage<T>[], options: RulePipelineOptions = {}) {
+        if (stages.length === 0) {
+            throw new Error('A rule pipeline needs at least one stage');
+        }
+
+        const stageNames = new Set<string>();
+        // Tracked rule names decide which rows are stopped, so they have to identify a single rule
+        const ruleStages = new Map<string, string>();
+        for (const stage of stages) {
+            if (!stage.name) {
+                throw new Error('Rule stage names must be non-empty');
+            }
+            if (stageNames.has(stage.name)) {
+                throw new Error(`Duplicate rule stage name "${stage.name}"`);
+            }
+            stageNames.add(stage.name);
+
+            for (const rule of stage.rules) {
+                const usedBy = ruleStages.get(rule.ruleName);
+                if (usedBy !== undefined && usedBy !== stage.name) {
+                    throw new Error(`Rule "${rule.ruleName}" of stage "${stage.name}" is already used by stage "${usedBy}"`);
+                }
+                ruleStages.set(rule.ruleName, stage.name);
+            }
+        }
+
+        this.stages = [...stages];
+        this.transaction = options.transaction ?? 'pipeline';
+    }
+
+    /**
+     * Rules of all stages in stage order, e.g. for validation or coverage reports
+     */
+    get rules(): MatchRule<T>[] {
+        return this.stages.flatMap(stage => stage.rules);
+    }
+}
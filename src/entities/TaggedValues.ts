@@ -0,0 +1,61 @@
+/**
+ * Format of Date.toISOString, the form dates are written in
+ */
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+/**
+ * Key of the object a Date is written as, e.g. {"$date": "2024-01-01T00:00:00.000Z"}
+ */
+const DATE_TAG = '$date';
+
+/**
+ * Key of the object a bigint is written as, e.g. {"$bigint": "9007199254740993"}
+ */
+const BIGINT_TAG = '$bigint';
+
+/**
+ * Replace Dates and bigints with tagged objects, so rule definitions can be written as JSON:
+ * Dates become {"$date": "<ISO timestamp>"} and bigints {"$bigint": "<digits>"}.
+ * Properties that are undefined are left out like in JSON.
+ */
+export function tagValues(value: unknown): unknown {
+    if (value instanceof Date) {
+        return {[DATE_TAG]: value.toISOString()};
+    }
+    if (typeof value === 'bigint') {
+        return {[BIGINT_TAG]: value.toString()};
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => tagValues(item));
+    }
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value)
+            .filter(([, property]) => property !== undefined)
+            .map(([key, property]) => [key, tagValues(property)]));
+    }
+    return value;
+}
+
+/**
+ * Convert the tagged objects written by tagValues back to Dates and bigints, strings that look like timestamps
+ * stay strings. Tagged objects with an invalid value are kept, so they are reported by the rule validation.
+ */
+export function restoreTaggedValues(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(item => restoreTaggedValues(item));
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    const entries = Object.entries(value);
+    if (entries.length === 1) {
+        const [[key, tagged]] = entries;
+        if (key === DATE_TAG && typeof tagged === 'string' && ISO_TIMESTAMP.test(tagged)) {
+            return new Date(tagged);
+        }
+        if (key === BIGINT_TAG && typeof tagged === 'string' && /^-?\d+$/.test(tagged)) {
+            return BigInt(tagged);
+        }
+    }
+    return Object.fromEntries(entries.map(([key, property]) => [key, restoreTaggedValues(property)]));
+}
@@ -0,0 +1,114 @@
+import {RuleFileError} from "@/rulefile/RuleFileError";
+
+/**
+ * Raw text of a CSV field with the position of its first character
+ */
+export interface CsvCell {
+    readonly value: string;
+
+    readonly line: number;
+
+    readonly column: number;
+
+    /**
+     * True if the field was enclosed in quotes, so the value starts one column later and quotes are doubled
+     */
+    readonly quoted: boolean;
+}
+
+/**
+ * Parse RFC 4180 CSV: comma separated, fields with commas, quotes or line breaks are quoted
+ * and quotes inside are doubled. Empty lines are skipped.
+ * @throws RuleFileError with the position of the first syntax error
+ */
+export function parseCsv(text: string): CsvCell[][] {
+    const records: CsvCell[][] = [];
+    let record: CsvCell[] = [];
+    let line = 1;
+    let column = 1;
+    let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    const fail = (message: string, failLine: number, failColumn: number): never => {
+        throw new RuleFileError('csv', [{line: failLine, column: failColumn, message}]);
+    };
+    const endRecord = () => {
+        if (record.length > 1 || record[0].value !== '') {
+            records.push(record);
+        }
+        record = [];
+    };
+
+    while (i <= text.length) {
+        const cellLine = line;
+        const cellColumn = column;
+        const quoted = text[i] === '"';
+        let value = '';
+
+        if (quoted) {
+            i++;
+            column++;
+            for (; ;) {
+                if (i >= text.length) {
+                    fail('unterminated quoted field', cellLine, cellColumn);
+                }
+                const char = text[i];
+                if (char === '"' && text[i + 1] === '"') {
+                    value += '"';
+                    i += 2;
+                    column += 2;
+                } else if (char === '"') {
+                    i++;
+                    column++;
+                    break;
+                } else {
+                    value += char;
+                    i++;
+                    if (char === '\n') {
+                        line++;
+                        column = 1;
+                    } else {
+                        column++;
+                    }
+                }
+            }
+            if (i < text.length && text[i] !== ',' && text[i] !== '\n' && text[i] !== '\r') {
+                fail('expected "," or a line break after a closing quote', line, column);
+            }
+        } else {
+            while (i < text.length && text[i] !== ',' && text[i] !== '\n' && text[i] !== '\r') {
+                if (text[i] === '"') {
+                    fail('quotes are only allowed in quoted fields', line, column);
+                }
+                value += text[i];
+                i++;
+                column++;
+            }
+        }
+
+        record.push({value, line: cellLine, column: cellColumn, quoted});
+
+        if (text[i] === ',') {
+            i++;
+            column++;
+            continue;
+        }
+        endRecord();
+        if (text[i] === '\r' && text[i + 1] === '\n') {
+            i++;
+        }
+        i++;
+        line++;
+        column = 1;
+    }
+    return records;
+}
+
+/**
+ * Format rows as CSV with "\n" line breaks, quoting only fields that need it
+ */
+export function formatCsv(rows: string[][]): string {
+    return rows
+        .map(row => row.map(field => /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field).join(','))
+        .map(row => `${row}\n`)
+        .join('');
+}
@@ -0,0 +1,61 @@
+/**
+ * Position and description of the first JSON syntax error in a text
+ */
+export interface JsonSyntaxError {
+    readonly line: number;
+
+    readonly column: number;
+
+    readonly message: string;
+}
+
+/**
+ * Locate the error JSON.parse threw for a text. Most messages contain the offset, e.g. "... in JSON at position 12",
+ * unexpected tokens are reported without one and are found at the end of the longest prefix
+ * that JSON.parse only rejects because the input ends.
+ */
+export function locateJsonSyntaxError(text: string, error: SyntaxError): JsonSyntaxError {
+    const offset = errorOffset(text, error) ?? incompletePrefixLength(text);
+    const before = text.slice(0, offset).split('\n');
+    return {
+        line: before.length,
+        column: before[before.length - 1].length + 1,
+        message: error.message
+            .replace(/(?: in JSON)? at position \d+.*$/s, '')
+            .replace(/^(Unexpected token '.+?'), .* is not valid JSON$/s, '$1'),
+    };
+}
+
+/**
+ * @returns The offset in the message of the error, the length of the text for errors at the end of the input
+ */
+function errorOffset(text: string, error: SyntaxError): number | undefined {
+    if (error.message.startsWith('Unexpected end of JSON input')) {
+        return text.length;
+    }
+    const position = / at position (\d+)/.exec(error.message);
+    return position ? Number(position[1]) : undefined;
+}
+
+/**
+ * Length of the longest prefix that is valid JSON or only misses its end, found by bisection
+ */
+function incompletePrefixLength(text: string): number {
+    let incomplete = 0;
+    let invalid = text.length;
+    while (invalid - incomplete > 1) {
+        const length = Math.floor((incomplete + invalid) / 2);
+        const prefix = text.slice(0, length);
+        try {
+            JSON.parse(prefix);
+            incomplete = length;
+        } catch (error) {
+            if (errorOffset(prefix, error as SyntaxError) === length) {
+                incomplete = length;
+            } else {
+                invalid = length;
+            }
+        }
+    }
+    return incomplete;
+}
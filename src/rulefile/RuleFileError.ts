@@ -0,0 +1,52 @@
+/**
+ * File formats supported by RuleFileSerializer
+ */
+export type RuleFileFormat = 'json' | 'yaml' | 'csv';
+
+/**
+ * A syntax error or an invalid rule in a rule file
+ */
+export interface RuleFileProblem {
+
+    /**
+     * 1-based line of the invalid text
+     */
+    readonly line: number;
+
+    /**
+     * 1-based column of the invalid text
+     */
+    readonly column: number;
+
+    readonly message: string;
+
+    /**
+     * Position of the invalid rule in the file, not set for syntax errors
+     */
+    readonly ruleIndex?: number;
+
+    /**
+     * Path to the invalid node of the rule, e.g. "match.any[1].age.gt", not set for syntax errors
+     */
+    readonly path?: string;
+}
+
+/**
+ * Thrown if a rule file can not be parsed or contains invalid rules.
+ * Syntax errors stop at the first problem, invalid rules are all listed.
+ */
+export class RuleFileError extends Error {
+
+    readonly format: RuleFileFormat;
+
+    readonly problems: RuleFileProblem[];
+
+    constructor(format: RuleFileFormat, problems: RuleFileProblem[]) {
+        const details = problems.map(problem =>
+            `- line ${problem.line}, column ${problem.column}: ${problem.path ? `${problem.path}: ` : ''}${problem.message}`);
+        super(`Invalid ${format.toUpperCase()} rule file:\n${details.join('\n')}`);
+        this.name = 'RuleFileError';
+        this.format = format;
+        this.problems = problems;
+    }
+}
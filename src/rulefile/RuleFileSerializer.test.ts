@@ -0,0 +1,232 @@
+import {MatchRuleFactory} from "@/entities/MatchRuleFactory";
+import {RuleFileSerializer} from "./RuleFileSerializer";
+import {RuleFileError} from "./RuleFileError";
+
+describe('RuleFileSerializer', () => {
+    const rules = MatchRuleFactory.createRules([
+        {
+            ruleName: 'adults',
+            priority: 1,
+            match: {age: {gte: 18}, email: '^[a-z]+@example\\.com$', status: null},
+            apply: {status: 'adult', priority: 42, isVerified: true}
+        },
+        {
+            ruleName: 'look-alikes',
+            priority: 2,
+            match: {any: [{role: 'admin'}, {not: {phone: {isNull: true}}}]},
+            apply: {status: '42', role: 'true', phone: '', name: '{"a": 1}', age: {add: 1}},
+            stopProcessingOtherRules: true
+        },
+        {
+            ruleName: 'computed, "quoted"',
+            match: {name: {pattern: 'doe', caseInsensitive: true}},
+            apply: {status: {template: '{name}, {role}\nline two'}, phone: {coalesce: [{ref: 'phone'}, null]}}
+        },
+    ]);
+
+    describe('round trips', () => {
+        it.each(['json', 'yaml', 'csv'] as const)('should read back %s without changes', (format) => {
+            const text = RuleFileSerializer.stringify(rules, format);
+
+            expect(RuleFileSerializer.parse(text, format)).toEqual(rules);
+        });
+
+        it.each(['json', 'yaml', 'csv'] as const)('should read back activation properties from %s', (format) => {
+            const seasonal = MatchRuleFactory.createRules([
+                {ruleName: 'summer', match: {email: '@'}, apply: {status: 'summer'}, validFrom: '2024-06-01', validTo: '2024-09-01'},
+                {ruleName: 'retired', match: {email: '@'}, apply: {status: 'retired'}, enabled: false},
+            ]);
+
+            expect(RuleFileSerializer.parse(RuleFileSerializer.stringify(seasonal, format), format)).toEqual(seasonal);
+        });
+
+        it('should convert between all formats without changes', () => {
+            const yaml = RuleFileSerializer.stringify(RuleFileSerializer.parse(RuleFileSerializer.stringify(rules, 'json'), 'json'), 'yaml');
+            const csv = RuleFileSerializer.stringify(RuleFileSerializer.parse(yaml, 'yaml'), 'csv');
+            const json = RuleFileSerializer.stringify(RuleFileSerializer.parse(csv, 'csv'), 'json');
+
+            expect(json).toBe(RuleFileSerializer.stringify(rules, 'json'));
+        });
+
+        it('should write dates as tagged ISO strings and read them back as dates', () => {
+            const datedRules = MatchRuleFactory.createRules([
+                {ruleName: 'recent', match: {created_at: {gt: new Date('2024-01-01T00:00:00Z')}}, apply: {status: 'new'}},
+                {
+                    ruleName: 'nested',
+                    match: {
+                        all: [
+                            {updated_at: new Date('2024-02-01T12:30:00Z')},
+                            {not: {created_at: {between: [new Date('2024-01-01T00:00:00Z'), new Date('2024-06-30T00:00:00Z')]}}},
+                            {any: [{created_at: {in: [new Date('2024-03-01T00:00:00Z')], not: new Date('2024-03-02T00:00:00Z')}}]},
+                        ]
+                    },
+                    apply: {status: 'nested'}
+                }
+            ]);
+
+            const json = RuleFileSerializer.stringify(datedRules, 'json');
+            expect(JSON.parse(json)[0].match.created_at.gt).toEqual({$date: '2024-01-01T00:00:00.000Z'});
+
+            for (const format of ['json', 'yaml', 'csv'] as const) {
+                expect(RuleFileSerializer.parse(RuleFileSerializer.stringify(datedRules, format), format)).toEqual(datedRules);
+            }
+        });
+
+        it('should keep dates without time and text operators as strings', () => {
+            const [rule] = RuleFileSerializer.parse(JSON.stringify([{
+                ruleName: 'strings',
+                match: {created_at: {gte: '2024-01-01'}, email: {like: '2024-01-01T00:00:00.000Z'}},
+                apply: {status: '2024-01-01T00:00:00.000Z'}
+            }]), 'json');
+
+            expect(rule.match).toEqual({created_at: {gte: '2024-01-01'}, email: {like: '2024-01-01T00:00:00.000Z'}});
+            expect(rule.apply).toEqual({status: '2024-01-01T00:00:00.000Z'});
+        });
+
+        it.each(['json', 'yaml', 'csv'] as const)('should keep ISO timestamp strings as strings in %s', (format) => {
+            const stringRules = MatchRuleFactory.createRules([{
+                ruleName: 'timestamp-text',
+                match: {email: '2024-01-01T00:00:00.000Z', status: {in: ['2024-01-01T00:00:00.000Z']}},
+                apply: {status: '2024-01-01T00:00:00.000Z'}
+            }]);
+
+            expect(RuleFileSerializer.parse(RuleFileSerializer.stringify(stringRules, format), format)).toEqual(stringRules);
+        });
+
+        it.each(['json', 'yaml', 'csv'] as const)('should read back dates of apply values from %s', (format) => {
+            const datedRules = MatchRuleFactory.createRules([{
+                ruleName: 'stamp',
+                match: {email: '@'},
+                apply: {updated_at: new Date('2024-01-01T00:00:00Z'), created_at: {coalesce: [{ref: 'created_at'}, new Date('2023-01-01T00:00:00Z')]}}
+            }]);
+
+            expect(RuleFileSerializer.parse(RuleFileSerializer.stringify(datedRules, format), format)).toEqual(datedRules);
+        });
+
+        it.each(['json', 'yaml', 'csv'] as const)('should write bigints as tagged strings and read them back from %s', (format) => {
+            const bigRules = MatchRuleFactory.createRules([{
+                ruleName: 'big',
+                match: {id: {gt: 9007199254740993n}, priority: 12n},
+                apply: {priority: -9007199254740993n}
+            }]);
+
+            const text = RuleFileSerializer.stringify(bigRules, format);
+
+            expect(text).toContain('9007199254740993');
+            expect(RuleFileSerializer.parse(text, format)).toEqual(bigRules);
+        });
+
+        it.each(['json', 'yaml', 'csv'] as const)('should read back object and array literals from %s', (format) => {
+            const literalRules = MatchRuleFactory.createRules([{
+                ruleName: 'documents',
+                match: {email: '@'},
+                apply: {meta: {tier: 'gold', tags: ['a', 'b']}, appliedRules: ['imported'], status: 'gold'}
+            }]);
+
+            const text = RuleFileSerializer.stringify(literalRules, format);
+
+            expect(text).toContain('$literal');
+            expect(RuleFileSerializer.parse(text, format)).toEqual(literalRules);
+        });
+    });
+
+    describe('csv', () => {
+        it('should write one rule per row with match and apply columns', () => {
+            const csv = RuleFileSerializer.stringify(rules.slice(0, 2), 'csv');
+
+            expect(csv.split('\n')[0]).toBe('ruleName,priority,stopProcessingOtherRules,match.age,match.email,match.status,match.any,'
+                + 'apply.status,apply.priority,apply.isVerified,apply.role,apply.phone,apply.name,apply.age');
+            expect(csv.split('\n')[1]).toBe('adults,1,false,"{""gte"":18}",^[a-z]+@example\\.com$,null,,adult,42,true,,,,');
+        });
+
+        it('should coerce typed cells', () => {
+            const [rule] = RuleFileSerializer.parse(
+                'ruleName,priority,match.age,match.role,match.status,apply.status,apply.isVerified,apply.phone\r\n'
+                + 'typed,3,"{""between"":[18,65]}",admin|user,null,"""7""",false,\r\n',
+                'csv'
+            );
+
+            expect(rule).toEqual({
+                ruleName: 'typed',
+                priority: 3,
+                match: {age: {between: [18, 65]}, role: 'admin|user', status: null},
+                apply: {status: '7', isVerified: false},
+                stopProcessingOtherRules: false
+            });
+        });
+    });
+
+    describe('errors', () => {
+        const parseError = (text: string, format: 'json' | 'yaml' | 'csv'): RuleFileError => {
+            try {
+                RuleFileSerializer.parse(text, format);
+            } catch (error) {
+                return error as RuleFileError;
+            }
+            throw new Error('Expected a RuleFileError');
+        };
+
+        it('should report the position of JSON syntax errors', () => {
+            const error = parseError('[\n  {"ruleName": "a",\n   "match": {"age": }}\n]', 'json');
+
+            expect(error).toBeInstanceOf(RuleFileError);
+            expect(error.problems).toEqual([{line: 3, column: 21, message: "Unexpected token '}'"}]);
+            expect(parseError('[\n  {"ruleName": "a",}\n]', 'json').problems)
+                .toEqual([{line: 2, column: 20, message: 'Expected double-quoted property name'}]);
+            expect(parseError('[{"ruleName": "a"}', 'json').problems)
+                .toEqual([{line: 1, column: 19, message: "Expected ',' or ']' after array element"}]);
+        });
+
+        it('should report the position of YAML syntax errors', () => {
+            const error = parseError('- ruleName: a\n  ruleName: b\n', 'yaml');
+
+            expect(error.problems).toEqual([{line: 2, column: 3, message: 'Map keys must be unique'}]);
+            expect(error.message).toBe('Invalid YAML rule file:\n- line 2, column 3: Map keys must be unique');
+        });
+
+        it('should report the position of CSV syntax errors', () => {
+            expect(parseError('ruleName,match.email\na,"@example\n', 'csv').problems)
+                .toEqual([{line: 2, column: 3, message: 'unterminated quoted field'}]);
+            expect(parseError('ruleName,match.age\na,"{""gt"": }"\n', 'csv').problems)
+                .toEqual([{line: 2, column: 13, message: "invalid JSON value: Unexpected token '}'"}]);
+            expect(parseError('ruleName,match.age\na,{"gt": 1}\n', 'csv').problems)
+                .toEqual([{line: 2, column: 4, message: 'quotes are only allowed in quoted fields'}]);
+            expect(parseError('ruleName,match.age\na,1,2\n', 'csv').problems)
+                .toEqual([{line: 2, column: 5, message: 'row has more cells than the header'}]);
+        });
+
+        it('should report every invalid rule node with its position', () => {
+            const yaml = [
+                '- ruleName: a',
+                '  match:',
+                '    age: {gt: [1]}',
+                '  apply: {status: x}',
+                '- ruleName: a',
+                '  match: {email: "@"}',
+                '  apply: {status: x}',
+                '  comment: unknown',
+            ].join('\n');
+
+            expect(parseError(yaml, 'yaml').problems).toEqual([
+                {line: 3, column: 15, ruleIndex: 0, path: 'match.age.gt', message: 'expected a number, string or Date'},
+                {line: 5, column: 13, ruleIndex: 1, path: 'ruleName', message: 'duplicate rule name "a", already used by rule 0'},
+                {line: 8, column: 12, ruleIndex: 1, path: 'comment', message: 'unknown property "comment"'},
+            ]);
+        });
+
+        it('should report invalid CSV rules at their cell', () => {
+            const error = parseError('ruleName,priority,match.age,apply.status\na,-1,"{""gt"":true}",x\n', 'csv');
+
+            expect(error.problems.map(p => [p.line, p.column, p.path])).toEqual([
+                [2, 3, 'priority'],
+                [2, 6, 'match.age.gt'],
+            ]);
+        });
+
+        it('should locate invalid JSON rules', () => {
+            const error = parseError('[{"ruleName": "a", "match": {"age": {"gt": []}}, "apply": {"status": "x"}}]', 'json');
+
+            expect(error.problems.map(p => [p.line, p.column, p.path])).toEqual([[1, 44, 'match.age.gt']]);
+        });
+    });
+});
@@ -0,0 +1,249 @@
+import {Document, LineCounter, parseDocument, stringify as stringifyYaml} from 'yaml';
+import {MatchRule} from "@/entities/MatchRule";
+import {MatchRuleFactory} from "@/entities/MatchRuleFactory";
+import {wrapLiterals} from "@/entities/ApplyValue";
+import {restoreTaggedValues, tagValues} from "@/entities/TaggedValues";
+import {RuleDefinitionProblem} from "@/entities/RuleDefinitionValidation";
+import {RuleFileError, RuleFileFormat} from "@/rulefile/RuleFileError";
+import {CsvCell, formatCsv, parseCsv} from "@/rulefile/CsvTable";
+import {locateJsonSyntaxError} from "@/rulefile/JsonSyntax";
+
+/**
+ * Rule object as it is written to a file, before the rules are created from it
+ */
+interface PlainRule {
+    match?: Record<string, unknown>;
+    apply?: Record<string, unknown>;
+    [property: string]: unknown;
+}
+
+/**
+ * Reads and writes rule files: a JSON or YAML array of rule objects, or a CSV table with one rule per row.
+ *
+ * CSV columns are rule properties, e.g. "ruleName" and "priority", and "match.<column>" / "apply.<column>"
+ * for the entries of match and apply. Cells are typed: empty cells are left out, null, true, false and numbers
+ * are converted, cells starting with "{", "[" or '"' are JSON, e.g. operator objects or strings like "42".
+ * Everything else is a string. Values JSON has no type for are written as tagged objects in all formats:
+ * Dates as {"$date": "<ISO timestamp>"} and bigints as {"$bigint": "<digits>"}. Only these objects are read back
+ * as Dates and bigints, strings that look like timestamps stay strings. Objects and arrays that are literal apply
+ * values, e.g. JSON documents, are written as {"$literal": <value>}.
+ */
+export class RuleFileSerializer {
+
+    /**
+     * Parse a rule file and create the rules with MatchRuleFactory.createRulesStrict
+     * @throws RuleFileError with the line and column of the syntax error or of every invalid rule node
+     */
+    static parse<T>(text: string, format: RuleFileFormat): MatchRule<T>[] {
+        switch (format) {
+            case 'json':
+                return RuleFileSerializer.parseJson(text);
+            case 'yaml':
+                return RuleFileSerializer.parseYaml(text);
+            case 'csv':
+                return RuleFileSerializer.parseCsv(text);
+        }
+    }
+
+    /**
+     * Write rules in a format that parse reads back into equal rules
+     */
+    static stringify(rules: MatchRule[], format: RuleFileFormat): string {
+        switch (format) {
+            case 'json':
+                return `${JSON.stringify(RuleFileSerializer.toPlainRules(rules), null, 2)}\n`;
+            case 'yaml':
+                return stringifyYaml(RuleFileSerializer.toPlainRules(rules), {lineWidth: 0});
+            case 'csv':
+                return RuleFileSerializer.stringifyCsv(rules);
+        }
+    }
+
+    /**
+     * Rules with tagged Dates and bigints and with object literals in apply wrapped in {"$literal": ...},
+     * so they are not rejected as unknown expressions by createRulesStrict
+     */
+    private static toPlainRules(rules: MatchRule[]): PlainRule[] {
+        return tagValues(rules.map(rule => ({...rule, apply: wrapLiterals(rule.apply)}))) as PlainRule[];
+    }
+
+    private static parseJson<T>(text: string): MatchRule<T>[] {
+        let json: unknown;
+        try {
+            json = JSON.parse(text);
+        } catch (error) {
+            throw new RuleFileError('json', [locateJsonSyntaxError(text, error as SyntaxError)]);
+        }
+        // Valid JSON is valid YAML, the YAML document maps invalid rule nodes to positions
+        return RuleFileSerializer.createRules(json, 'json', problem =>
+            RuleFileSerializer.locateInYaml(text, problem));
+    }
+
+    private static parseYaml<T>(text: string): MatchRule<T>[] {
+        const lineCounter = new LineCounter();
+        const document = parseDocument(text, {lineCounter, prettyErrors: false});
+        if (document.errors.length > 0) {
+            const error = document.errors[0];
+            const {line, col} = lineCounter.linePos(error.pos[0]);
+            throw new RuleFileError('yaml', [{line, column: col, message: error.message}]);
+        }
+        return RuleFileSerializer.createRules(document.toJS(), 'yaml', problem =>
+            RuleFileSerializer.locateInDocument(document, lineCounter, problem));
+    }
+
+    private static createRules<T>(json: unknown,
+                                  format: RuleFileFormat,
+                                  locate: (problem: RuleDefinitionProblem) => { line: number, column: number }): MatchRule<T>[] {
+        const result = MatchRuleFactory.createRulesStrict<T>(restoreTaggedValues(json));
+        if (result.valid) {
+            return result.rules;
+        }
+        throw new RuleFileError(format, result.problems.map(problem => ({
+            ...locate(problem),
+            message: problem.message,
+            ruleIndex: problem.ruleIndex,
+            path: problem.path,
+        })));
+    }
+
+    private static locateInYaml(text: string, problem: RuleDefinitionProblem): { line: number, column: number } {
+        const lineCounter = new LineCounter();
+        return RuleFileSerializer.locateInDocument(parseDocument(text, {lineCounter}), lineCounter, problem);
+    }
+
+    /**
+     * Position of the deepest existing node on the path of the problem
+     */
+    private static locateInDocument(document: Document, lineCounter: LineCounter, problem: RuleDefinitionProblem) {
+        const path: (string | number)[] = problem.ruleIndex >= 0 ? [problem.ruleIndex] : [];
+        for (const segment of problem.path.match(/[^.[\]]+|\[\d+]/g) ?? []) {
+            path.push(segment.startsWith('[') ? Number(segment.slice(1, -1)) : segment);
+        }
+        for (let length = path.length; length >= 0; length--) {
+            const node = length > 0 ? document.getIn(path.slice(0, length), true) : document.contents;
+            const offset = (node as { range?: [number, number, number] } | null)?.range?.[0];
+            if (offset !== undefined) {
+                const {line, col} = lineCounter.linePos(offset);
+                return {line, column: col};
+            }
+        }
+        return {line: 1, column: 1};
+    }
+
+    private static parseCsv<T>(text: string): MatchRule<T>[] {
+        const [header = [], ...rows] = parseCsv(text);
+        const fail = (cell: CsvCell, message: string): never => {
+            throw new RuleFileError('csv', [{line: cell.line, column: cell.column, message}]);
+        };
+
+        header.forEach((cell, index) => {
+            if (cell.value.trim() === '' || /^(match|apply)\.$/.test(cell.value)) {
+                fail(cell, 'header must contain a property name or "match.<column>" / "apply.<column>"');
+            }
+            if (header.findIndex(other => other.value === cell.value) !== index) {
+                fail(cell, `duplicate header "${cell.value}"`);
+            }
+        });
+
+        const json = rows.map(row => {
+            if (row.length > header.length) {
+                fail(row[header.length], 'row has more cells than the header');
+            }
+            const rule: PlainRule = {match: {}, apply: {}};
+            row.forEach((cell, index) => {
+                const value = RuleFileSerializer.parseCell(cell);
+                if (value === undefined) {
+                    return;
+                }
+                const name = header[index].value;
+                const section = /^(match|apply)\.(.+)$/.exec(name);
+                if (section) {
+                    rule[section[1] as 'match' | 'apply']![section[2]] = value;
+                } else {
+                    rule[name] = value;
+                }
+            });
+            return rule;
+        });
+
+        return RuleFileSerializer.createRules(json, 'csv', problem => {
+            const row = rows[problem.ruleIndex];
+            if (!row) {
+                return {line: 1, column: 1};
+            }
+            const [property, column] = problem.path.split(/[.[]/);
+            const headerName = property === 'match' || property === 'apply' ? `${property}.${column}` : property;
+            const cell = row[header.findIndex(headerCell => headerCell.value === headerName)] ?? row[0];
+            return {line: cell.line, column: cell.column};
+        });
+    }
+
+    /**
+     * @returns The typed cell value, undefined for empty cells
+     */
+    private static parseCell(cell: CsvCell): unknown {
+        const value = cell.value;
+        if (value === '') {
+            return undefined;
+        }
+        if (/^[{["]/.test(value)) {
+            try {
+                return JSON.parse(value);
+            } catch (error) {
+                const syntaxError = locateJsonSyntaxError(value, error as SyntaxError);
+                throw new RuleFileError('csv', [{
+                    ...RuleFileSerializer.positionInCell(cell, syntaxError),
+                    message: `invalid JSON value: ${syntaxError.message}`
+                }]);
+            }
+        }
+        if (RuleFileSerializer.isTypedLiteral(value)) {
+            return JSON.parse(value);
+        }
+        return value;
+    }
+
+    /**
+     * Map a position inside the cell value to the CSV text, the cell start is used for later lines of multi-line cells
+     */
+    private static positionInCell(cell: CsvCell, position: { line: number, column: number }): { line: number, column: number } {
+        if (position.line > 1) {
+            return {line: cell.line, column: cell.column};
+        }
+        const before = cell.value.slice(0, position.column - 1);
+        const escapedQuotes = cell.quoted ? before.split('"').length - 1 : 0;
+        return {line: cell.line, column: cell.column + (cell.quoted ? 1 : 0) + before.length + escapedQuotes};
+    }
+
+    private static isTypedLiteral(value: string): boolean {
+        return /^(null|true|false|-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?)$/.test(value);
+    }
+
+    private static stringifyCsv(rules: MatchRule[]): string {
+        const plain = RuleFileSerializer.toPlainRules(rules);
+        const headers = new Set<string>(['ruleName']);
+        for (const rule of plain) {
+            Object.keys(rule).filter(key => key !== 'match' && key !== 'apply').forEach(key => headers.add(key));
+        }
+        for (const section of ['match', 'apply'] as const) {
+            plain.forEach(rule => Object.keys(rule[section] ?? {}).forEach(key => headers.add(`${section}.${key}`)));
+        }
+
+        const rows = plain.map(rule => [...headers].map(header => {
+            const section = /^(match|apply)\.(.+)$/.exec(header);
+            return RuleFileSerializer.formatCell(section ? rule[section[1] as 'match' | 'apply']?.[section[2]] : rule[header]);
+        }));
+        return formatCsv([[...headers], ...rows]);
+    }
+
+    private static formatCell(value: unknown): string {
+        if (value === undefined) {
+            return '';
+        }
+        if (typeof value === 'string') {
+            const isPlain = value !== '' && !/^[{["]/.test(value) && !RuleFileSerializer.isTypedLiteral(value);
+            return isPlain ? value : JSON.stringify(value);
+        }
+        return JSON.stringify(value);
+    }
+}
@@ -0,0 +1,336 @@
+import {Kysely} from 'kysely';
+import {createTestDb} from '@/test/test-database';
+import {Database, User} from '@/test/database.types';
+import {MatchRuleFactory} from '@/entities/MatchRuleFactory';
+import {MysqlRulesDialect} from '@/engine/dialect/MysqlRulesDialect';
+import {DatabaseRuleStorage} from './DatabaseRuleStorage';
+import {MatchRule} from '@/entities/MatchRule';
+
+describe('DatabaseRuleStorage', () => {
+    let db: Kysely<Database>;
+    let storage: DatabaseRuleStorage;
+
+    beforeEach(async () => {
+        db = await createTestDb();
+        storage = new DatabaseRuleStorage(db);
+        await storage.createSchemaIfNotExists();
+    });
+
+    afterEach(async () => {
+        await db.destroy();
+    });
+
+    it('should create the schema only once', async () => {
+        await expect(storage.createSchemaIfNotExists()).resolves.not.toThrow();
+    });
+
+    it('should create and read a rule', async () => {
+        const rule = MatchRuleFactory.create<User>({
+            ruleName: 'promote-verified',
+            priority: 2,
+            match: {isVerified: true, age: {gte: 18}},
+            apply: {role: 'premium'},
+            stopProcessingOtherRules: true
+        });
+
+        const created = await storage.createRule('users', rule);
+
+        expect(created.id).toBeGreaterThan(0);
+        expect(created.tableName).toBe('users');
+        expect(created.createdAt).toBeInstanceOf(Date);
+
+        const loaded = await storage.getRule<User>(created.id);
+
+        expect(loaded).toEqual(created);
+        expect(loaded?.ruleName).toBe('promote-verified');
+        expect(loaded?.priority).toBe(2);
+        expect(loaded?.match).toEqual({isVerified: true, age: {gte: 18}});
+        expect(loaded?.apply).toEqual({role: 'premium'});
+        expect(loaded?.stopProcessingOtherRules).toBe(true);
+    });
+
+    it('should store the enabled state and activation window', async () => {
+        const rule = MatchRuleFactory.create<User>({
+            ruleName: 'black-friday',
+            match: {age: {gte: 18}},
+            apply: {role: 'premium'},
+            enabled: false,
+            validFrom: '2024-11-29',
+            validTo: '2024-12-03T12:30:00Z'
+        });
+
+        const created = await storage.createRule('users', rule);
+        const loaded = await storage.getRule<User>(created.id);
+
+        expect(loaded?.enabled).toBe(false);
+        expect(loaded?.validFrom).toEqual(new Date('2024-11-29T00:00:00Z'));
+        expect(loaded?.validTo).toEqual(new Date('2024-12-03T12:30:00Z'));
+
+        const updated = await storage.updateRule<User>(created.id, MatchRuleFactory.create({...rule, enabled: true, validTo: undefined}));
+        const [first, second] = await storage.getRuleVersions<User>(created.id);
+
+        expect(updated.enabled).toBe(true);
+        expect(updated.validFrom).toEqual(new Date('2024-11-29T00:00:00Z'));
+        expect(updated.validTo).toBeUndefined();
+        expect(first.enabled).toBe(false);
+        expect(first.validTo).toEqual(new Date('2024-12-03T12:30:00Z'));
+        expect(second.enabled).toBe(true);
+        expect(second.validTo).toBeUndefined();
+    });
+
+    it('should store dates and bigints in match and apply', async () => {
+        const rule = MatchRuleFactory.create<User>({
+            ruleName: 'typed-values',
+            match: {created_at: {gte: new Date('2024-01-01T00:00:00Z')}, priority: {lt: 9007199254740993n}},
+            apply: {updated_at: new Date('2024-06-01T12:00:00Z'), priority: 9007199254740993n}
+        });
+
+        const created = await storage.createRule('users', rule);
+        const loaded = await storage.getRule<User>(created.id);
+        const [version] = await storage.getRuleVersions<User>(created.id);
+
+        expect(loaded?.match).toEqual(rule.match);
+        expect(loaded?.apply).toEqual(rule.apply);
+        expect(version.match).toEqual(rule.match);
+        expect(version.apply).toEqual(rule.apply);
+    });
+
+    it('should keep ISO timestamp strings as strings', async () => {
+        const created = await storage.createRule('users', MatchRuleFactory.create<User>({
+            ruleName: 'timestamp-text',
+            match: {status: '2024-01-01T00:00:00.000Z'},
+            apply: {name: '2024-01-01T00:00:00.000Z'}
+        }));
+
+        const loaded = await storage.getRule<User>(created.id);
+
+        expect(loaded?.match).toEqual({status: '2024-01-01T00:00:00.000Z'});
+        expect(loaded?.apply).toEqual({name: '2024-01-01T00:00:00.000Z'});
+    });
+
+    it('should return undefined for unknown rule ids', async () => {
+        expect(await storage.getRule(999)).toBeUndefined();
+    });
+
+    it('should reject invalid rules', async () => {
+        const invalid: unknown = {ruleName: 'bad', match: {age: {gt: []}}, apply: {}};
+        await expect(storage.createRule('users', invalid as MatchRule))
+            .rejects.toThrow('Invalid match condition "age.gt"');
+        await expect(storage.createRule('', MatchRuleFactory.create({ruleName: 'r'})))
+            .rejects.toThrow('Table name must be a non-empty string');
+    });
+
+    it('should reject duplicate rule names for the same table', async () => {
+        const rule = MatchRuleFactory.create({ruleName: 'duplicate', match: {role: 'admin'}, apply: {status: 'x'}});
+
+        await storage.createRule('users', rule);
+        await storage.createRule('posts', rule);
+
+        // Driver errors may come from another realm, so match the message instead of using toThrow
+        await expect(storage.createRule('users', rule)).rejects.toHaveProperty('message', expect.stringMatching(/unique/i));
+    });
+
+    it('should update a rule', async () => {
+        const created = await storage.createRule('users', MatchRuleFactory.create({
+            ruleName: 'rule',
+            match: {role: 'admin'},
+            apply: {status: 'old'}
+        }));
+
+        const updated = await storage.updateRule(created.id, MatchRuleFactory.create({
+            ruleName: 'renamed-rule',
+            priority: 5,
+            match: {any: [{role: 'admin'}, {role: 'moderator'}]},
+            apply: {status: 'new'}
+        }));
+
+        expect(updated.id).toBe(created.id);
+        expect(updated.tableName).toBe('users');
+        expect(updated.ruleName).toBe('renamed-rule');
+        expect(updated.priority).toBe(5);
+        expect(updated.match).toEqual({any: [{role: 'admin'}, {role: 'moderator'}]});
+        expect(updated.updatedAt.getTime()).toBeGreaterThanOrEqual(created.updatedAt.getTime());
+        expect(await storage.getRule(created.id)).toEqual(updated);
+    });
+
+    it('should throw when updating an unknown rule', async () => {
+        await expect(storage.updateRule(999, MatchRuleFactory.create({ruleName: 'r'})))
+            .rejects.toThrow('Rule with id 999 does not exist');
+    });
+
+    it('should delete a rule', async () => {
+        const created = await storage.createRule('users', MatchRuleFactory.create({ruleName: 'rule'}));
+
+        expect(await storage.deleteRule(created.id)).toBe(true);
+        expect(await storage.deleteRule(created.id)).toBe(false);
+        expect(await storage.getRule(created.id)).toBeUndefined();
+    });
+
+    it('should list rules of a table ordered by priority', async () => {
+        await storage.createRule('users', MatchRuleFactory.create({ruleName: 'third', priority: 3}));
+        await storage.createRule('users', MatchRuleFactory.create({ruleName: 'first', priority: 1}));
+        await storage.createRule('posts', MatchRuleFactory.create({ruleName: 'other-table', priority: 2}));
+        await storage.createRule('users', MatchRuleFactory.create({ruleName: 'second', priority: 1}));
+
+        const rules = await storage.listRules('users');
+
+        expect(rules.map(r => r.ruleName)).toEqual(['first', 'second', 'third']);
+        expect(await storage.listRules('unknown')).toEqual([]);
+    });
+
+    describe('version history', () => {
+        const tick = () => new Promise(resolve => setTimeout(resolve, 10));
+
+        it('should record a version for every change', async () => {
+            const created = await storage.createRule('users', MatchRuleFactory.create({
+                ruleName: 'versioned',
+                match: {role: 'admin'},
+                apply: {status: 'v1'}
+            }), {author: 'alice', changeNote: 'initial'});
+            await storage.updateRule(created.id, MatchRuleFactory.create({
+                ruleName: 'versioned',
+                match: {role: 'admin'},
+                apply: {status: 'v2'}
+            }), {author: 'bob', changeNote: 'new status'});
+            await storage.deleteRule(created.id, {author: 'carol'});
+
+            const versions = await storage.getRuleVersions(created.id);
+
+            expect(created.version).toBe(1);
+            expect(versions.map(v => v.version)).toEqual([1, 2, 3]);
+            expect(versions.map(v => v.apply)).toEqual([{status: 'v1'}, {status: 'v2'}, {status: 'v2'}]);
+            expect(versions.map(v => v.author)).toEqual(['alice', 'bob', 'carol']);
+            expect(versions.map(v => v.changeNote)).toEqual(['initial', 'new status', undefined]);
+            expect(versions.map(v => v.deleted)).toEqual([false, false, true]);
+            expect(versions.every(v => v.ruleId === created.id && v.tableName === 'users')).toBe(true);
+            expect(versions[0].createdAt).toBeInstanceOf(Date);
+        });
+
+        it('should return the current version number of stored rules', async () => {
+            const created = await storage.createRule('users', MatchRuleFactory.create({ruleName: 'rule'}));
+            const updated = await storage.updateRule(created.id, MatchRuleFactory.create({ruleName: 'rule', priority: 1}));
+
+            expect(updated.version).toBe(2);
+            expect((await storage.getRuleVersion(created.id, 2))?.priority).toBe(1);
+            expect(await storage.getRuleVersion(created.id, 3)).toBeUndefined();
+        });
+
+        it('should reproduce the rule set at a point in time', async () => {
+            const first = await storage.createRule('users', MatchRuleFactory.create({
+                ruleName: 'first',
+                priority: 2,
+                match: {role: 'admin'},
+                apply: {status: 'v1'}
+            }));
+            const removed = await storage.createRule('users', MatchRuleFactory.create({ruleName: 'removed', priority: 1}));
+            await storage.createRule('posts', MatchRuleFactory.create({ruleName: 'other-table'}));
+            await tick();
+            const afterCreate = new Date();
+            await tick();
+
+            await storage.updateRule(first.id, MatchRuleFactory.create({
+                ruleName: 'first',
+                priority: 2,
+                match: {role: 'admin'},
+                apply: {status: 'v2'}
+            }));
+            await storage.deleteRule(removed.id);
+            await storage.createRule('users', MatchRuleFactory.create({ruleName: 'later'}));
+            await tick();
+            const afterChanges = new Date();
+
+            const rulesAfterCreate = await storage.getRulesAt('users', afterCreate);
+            expect(rulesAfterCreate.map(r => r.ruleName)).toEqual(['removed', 'first']);
+            expect(rulesAfterCreate[1].apply).toEqual({status: 'v1'});
+            expect(rulesAfterCreate[1].version).toBe(1);
+
+            const rulesAfterChanges = await storage.getRulesAt('users', afterChanges);
+            expect(rulesAfterChanges.map(r => r.ruleName)).toEqual(['later', 'first']);
+            expect(rulesAfterChanges[1].apply).toEqual({status: 'v2'});
+
+            expect(await storage.getRulesAt('users', new Date(0))).toEqual([]);
+        });
+
+        it('should revert a rule to an earlier version', async () => {
+            const created = await storage.createRule('users', MatchRuleFactory.create({
+                ruleName: 'revertible',
+                match: {role: 'admin'},
+                apply: {status: 'good'}
+            }));
+            await storage.updateRule(created.id, MatchRuleFactory.create({
+                ruleName: 'revertible',
+                match: {role: 'admin'},
+                apply: {status: 'broken'}
+            }));
+
+            const reverted = await storage.revertRule(created.id, 1, {author: 'alice'});
+
+            expect(reverted.version).toBe(3);
+            expect(reverted.apply).toEqual({status: 'good'});
+            expect(await storage.getRule(created.id)).toEqual(reverted);
+
+            const versions = await storage.getRuleVersions(created.id);
+            expect(versions[2].author).toBe('alice');
+            expect(versions[2].changeNote).toBe('Reverted to version 1');
+        });
+
+        it('should reproduce and revert rules with date conditions', async () => {
+            const created = await storage.createRule('users', MatchRuleFactory.create<User>({
+                ruleName: 'new-users',
+                match: {created_at: {gte: new Date('2024-01-01T00:00:00Z')}},
+                apply: {status: 'new'}
+            }));
+            await tick();
+            const afterCreate = new Date();
+            await tick();
+            await storage.updateRule(created.id, MatchRuleFactory.create<User>({
+                ruleName: 'new-users',
+                match: {created_at: {gte: new Date('2025-01-01T00:00:00Z')}},
+                apply: {status: 'new'}
+            }));
+
+            const [ruleAtCreate] = await storage.getRulesAt<User>('users', afterCreate);
+            const reverted = await storage.revertRule<User>(created.id, 1);
+
+            expect(ruleAtCreate.match).toEqual({created_at: {gte: new Date('2024-01-01T00:00:00Z')}});
+            expect(reverted.match).toEqual({created_at: {gte: new Date('2024-01-01T00:00:00Z')}});
+            expect((await storage.getRuleVersion<User>(created.id, 3))?.match).toEqual(reverted.match);
+        });
+
+        it('should restore a deleted rule with its original id', async () => {
+            const created = await storage.createRule('users', MatchRuleFactory.create({ruleName: 'restorable'}));
+            await storage.deleteRule(created.id);
+
+            const restored = await storage.revertRule(created.id, 1);
+
+            expect(restored.id).toBe(created.id);
+            expect(restored.version).toBe(3);
+            expect((await storage.listRules('users')).map(r => r.ruleName)).toEqual(['restorable']);
+        });
+
+        it('should not revert to unknown or deletion versions', async () => {
+            const created = await storage.createRule('users', MatchRuleFactory.create({ruleName: 'rule'}));
+            await storage.deleteRule(created.id);
+
+            await expect(storage.revertRule(created.id, 5))
+                .rejects.toThrow(`Version 5 of rule with id ${created.id} does not exist`);
+            await expect(storage.revertRule(created.id, 2))
+                .rejects.toThrow('records a deletion and can not be restored');
+        });
+    });
+
+    it('should use a custom rules table name', async () => {
+        const customStorage = new DatabaseRuleStorage(db, 'custom_rules');
+        await customStorage.createSchemaIfNotExists();
+
+        await customStorage.createRule('users', MatchRuleFactory.create({ruleName: 'custom'}));
+
+        expect((await customStorage.listRules('users')).map(r => r.ruleName)).toEqual(['custom']);
+        expect(await storage.listRules('users')).toEqual([]);
+    });
+
+    it('should reject dialects the rule storage does not support', () => {
+        expect(() => new DatabaseRuleStorage(db, 'match_rules', new MysqlRulesDialect()))
+            .toThrow('DatabaseRuleStorage does not support the MySQL dialect');
+    });
+});
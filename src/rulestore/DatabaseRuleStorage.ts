@@ -1,14 +1,440 @@
-import {Kysely} from "kysely";
-import {Database} from "@/test/database.types";
+import {Kysely, Transaction} from "kysely";
+import {MatchRule} from "@/entities/MatchRule";
+import {MatchRuleFactory} from "@/entities/MatchRuleFactory";
+import {StoredMatchRule} from "@/rulestore/StoredMatchRule";
+import {RuleChange, RuleVersion} from "@/rulestore/RuleVersion";
+import {isRuleStorageDialect, RulesDialect, RuleStorageDialect} from "@/engine/dialect/RulesDialect";
+import {RulesDialects} from "@/engine/dialect/RulesDialects";
+import {restoreTaggedValues, tagValues} from "@/entities/TaggedValues";
+import {MatchCondition} from "@/entities/MatchCondition";
+import {ApplyValues} from "@/entities/ApplyValue";
 
+/**
+ * Row of the rules or rule versions table, column values are typed by the driver
+ */
+type RuleRow = Record<string, unknown>;
 
+/**
+ * Persistent repository of MatchRules.
+ * Rules are stored in a dedicated table (by default "match_rules") with match and apply conditions as JSON,
+ * Dates and bigints in them are stored as tagged objects, e.g. {"$date": "2024-01-01T00:00:00.000Z"}.
+ * Every rule belongs to a target table, so the rules for one table can be loaded and processed together.
+ *
+ * Every change of a rule is kept as an immutable version in "{rulesTableName}_versions",
+ * so the rule set of a table can be reproduced as it was at any point in time.
+ */
 export class DatabaseRuleStorage {
 
-    private db: Kysely<Database>;
+    private readonly db: Kysely<any>;
 
-    public constructor(db: Kysely<Database>) {
+    private readonly rulesTableName: string;
+
+    private readonly versionsTableName: string;
+
+    private readonly dialect: RuleStorageDialect;
+
+    /**
+     * @param db Kysely database instance
+     * @param rulesTableName Name of the rules table
+     * @param dialect SQL dialect of the database, default is the dialect registered for the adapter, see RulesDialects
+     * @throws Error if the dialect does not support the rule storage, e.g. MySQL
+     */
+    public constructor(db: Kysely<any>, rulesTableName: string = 'match_rules', dialect?: RulesDialect) {
+        if (!db) {
+            throw new Error('Database connection is required');
+        }
         this.db = db;
+        this.rulesTableName = rulesTableName;
+        this.versionsTableName = `${rulesTableName}_versions`;
+        const databaseDialect = dialect ?? RulesDialects.forDatabase(db);
+        if (!isRuleStorageDialect(databaseDialect)) {
+            throw new Error(`DatabaseRuleStorage does not support the ${databaseDialect.name} dialect`);
+        }
+        this.dialect = databaseDialect;
+    }
+
+    /**
+     * Create the rules and rule versions tables if they do not exist yet, column types come from the dialect
+     */
+    async createSchemaIfNotExists(): Promise<void> {
+        const {jsonType, timestampType} = this.dialect;
+
+        await this.db.schema
+            .createTable(this.rulesTableName)
+            .ifNotExists()
+            .addColumn('id', 'integer', col => this.dialect.identityColumn(col))
+            .addColumn('table_name', 'text', col => col.notNull())
+            .addColumn('rule_name', 'text', col => col.notNull())
+            .addColumn('priority', 'integer', col => col.notNull().defaultTo(0))
+            .addColumn('stop_processing_other_rules', 'boolean', col => col.notNull().defaultTo(false))
+            .addColumn('match', jsonType, col => col.notNull())
+            .addColumn('apply', jsonType, col => col.notNull())
+            .addColumn('enabled', 'boolean', col => col.notNull().defaultTo(true))
+            .addColumn('valid_from', timestampType)
+            .addColumn('valid_to', timestampType)
+            .addColumn('version', 'integer', col => col.notNull().defaultTo(1))
+            .addColumn('created_at', timestampType, col => col.notNull())
+            .addColumn('updated_at', timestampType, col => col.notNull())
+            .addUniqueConstraint(`${this.rulesTableName}_table_rule_name_unique`, ['table_name', 'rule_name'])
+            .execute();
+
+        // No foreign key to the rules table: versions of deleted rules are kept
+        await this.db.schema
+            .createTable(this.versionsTableName)
+            .ifNotExists()
+            .addColumn('rule_id', 'integer', col => col.notNull())
+            .addColumn('version', 'integer', col => col.notNull())
+            .addColumn('table_name', 'text', col => col.notNull())
+            .addColumn('rule_name', 'text', col => col.notNull())
+            .addColumn('priority', 'integer', col => col.notNull())
+            .addColumn('stop_processing_other_rules', 'boolean', col => col.notNull())
+            .addColumn('match', jsonType, col => col.notNull())
+            .addColumn('apply', jsonType, col => col.notNull())
+            .addColumn('enabled', 'boolean', col => col.notNull())
+            .addColumn('valid_from', timestampType)
+            .addColumn('valid_to', timestampType)
+            .addColumn('deleted', 'boolean', col => col.notNull().defaultTo(false))
+            .addColumn('author', 'text')
+            .addColumn('change_note', 'text')
+            .addColumn('created_at', timestampType, col => col.notNull())
+            .addPrimaryKeyConstraint(`${this.versionsTableName}_pk`, ['rule_id', 'version'])
+            .execute();
+
+        await this.db.schema
+            .createIndex(`${this.versionsTableName}_table_created_idx`)
+            .ifNotExists()
+            .on(this.versionsTableName)
+            .columns(['table_name', 'created_at'])
+            .execute();
+    }
+
+    /**
+     * Store a new rule for the given target table
+     * @param tableName Target table the rule is applied to
+     * @param rule Rule to store, rule names must be unique per target table
+     * @param change Author and note recorded in the first version of the rule
+     * @returns The stored rule with generated id
+     */
+    async createRule<T>(tableName: string, rule: MatchRule<T>, change: RuleChange = {}): Promise<StoredMatchRule<T>> {
+        if (!tableName || typeof tableName !== 'string') {
+            throw new Error('Table name must be a non-empty string');
+        }
+
+        return await this.db.transaction().execute(async (trx) => {
+            const now = this.toDbTimestamp(new Date());
+            const row = await trx
+                .insertInto(this.rulesTableName)
+                .values({
+                    table_name: tableName,
+                    ...this.toRow(rule),
+                    version: 1,
+                    created_at: now,
+                    updated_at: now,
+                })
+                .returningAll()
+                .executeTakeFirstOrThrow();
+
+            await this.insertVersion(trx, row, false, change);
+            return this.fromRow<T>(row);
+        });
+    }
+
+    /**
+     * @returns The stored rule or undefined if there is no rule with the given id
+     */
+    async getRule<T>(id: number): Promise<StoredMatchRule<T> | undefined> {
+        const row = await this.db
+            .selectFrom(this.rulesTableName)
+            .selectAll()
+            .where('id', '=', id)
+            .executeTakeFirst();
+
+        return row ? this.fromRow<T>(row) : undefined;
+    }
+
+    /**
+     * Replace the definition of a stored rule and record it as a new version.
+     * The target table of the rule is not changed.
+     * @throws Error if there is no rule with the given id
+     */
+    async updateRule<T>(id: number, rule: MatchRule<T>, change: RuleChange = {}): Promise<StoredMatchRule<T>> {
+        return await this.db.transaction().execute(async (trx) => {
+            const row = await this.updateRuleRow(trx, id, rule);
+            await this.insertVersion(trx, row, false, change);
+            return this.fromRow<T>(row);
+        });
+    }
+
+    /**
+     * Delete a rule. The version history of the rule is kept and the deletion is recorded as a version.
+     * @returns true if the rule existed and was deleted
+     */
+    async deleteRule(id: number, change: RuleChange = {}): Promise<boolean> {
+        return await this.db.transaction().execute(async (trx) => {
+            const row = await trx
+                .deleteFrom(this.rulesTableName)
+                .where('id', '=', id)
+                .returningAll()
+                .executeTakeFirst();
+
+            if (!row) {
+                return false;
+            }
+            await this.insertVersion(trx, {...row, version: Number(row.version) + 1}, true, change);
+            return true;
+        });
+    }
+
+    /**
+     * List all rules of the target table ordered by priority
+     */
+    async listRules<T>(tableName: string): Promise<StoredMatchRule<T>[]> {
+        const rows = await this.db
+            .selectFrom(this.rulesTableName)
+            .selectAll()
+            .where('table_name', '=', tableName)
+            .orderBy('priority')
+            .orderBy('id')
+            .execute();
+
+        return rows.map(row => this.fromRow<T>(row));
+    }
+
+    /**
+     * @returns All versions of the rule, oldest first. Versions of deleted rules are included.
+     */
+    async getRuleVersions<T>(id: number): Promise<RuleVersion<T>[]> {
+        const rows = await this.db
+            .selectFrom(this.versionsTableName)
+            .selectAll()
+            .where('rule_id', '=', id)
+            .orderBy('version')
+            .execute();
+
+        return rows.map(row => this.fromVersionRow<T>(row));
+    }
+
+    /**
+     * @returns The requested version of the rule or undefined if it does not exist
+     */
+    async getRuleVersion<T>(id: number, version: number): Promise<RuleVersion<T> | undefined> {
+        const row = await this.db
+            .selectFrom(this.versionsTableName)
+            .selectAll()
+            .where('rule_id', '=', id)
+            .where('version', '=', version)
+            .executeTakeFirst();
+
+        return row ? this.fromVersionRow<T>(row) : undefined;
     }
 
+    /**
+     * Reproduce the rule set of the target table as it was at the given time.
+     * For every rule the latest version written at or before that time is returned,
+     * rules that did not exist yet or were already deleted are left out.
+     * The returned versions are MatchRules and can be passed to RulesService.processRules directly.
+     */
+    async getRulesAt<T>(tableName: string, at: Date): Promise<RuleVersion<T>[]> {
+        const rows = await this.db
+            .selectFrom(this.versionsTableName)
+            .selectAll()
+            .where('table_name', '=', tableName)
+            .where('created_at', '<=', this.toDbTimestamp(at))
+            .orderBy('rule_id')
+            .orderBy('version')
+            .execute();
+
+        const latestVersions = new Map<number, RuleRow>();
+        for (const row of rows) {
+            latestVersions.set(Number(row.rule_id), row);
+        }
+
+        return [...latestVersions.values()]
+            .map(row => this.fromVersionRow<T>(row))
+            .filter(version => !version.deleted)
+            .sort((a, b) => a.priority - b.priority || a.ruleId - b.ruleId);
+    }
 
-}
\ No newline at end of file
+    /**
+     * Restore the definition of an earlier version. The revert is recorded as a new version,
+     * so the history stays immutable. Deleted rules are restored with their original id.
+     * @throws Error if the version does not exist or records a deletion
+     */
+    async revertRule<T>(id: number, version: number, change: RuleChange = {}): Promise<StoredMatchRule<T>> {
+        const target = await this.getRuleVersion<T>(id, version);
+        if (!target) {
+            throw new Error(`Version ${version} of rule with id ${id} does not exist`);
+        }
+        if (target.deleted) {
+            throw new Error(`Version ${version} of rule with id ${id} records a deletion and can not be restored`);
+        }
+
+        const revertChange: RuleChange = {
+            author: change.author,
+            changeNote: change.changeNote ?? `Reverted to version ${version}`,
+        };
+
+        return await this.db.transaction().execute(async (trx) => {
+            const current = await trx
+                .selectFrom(this.rulesTableName)
+                .select('id')
+                .where('id', '=', id)
+                .executeTakeFirst();
+
+            let row: RuleRow;
+            if (current) {
+                row = await this.updateRuleRow(trx, id, target);
+            } else {
+                row = await this.restoreRuleRow(trx, target);
+            }
+
+            await this.insertVersion(trx, row, false, revertChange);
+            return this.fromRow<T>(row);
+        });
+    }
+
+    private async updateRuleRow<T>(trx: Transaction<any>, id: number, rule: MatchRule<T>): Promise<RuleRow> {
+        const row = await trx
+            .updateTable(this.rulesTableName)
+            .set(eb => ({
+                ...this.toRow(rule),
+                version: eb('version', '+', 1),
+                updated_at: this.toDbTimestamp(new Date()),
+            }))
+            .where('id', '=', id)
+            .returningAll()
+            .executeTakeFirst();
+
+        if (!row) {
+            throw new Error(`Rule with id ${id} does not exist`);
+        }
+        return row;
+    }
+
+    private async restoreRuleRow<T>(trx: Transaction<any>, target: RuleVersion<T>): Promise<RuleRow> {
+        const lastVersion = await trx
+            .selectFrom(this.versionsTableName)
+            .select(eb => eb.fn.max('version').as('version'))
+            .where('rule_id', '=', target.ruleId)
+            .executeTakeFirstOrThrow();
+
+        const now = this.toDbTimestamp(new Date());
+        return await trx
+            .insertInto(this.rulesTableName)
+            .values({
+                id: target.ruleId,
+                table_name: target.tableName,
+                ...this.toRow(target),
+                version: Number(lastVersion.version) + 1,
+                created_at: now,
+                updated_at: now,
+            })
+            .returningAll()
+            .executeTakeFirstOrThrow();
+    }
+
+    private async insertVersion(trx: Transaction<any>,
+                                row: RuleRow,
+                                deleted: boolean,
+                                change: RuleChange): Promise<void> {
+        await trx
+            .insertInto(this.versionsTableName)
+            .values({
+                rule_id: row.id,
+                version: row.version,
+                table_name: row.table_name,
+                rule_name: row.rule_name,
+                priority: row.priority,
+                stop_processing_other_rules: row.stop_processing_other_rules,
+                match: this.toJson(row.match),
+                apply: this.toJson(row.apply),
+                enabled: row.enabled,
+                valid_from: row.valid_from,
+                valid_to: row.valid_to,
+                deleted: this.toDbBoolean(deleted),
+                author: change.author ?? null,
+                change_note: change.changeNote ?? null,
+                created_at: this.toDbTimestamp(new Date()),
+            })
+            .execute();
+    }
+
+    private toRow<T>(rule: MatchRule<T>): RuleRow {
+        // Validate before storing, so only rules that can be loaded again are persisted
+        const validRule = MatchRuleFactory.create<T>(rule);
+        return {
+            rule_name: validRule.ruleName,
+            priority: validRule.priority,
+            stop_processing_other_rules: this.toDbBoolean(validRule.stopProcessingOtherRules),
+            match: this.toJson(validRule.match),
+            apply: this.toJson(validRule.apply),
+            enabled: this.toDbBoolean(validRule.enabled ?? true),
+            valid_from: validRule.validFrom ? this.toDbTimestamp(validRule.validFrom) : null,
+            valid_to: validRule.validTo ? this.toDbTimestamp(validRule.validTo) : null,
+        };
+    }
+
+    private toMatchRule<T>(row: RuleRow): MatchRule<T> {
+        return MatchRuleFactory.createRule<T>(
+            String(row.rule_name),
+            this.parseJson(row.match) as MatchCondition<T>,
+            this.parseJson(row.apply) as ApplyValues<T>,
+            Number(row.priority),
+            Boolean(row.stop_processing_other_rules),
+            {
+                enabled: Boolean(row.enabled),
+                validFrom: row.valid_from == null ? undefined : this.fromDbTimestamp(row.valid_from),
+                validTo: row.valid_to == null ? undefined : this.fromDbTimestamp(row.valid_to),
+            }
+        );
+    }
+
+    private fromRow<T>(row: RuleRow): StoredMatchRule<T> {
+        return {
+            ...this.toMatchRule<T>(row),
+            id: Number(row.id),
+            tableName: String(row.table_name),
+            version: Number(row.version),
+            createdAt: this.fromDbTimestamp(row.created_at),
+            updatedAt: this.fromDbTimestamp(row.updated_at),
+        };
+    }
+
+    private fromVersionRow<T>(row: RuleRow): RuleVersion<T> {
+        return {
+            ...this.toMatchRule<T>(row),
+            ruleId: Number(row.rule_id),
+            version: Number(row.version),
+            tableName: String(row.table_name),
+            deleted: Boolean(row.deleted),
+            author: row.author == null ? undefined : String(row.author),
+            changeNote: row.change_note == null ? undefined : String(row.change_note),
+            createdAt: this.fromDbTimestamp(row.created_at),
+        };
+    }
+
+    private parseJson(value: unknown): unknown {
+        // PostgreSQL jsonb columns are parsed by the driver, SQLite returns the JSON text
+        return restoreTaggedValues(typeof value === 'string' ? JSON.parse(value) : value);
+    }
+
+    /**
+     * Dates and bigints are stored as tagged objects, see tagValues, JSON text read from the database is kept
+     */
+    private toJson(value: unknown): string {
+        return typeof value === 'string' ? value : JSON.stringify(tagValues(value));
+    }
+
+    private toDbBoolean(value: boolean): unknown {
+        // better-sqlite3 can't bind booleans
+        return this.dialect.toSqlValue(value);
+    }
+
+    private toDbTimestamp(date: Date): unknown {
+        return this.dialect.toTimestampValue(date);
+    }
+
+    private fromDbTimestamp(value: unknown): Date {
+        return value instanceof Date ? value : new Date(String(value));
+    }
+}
@@ -0,0 +1,46 @@
+import {MatchRule} from "@/entities/MatchRule";
+
+/**
+ * Audit information of a rule change
+ */
+export interface RuleChange {
+
+    /**
+     * Who made the change
+     */
+    readonly author?: string;
+
+    /**
+     * Why the change was made
+     */
+    readonly changeNote?: string;
+}
+
+/**
+ * Immutable snapshot of a stored rule definition.
+ * A new version is written by DatabaseRuleStorage every time a rule is created, updated, reverted or deleted.
+ */
+export interface RuleVersion<T = unknown> extends MatchRule<T>, RuleChange {
+
+    /**
+     * Id of the stored rule this version belongs to
+     */
+    readonly ruleId: number;
+
+    /**
+     * Version number, starting from 1 and increasing with every change of the rule
+     */
+    readonly version: number;
+
+    readonly tableName: string;
+
+    /**
+     * True if this version records the deletion of the rule
+     */
+    readonly deleted: boolean;
+
+    /**
+     * When the version was written. The version is in effect until the next version of the rule.
+     */
+    readonly createdAt: Date;
+}
@@ -0,0 +1,26 @@
+import {MatchRule} from "@/entities/MatchRule";
+
+/**
+ * MatchRule persisted by DatabaseRuleStorage
+ */
+export interface StoredMatchRule<T = unknown> extends MatchRule<T> {
+
+    /**
+     * Generated identifier of the stored rule
+     */
+    readonly id: number;
+
+    /**
+     * Target table the rule is applied to, e.g. "users" for rules that are executed on "users_results"
+     */
+    readonly tableName: string;
+
+    /**
+     * Current version number of the rule, see RuleVersion
+     */
+    readonly version: number;
+
+    readonly createdAt: Date;
+
+    readonly updatedAt: Date;
+}
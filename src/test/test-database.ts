@@ -1,4 +1,4 @@
-import {Kysely, PostgresDialect, SqliteDialect, sql} from 'kysely'
+import {Kysely, MysqlDialect, PostgresDialect, SqliteDialect, sql} from 'kysely'
 import type {Database} from './database.types'
 
 /**
@@ -9,6 +9,10 @@ import type {Database} from './database.types'
  * `test_user`/`password` and database `test_db` is used instead. The connection
  * operates inside the "test" schema which is dropped and recreated for every
  * invocation.
+ *
+ * If the USE_MYSQL_TESTS flag is truthy, a MySQL database running on
+ * localhost:3307 with the same credentials and database is used. All tables of
+ * the database are dropped for every invocation.
  */
 export async function createTestDb(): Promise<Kysely<Database>> {
     const usePg = !!process.env.USE_PG_TESTS
@@ -37,12 +41,40 @@ export async function createTestDb(): Promise<Kysely<Database>> {
         return db
     }
 
+    if (process.env.USE_MYSQL_TESTS) {
+        const {createPool} = await import('mysql2')
+        const dialect = new MysqlDialect({
+            pool: createPool({
+                host: 'localhost',
+                port: 3307,
+                user: 'test_user',
+                password: 'password',
+                database: 'test_db'
+            })
+        })
+        const db = new Kysely<Database>({dialect})
+        const tables = await sql<{ name: string }>`
+            SELECT table_name AS name
+            FROM information_schema.tables
+            WHERE table_schema = DATABASE()`.execute(db)
+        if (tables.rows.length > 0) {
+            // Tables referencing each other can be dropped in the same statement
+            await sql`DROP TABLE ${sql.join(tables.rows.map(row => sql.table(row.name)))}`.execute(db)
+        }
+        await createSchema(db)
+        return db
+    }
+
     const {default: BetterSqlite3} = await import('better-sqlite3')
     const sqlite = new BetterSqlite3(':memory:')
-    sqlite.function('regexp_like', (s: string | null, p: string) => {
-        const regexp = new RegExp(p)
+    sqlite.function('regexp_like', {varargs: true}, (s: string | null, p: string, flags?: string) => {
+        const regexp = new RegExp(p, flags)
         return s ? (regexp.test(s) ? 1 : 0) : 0
     })
+    sqlite.function('regexp_extract', (s: string | null, p: string) => {
+        const match = s === null ? null : new RegExp(p).exec(s)
+        return match?.[1] ?? null
+    })
     sqlite.function('json_array', () => '[]')
     sqlite.function('json_array_append', (target: string | null, path: string, value: any) => {
         if (path !== '$') {
@@ -61,6 +93,9 @@ export async function createTestDb(): Promise<Kysely<Database>> {
 
 async function createSchema(db: Kysely<Database>): Promise<void> {
     const usePg = !!process.env.USE_PG_TESTS
+    const useMysql = !!process.env.USE_MYSQL_TESTS
+    // MySQL can neither index nor default TEXT columns
+    const textType = useMysql ? 'varchar(255)' : 'text'
 
     for (const usersTable of ['users', 'users_results']) {
         const baseSchema = db.schema
@@ -72,14 +107,14 @@ async function createSchema(db: Kysely<Database>): Promise<void> {
                     return col.primaryKey().autoIncrement()
                 }
             })
-            .addColumn('email', 'text', col => col.notNull().unique())
-            .addColumn('name', 'text', col => col.notNull())
-            .addColumn('role', 'text', col => col.defaultTo('guest'))
-            .addColumn('status', 'text')
+            .addColumn('email', textType, col => col.notNull().unique())
+            .addColumn('name', textType, col => col.notNull())
+            .addColumn('role', textType, col => col.defaultTo('guest'))
+            .addColumn('status', textType)
             .addColumn('age', 'integer')
             .addColumn('priority', 'integer', col => col.defaultTo(0))
             .addColumn('isVerified', 'boolean', col => col.defaultTo(false))
-            .addColumn('phone', 'text')
+            .addColumn('phone', textType)
             .addColumn('created_at', 'timestamp', col => col.defaultTo(sql`CURRENT_TIMESTAMP`))
             .addColumn('updated_at', 'timestamp', col => col.defaultTo(sql`CURRENT_TIMESTAMP`));
 
@@ -89,7 +124,7 @@ async function createSchema(db: Kysely<Database>): Promise<void> {
 
         if (usersTable === 'users_results') {
             // must be empty array as default. I know that in Postgres it is set as []::jsonb or smth like that
-            const defaultBuilder = usePg ? sql`'[]'::jsonb` : sql`'[]'`;
+            const defaultBuilder = usePg ? sql`'[]'::jsonb` : useMysql ? sql`(JSON_ARRAY())` : sql`'[]'`;
             await baseSchema
                 .addColumn('applied_rules', usePg ? 'jsonb' : 'json', col => col.defaultTo(defaultBuilder))
                 .execute();